@@ -5,8 +5,32 @@ import { Toaster } from "sonner";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { AuthGuard } from "@/components/AuthGuard";
 import { Header } from "@/components/Header";
+import { SessionTimeoutDialog } from "@/components/auth/SessionTimeoutDialog";
 import { AuthPage } from "@/pages/AuthPage";
 import Index from "./pages/Index";
+import BusinessLayout from "./pages/business/BusinessLayout";
+import BusinessDetailsPage from "./pages/business/BusinessDetailsPage";
+import BusinessWhatsAppPage from "./pages/business/BusinessWhatsAppPage";
+import BusinessWhatsAppNumberPage from "./pages/business/BusinessWhatsAppNumberPage";
+import BusinessTemplatesPage from "./pages/business/BusinessTemplatesPage";
+import BusinessTemplateNewPage from "./pages/business/BusinessTemplateNewPage";
+import BusinessTonePage from "./pages/business/BusinessTonePage";
+import BusinessToneEditPage from "./pages/business/BusinessToneEditPage";
+import BusinessToneHistoryPage from "./pages/business/BusinessToneHistoryPage";
+import BusinessCampaignsPage from "./pages/business/BusinessCampaignsPage";
+import BusinessCampaignNewPage from "./pages/business/BusinessCampaignNewPage";
+import BusinessCampaignPage from "./pages/business/BusinessCampaignPage";
+import BusinessAppointmentsPage from "./pages/business/BusinessAppointmentsPage";
+import BusinessBookingSettingsPage from "./pages/business/BusinessBookingSettingsPage";
+import BusinessEscalationsPage from "./pages/business/BusinessEscalationsPage";
+import BusinessEscalationRulePage from "./pages/business/BusinessEscalationRulePage";
+import BusinessConversationsPage from "./pages/business/BusinessConversationsPage";
+import BusinessIntegrationsPage from "./pages/business/BusinessIntegrationsPage";
+import BusinessIntegrationPage from "./pages/business/BusinessIntegrationPage";
+import BusinessAnalyticsPage from "./pages/business/BusinessAnalyticsPage";
+import AnalyticsOverviewPage from "./pages/AnalyticsOverviewPage";
+import UsersPage from "./pages/UsersPage";
+import type { Permission } from "@/lib/permissions";
 import "./App.css";
 
 // Create a client
@@ -19,6 +43,22 @@ const queryClient = new QueryClient({
   },
 });
 
+// Layout shared by all authenticated pages
+const ProtectedLayout: React.FC<{ children: React.ReactNode; permission?: Permission }> = ({
+  children,
+  permission,
+}) => (
+  <AuthGuard requireAuth={true} permission={permission}>
+    <div className="h-screen">
+      {/* Main content */}
+      <div className="w-full flex flex-col">
+        <Header />
+        <div className="w-full overflow-auto p-6">{children}</div>
+      </div>
+    </div>
+  </AuthGuard>
+);
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
@@ -45,17 +85,179 @@ function App() {
               <Route
                 path="/businesses"
                 element={
-                  <AuthGuard requireAuth={true}>
-                    <div className="h-screen">
-                      {/* Main content */}
-                      <div className="w-full flex flex-col">
-                        <Header />
-                        <div className="w-full overflow-auto p-6">
-                          <Index />
-                        </div>
-                      </div>
-                    </div>
-                  </AuthGuard>
+                  <ProtectedLayout>
+                    <Index />
+                  </ProtectedLayout>
+                }
+              />
+              <Route
+                path="/businesses/:businessId"
+                element={
+                  <ProtectedLayout>
+                    <BusinessLayout />
+                  </ProtectedLayout>
+                }
+              >
+                <Route index element={<BusinessDetailsPage />} />
+                <Route
+                  path="whatsapp"
+                  element={
+                    <AuthGuard permission="whatsapp:edit">
+                      <BusinessWhatsAppPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="whatsapp/:numberId"
+                  element={
+                    <AuthGuard permission="whatsapp:edit">
+                      <BusinessWhatsAppNumberPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="templates"
+                  element={
+                    <AuthGuard permission="whatsapp:edit">
+                      <BusinessTemplatesPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="templates/new"
+                  element={
+                    <AuthGuard permission="whatsapp:edit">
+                      <BusinessTemplateNewPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="tone"
+                  element={
+                    <AuthGuard permission="tone:edit">
+                      <BusinessTonePage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="tone/:toneId"
+                  element={
+                    <AuthGuard permission="tone:edit">
+                      <BusinessToneEditPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="tone/:toneId/history"
+                  element={
+                    <AuthGuard permission="tone:edit">
+                      <BusinessToneHistoryPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="conversations/:conversationId?"
+                  element={
+                    <AuthGuard permission="conversations:view">
+                      <BusinessConversationsPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="campaigns"
+                  element={
+                    <AuthGuard permission="campaigns:manage">
+                      <BusinessCampaignsPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="campaigns/new"
+                  element={
+                    <AuthGuard permission="campaigns:manage">
+                      <BusinessCampaignNewPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="campaigns/:campaignId"
+                  element={
+                    <AuthGuard permission="campaigns:manage">
+                      <BusinessCampaignPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="appointments"
+                  element={
+                    <AuthGuard permission="conversations:view">
+                      <BusinessAppointmentsPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="appointments/settings"
+                  element={
+                    <AuthGuard permission="integrations:edit">
+                      <BusinessBookingSettingsPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="escalations"
+                  element={
+                    <AuthGuard permission="conversations:view">
+                      <BusinessEscalationsPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="escalations/:ruleId"
+                  element={
+                    <AuthGuard permission="integrations:edit">
+                      <BusinessEscalationRulePage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="integrations"
+                  element={
+                    <AuthGuard permission="integrations:edit">
+                      <BusinessIntegrationsPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="integrations/:provider"
+                  element={
+                    <AuthGuard permission="integrations:edit">
+                      <BusinessIntegrationPage />
+                    </AuthGuard>
+                  }
+                />
+                <Route
+                  path="analytics"
+                  element={
+                    <AuthGuard permission="analytics:view">
+                      <BusinessAnalyticsPage />
+                    </AuthGuard>
+                  }
+                />
+              </Route>
+              <Route
+                path="/analytics"
+                element={
+                  <ProtectedLayout permission="analytics:overview">
+                    <AnalyticsOverviewPage />
+                  </ProtectedLayout>
+                }
+              />
+              <Route
+                path="/users"
+                element={
+                  <ProtectedLayout permission="users:manage">
+                    <UsersPage />
+                  </ProtectedLayout>
                 }
               />
 
@@ -65,6 +267,7 @@ function App() {
               {/* Catch all - redirect to businesses */}
               <Route path="*" element={<Navigate to="/businesses" replace />} />
             </Routes>
+            <SessionTimeoutDialog />
             <Toaster position="top-right" />
           </div>
         </Router>
@@ -1,14 +1,16 @@
 import React, { ReactNode } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { Navigate } from "react-router-dom";
+import type { Permission } from "@/lib/permissions";
 
 interface AuthGuardProps {
   children: ReactNode;
   requireAuth?: boolean;
+  permission?: Permission;
 }
 
-export const AuthGuard: React.FC<AuthGuardProps> = ({ children, requireAuth = true }) => {
-  const { isAuthenticated, isLoading } = useAuth();
+export const AuthGuard: React.FC<AuthGuardProps> = ({ children, requireAuth = true, permission }) => {
+  const { isAuthenticated, isLoading, hasPermission } = useAuth();
 
   // Show loading spinner while checking authentication
   if (isLoading) {
@@ -32,5 +34,10 @@ export const AuthGuard: React.FC<AuthGuardProps> = ({ children, requireAuth = tr
     return <Navigate to="/businesses" replace />;
   }
 
+  // If the user's role lacks the required permission, send them back to businesses
+  if (permission && !hasPermission(permission)) {
+    return <Navigate to="/businesses" replace />;
+  }
+
   return <>{children}</>;
 };
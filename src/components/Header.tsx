@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
+import { NavLink } from "react-router-dom";
 import { LogOut, User, Settings } from "lucide-react";
 import {
   DropdownMenu,
@@ -13,7 +14,7 @@ import {
 import { ProfileSettingsDialog } from "./auth/ProfileSettingsDialog";
 
 export const Header: React.FC = () => {
-  const { user, logout } = useAuth();
+  const { user, logout, hasPermission } = useAuth();
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [profileDialogOpen, setProfileDialogOpen] = useState(false);
 
@@ -37,6 +38,30 @@ export const Header: React.FC = () => {
 
           {/* Navigation and User Menu */}
           <div className="flex items-center space-x-4">
+            {user && (
+              <nav className="flex items-center space-x-1">
+                <Button variant="ghost" size="sm" asChild>
+                  <NavLink to="/businesses" className={({ isActive }) => (isActive ? "bg-accent" : "")}>
+                    Businesses
+                  </NavLink>
+                </Button>
+                {hasPermission("analytics:overview") && (
+                  <Button variant="ghost" size="sm" asChild>
+                    <NavLink to="/analytics" className={({ isActive }) => (isActive ? "bg-accent" : "")}>
+                      Analytics
+                    </NavLink>
+                  </Button>
+                )}
+                {hasPermission("users:manage") && (
+                  <Button variant="ghost" size="sm" asChild>
+                    <NavLink to="/users" className={({ isActive }) => (isActive ? "bg-accent" : "")}>
+                      Users
+                    </NavLink>
+                  </Button>
+                )}
+              </nav>
+            )}
+
             {/* User Menu */}
             {user && (
               <DropdownMenu open={dropdownOpen} onOpenChange={setDropdownOpen}>
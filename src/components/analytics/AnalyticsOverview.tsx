@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from "recharts";
+import { MessageSquare, MessagesSquare, Activity, Building } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useBusinesses, useBusinessesStats } from "@/hooks/use-businesses";
+import { CHART_COLORS, lastDaysRange, percentChange, previousPeriod, type DateRange } from "@/lib/analytics";
+import { DateRangeFilter } from "./DateRangeFilter";
+import { StatCard } from "./StatCard";
+
+// Cross-business overview for admins and operators
+export const AnalyticsOverview: React.FC = () => {
+  const [range, setRange] = useState<DateRange>(() => lastDaysRange(30));
+  const previousRange = useMemo(() => previousPeriod(range), [range]);
+
+  const { data: businesses = [], isLoading: businessesLoading } = useBusinesses();
+  const businessIds = useMemo(() => businesses.map((business) => business.id), [businesses]);
+  const statsQueries = useBusinessesStats(businessIds, range);
+  const previousStatsQueries = useBusinessesStats(businessIds, previousRange);
+
+  const rows = businesses.map((business, index) => {
+    const stats = statsQueries[index]?.data;
+    const previous = previousStatsQueries[index]?.data;
+    return {
+      id: business.id,
+      name: business.name,
+      status: business.status,
+      loading: statsQueries[index]?.isLoading,
+      failed: !!statsQueries[index]?.error,
+      conversations: stats?.totalConversations || 0,
+      previousConversations: previous?.totalConversations || 0,
+      messages: stats?.totalMessages || 0,
+      previousMessages: previous?.totalMessages || 0,
+      active: stats?.activeConversations || 0,
+      previousActive: previous?.activeConversations || 0,
+    };
+  });
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      conversations: sum.conversations + row.conversations,
+      previousConversations: sum.previousConversations + row.previousConversations,
+      messages: sum.messages + row.messages,
+      previousMessages: sum.previousMessages + row.previousMessages,
+      active: sum.active + row.active,
+      previousActive: sum.previousActive + row.previousActive,
+    }),
+    { conversations: 0, previousConversations: 0, messages: 0, previousMessages: 0, active: 0, previousActive: 0 }
+  );
+
+  if (businessesLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-muted-foreground">Loading businesses...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="text-start">
+          <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+          <p className="text-muted-foreground">Activity across all businesses.</p>
+        </div>
+        <DateRangeFilter value={range} onChange={setRange} />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatCard
+          title="Businesses"
+          value={businesses.length}
+          icon={<Building className="w-4 h-4" />}
+        />
+        <StatCard
+          title="Conversations"
+          value={totals.conversations}
+          previousValue={totals.previousConversations}
+          icon={<MessagesSquare className="w-4 h-4" />}
+        />
+        <StatCard
+          title="Messages"
+          value={totals.messages}
+          previousValue={totals.previousMessages}
+          icon={<MessageSquare className="w-4 h-4" />}
+        />
+        <StatCard
+          title="Active conversations"
+          value={totals.active}
+          previousValue={totals.previousActive}
+          icon={<Activity className="w-4 h-4" />}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Conversations by business</CardTitle>
+          <CardDescription>Current vs previous period</CardDescription>
+        </CardHeader>
+        <CardContent className="h-[320px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+              <XAxis dataKey="name" fontSize={12} />
+              <YAxis allowDecimals={false} fontSize={12} />
+              <Tooltip />
+              <Legend />
+              <Bar dataKey="conversations" name="This period" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+              <Bar
+                dataKey="previousConversations"
+                name="Previous period"
+                fill="hsl(var(--muted-foreground))"
+                radius={[4, 4, 0, 0]}
+              />
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Businesses</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 font-medium">Business</th>
+                <th className="py-2 font-medium text-right">Conversations</th>
+                <th className="py-2 font-medium text-right">Change</th>
+                <th className="py-2 font-medium text-right">Messages</th>
+                <th className="py-2 font-medium text-right">Active</th>
+                <th className="py-2 font-medium text-right">Archived</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const change = percentChange(row.conversations, row.previousConversations);
+                return (
+                  <tr key={row.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      <Link to={`/businesses/${row.id}/analytics`} className="font-medium hover:underline">
+                        {row.name}
+                      </Link>
+                      {row.status !== "active" && (
+                        <Badge variant="secondary" className="ml-2">
+                          Inactive
+                        </Badge>
+                      )}
+                    </td>
+                    {row.loading ? (
+                      <td colSpan={5} className="py-2 text-right text-muted-foreground">
+                        Loading...
+                      </td>
+                    ) : row.failed ? (
+                      <td colSpan={5} className="py-2 text-right text-destructive">
+                        Failed to load stats
+                      </td>
+                    ) : (
+                      <>
+                        <td className="py-2 text-right">{row.conversations.toLocaleString()}</td>
+                        <td
+                          className={`py-2 text-right ${
+                            change === null || change > 0
+                              ? "text-green-600"
+                              : change < 0
+                              ? "text-red-600"
+                              : "text-muted-foreground"
+                          }`}
+                        >
+                          {change === null ? "New" : `${change > 0 ? "+" : ""}${change.toFixed(1)}%`}
+                        </td>
+                        <td className="py-2 text-right">{row.messages.toLocaleString()}</td>
+                        <td className="py-2 text-right">{row.active.toLocaleString()}</td>
+                        <td className="py-2 text-right">
+                          {Math.max(row.conversations - row.active, 0).toLocaleString()}
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useMemo, useState } from "react";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  PieChart,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import { format, parseISO } from "date-fns";
+import { MessageSquare, MessagesSquare, Activity, Archive } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useBusinessStats } from "@/hooks/use-businesses";
+import {
+  CHART_COLORS,
+  fillDailySeries,
+  lastDaysRange,
+  previousPeriod,
+  type DateRange,
+} from "@/lib/analytics";
+import { DateRangeFilter } from "./DateRangeFilter";
+import { StatCard } from "./StatCard";
+
+interface BusinessAnalyticsProps {
+  businessId: number;
+}
+
+export const BusinessAnalytics: React.FC<BusinessAnalyticsProps> = ({ businessId }) => {
+  const [range, setRange] = useState<DateRange>(() => lastDaysRange(30));
+  const previousRange = useMemo(() => previousPeriod(range), [range]);
+
+  const { data: stats, isLoading, error } = useBusinessStats(businessId, range);
+  const { data: previousStats } = useBusinessStats(businessId, previousRange);
+
+  const dailySeries = useMemo(() => {
+    const current = fillDailySeries(stats?.conversationsByDay, range);
+    const previous = fillDailySeries(previousStats?.conversationsByDay, previousRange);
+    // Overlay the previous period day-by-day on the current axis
+    return current.map((point, index) => ({
+      date: point.date,
+      current: point.count,
+      previous: previous[index]?.count ?? 0,
+    }));
+  }, [stats, previousStats, range, previousRange]);
+
+  const messageTypes = useMemo(
+    () =>
+      Object.entries(stats?.messagesByType || {}).map(([type, count]) => ({
+        type,
+        count,
+        previous: previousStats?.messagesByType?.[type] || 0,
+      })),
+    [stats, previousStats]
+  );
+
+  const totalConversations = stats?.totalConversations || 0;
+  const activeConversations = stats?.activeConversations || 0;
+  const archivedConversations = Math.max(totalConversations - activeConversations, 0);
+  const previousArchived = previousStats
+    ? Math.max((previousStats.totalConversations || 0) - (previousStats.activeConversations || 0), 0)
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-muted-foreground">
+          Compared with {format(parseISO(previousRange.startDate), "PP")} –{" "}
+          {format(parseISO(previousRange.endDate), "PP")}
+        </p>
+        <DateRangeFilter value={range} onChange={setRange} />
+      </div>
+
+      {error ? (
+        <div className="text-destructive">Error loading analytics: {error.message}</div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center min-h-[300px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              title="Conversations"
+              value={totalConversations}
+              previousValue={previousStats?.totalConversations}
+              icon={<MessagesSquare className="w-4 h-4" />}
+            />
+            <StatCard
+              title="Messages"
+              value={stats?.totalMessages || 0}
+              previousValue={previousStats?.totalMessages}
+              icon={<MessageSquare className="w-4 h-4" />}
+            />
+            <StatCard
+              title="Active conversations"
+              value={activeConversations}
+              previousValue={previousStats?.activeConversations}
+              icon={<Activity className="w-4 h-4" />}
+            />
+            <StatCard
+              title="Archived conversations"
+              value={archivedConversations}
+              previousValue={previousArchived}
+              icon={<Archive className="w-4 h-4" />}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Conversations per day</CardTitle>
+              <CardDescription>Current period vs previous period</CardDescription>
+            </CardHeader>
+            <CardContent className="h-[320px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={dailySeries}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                  <XAxis dataKey="date" tickFormatter={(date) => format(parseISO(date), "MMM d")} fontSize={12} />
+                  <YAxis allowDecimals={false} fontSize={12} />
+                  <Tooltip labelFormatter={(date) => format(parseISO(String(date)), "PP")} />
+                  <Legend />
+                  <Line
+                    type="monotone"
+                    dataKey="current"
+                    name="This period"
+                    stroke={CHART_COLORS[0]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="previous"
+                    name="Previous period"
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="4 4"
+                    dot={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Message types</CardTitle>
+                <CardDescription>Share of messages by type</CardDescription>
+              </CardHeader>
+              <CardContent className="h-[280px]">
+                {messageTypes.length === 0 ? (
+                  <div className="h-full flex items-center justify-center text-muted-foreground text-sm">
+                    No messages in this period
+                  </div>
+                ) : (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <PieChart>
+                      <Pie data={messageTypes} dataKey="count" nameKey="type" innerRadius={60} outerRadius={100}>
+                        {messageTypes.map((entry, index) => (
+                          <Cell key={entry.type} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+                        ))}
+                      </Pie>
+                      <Tooltip />
+                      <Legend />
+                    </PieChart>
+                  </ResponsiveContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Message types by period</CardTitle>
+                <CardDescription>Current vs previous period</CardDescription>
+              </CardHeader>
+              <CardContent className="h-[280px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={messageTypes}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis dataKey="type" fontSize={12} />
+                    <YAxis allowDecimals={false} fontSize={12} />
+                    <Tooltip />
+                    <Legend />
+                    <Bar dataKey="count" name="This period" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+                    <Bar
+                      dataKey="previous"
+                      name="Previous period"
+                      fill="hsl(var(--muted-foreground))"
+                      radius={[4, 4, 0, 0]}
+                    />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DATE_RANGE_PRESETS, lastDaysRange, type DateRange } from "@/lib/analytics";
+
+interface DateRangeFilterProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}
+
+const CUSTOM = "custom";
+
+export const DateRangeFilter: React.FC<DateRangeFilterProps> = ({ value, onChange }) => {
+  // Show the matching preset when the range is one of them
+  const activePreset =
+    DATE_RANGE_PRESETS.find((preset) => {
+      const range = lastDaysRange(Number(preset.value));
+      return range.startDate === value.startDate && range.endDate === value.endDate;
+    })?.value || CUSTOM;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={activePreset}
+        onValueChange={(preset) => {
+          if (preset !== CUSTOM) onChange(lastDaysRange(Number(preset)));
+        }}
+      >
+        <SelectTrigger className="w-[150px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DATE_RANGE_PRESETS.map((preset) => (
+            <SelectItem key={preset.value} value={preset.value}>
+              {preset.label}
+            </SelectItem>
+          ))}
+          <SelectItem value={CUSTOM}>Custom range</SelectItem>
+        </SelectContent>
+      </Select>
+      <Input
+        type="date"
+        className="w-[150px]"
+        value={value.startDate}
+        max={value.endDate}
+        onChange={(e) => e.target.value && onChange({ ...value, startDate: e.target.value })}
+      />
+      <span className="text-muted-foreground text-sm">to</span>
+      <Input
+        type="date"
+        className="w-[150px]"
+        value={value.endDate}
+        min={value.startDate}
+        onChange={(e) => e.target.value && onChange({ ...value, endDate: e.target.value })}
+      />
+    </div>
+  );
+};
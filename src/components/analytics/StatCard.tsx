@@ -0,0 +1,46 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { TrendingDown, TrendingUp, Minus } from "lucide-react";
+import { percentChange } from "@/lib/analytics";
+
+interface StatCardProps {
+  title: string;
+  value: number;
+  previousValue?: number;
+  icon: React.ReactNode;
+}
+
+export const StatCard: React.FC<StatCardProps> = ({ title, value, previousValue, icon }) => {
+  const change = previousValue === undefined ? undefined : percentChange(value, previousValue);
+
+  return (
+    <Card>
+      <CardContent className="p-5">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">{title}</span>
+          <div className="w-8 h-8 rounded-full bg-primary/10 flex items-center justify-center text-primary">{icon}</div>
+        </div>
+        <div className="mt-2 text-2xl font-bold">{value.toLocaleString()}</div>
+        {change !== undefined && (
+          <div
+            className={`mt-1 flex items-center gap-1 text-xs ${
+              change === null || change > 0 ? "text-green-600" : change < 0 ? "text-red-600" : "text-muted-foreground"
+            }`}
+          >
+            {change === null || change > 0 ? (
+              <TrendingUp className="w-3 h-3" />
+            ) : change < 0 ? (
+              <TrendingDown className="w-3 h-3" />
+            ) : (
+              <Minus className="w-3 h-3" />
+            )}
+            <span>
+              {change === null ? "New" : `${change > 0 ? "+" : ""}${change.toFixed(1)}%`} vs previous period (
+              {previousValue.toLocaleString()})
+            </span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -9,7 +9,7 @@ import { authService, type LoginCredentials } from "@/lib/services/auth-service"
 import { ApiError } from "@/lib/api-client";
 
 interface AdminLoginProps {
-  onLoginSuccess: (user: any, token: string) => void;
+  onLoginSuccess: (user: any, token: string, refreshToken?: string) => void;
   onSwitchToSignup: () => void;
 }
 
@@ -44,7 +44,7 @@ export const AdminLogin: React.FC<AdminLoginProps> = ({ onLoginSuccess, onSwitch
       const response = await authService.login(formData);
 
       if (response.success && response.data) {
-        onLoginSuccess(response.data.user, response.data.token);
+        onLoginSuccess(response.data.user, response.data.token, response.data.refresh_token);
       } else {
         setError(response.error || "Login failed");
       }
@@ -9,7 +9,7 @@ import { authService, type SignupCredentials } from "@/lib/services/auth-service
 import { ApiError } from "@/lib/api-client";
 
 interface AdminSignupProps {
-  onSignupSuccess: (user: any, token: string) => void;
+  onSignupSuccess: (user: any, token: string, refreshToken?: string) => void;
   onSwitchToLogin: () => void;
 }
 
@@ -89,7 +89,7 @@ export const AdminSignup: React.FC<AdminSignupProps> = ({ onSignupSuccess, onSwi
       const response = await authService.signup(signupData);
 
       if (response.success && response.data) {
-        onSignupSuccess(response.data.user, response.data.token);
+        onSignupSuccess(response.data.user, response.data.token, response.data.refresh_token);
       } else {
         setError(response.error || "Signup failed");
       }
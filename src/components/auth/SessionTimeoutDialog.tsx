@@ -0,0 +1,49 @@
+import React from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useIdleTimeout } from "@/hooks/use-idle-timeout";
+import { API_CONFIG } from "@/config";
+
+// Warns before signing out an idle user and signs them out when the timeout passes
+export const SessionTimeoutDialog: React.FC = () => {
+  const { isAuthenticated, logout } = useAuth();
+
+  const { isWarning, remaining, reset } = useIdleTimeout({
+    timeout: API_CONFIG.SESSION_IDLE_TIMEOUT,
+    warningTime: API_CONFIG.SESSION_IDLE_WARNING,
+    enabled: isAuthenticated,
+    onIdle: () => {
+      logout();
+      toast.info("You were signed out due to inactivity");
+    },
+  });
+
+  const seconds = Math.ceil((remaining || 0) / 1000);
+
+  return (
+    <AlertDialog open={isAuthenticated && isWarning}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Are you still there?</AlertDialogTitle>
+          <AlertDialogDescription>
+            You will be signed out in {seconds} second{seconds === 1 ? "" : "s"} due to inactivity.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={logout}>Sign out</AlertDialogCancel>
+          <AlertDialogAction onClick={reset}>Stay signed in</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -1,19 +1,15 @@
 ﻿import React, { useState, useMemo } from "react";
-import { Plus, Edit, Trash2, Settings, MessageSquare, History, Search } from "lucide-react";
+import { Plus, Edit, Trash2, Settings, MessageSquare, History, Search, BarChart3 } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import { useBusinesses, useDeleteBusiness, useBusinessTone, businessKeys } from "@/hooks/use-businesses";
+import { useBusinesses, useDeleteBusiness, businessKeys } from "@/hooks/use-businesses";
 import { useQueryClient } from "@tanstack/react-query";
 import { BusinessForm } from "./BusinessForm";
-import { WhatsAppForm } from "./WhatsAppForm";
-import { BusinessToneForm } from "./BusinessToneForm";
-import { GoogleWorkspaceForm } from "../integration/GoogleWorkspaceForm";
-import { HubSpotForm } from "../integration/HubSpotForm";
-import { OdooForm } from "../integration/OdooForm";
-import { AirtableForm } from "../integration/AirtableForm";
-import { ChatHistory } from "../chat/ChatHistory";
+import { INTEGRATION_PROVIDERS } from "../integration/providers";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import {
   AlertDialog,
@@ -27,112 +23,44 @@ import {
 } from "@/components/ui/alert-dialog";
 import type { Business } from "@/lib/services/business-service";
 
-type FormType = "business" | "whatsapp" | "tone" | "chat-history" | "google" | "hubspot" | "odoo" | "airtable" | null;
-
 export const BusinessList: React.FC = () => {
-  const [selectedBusiness, setSelectedBusiness] = useState<Business | null>(null);
-  const [formType, setFormType] = useState<FormType>(null);
-  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [businessToDelete, setBusinessToDelete] = useState<Business | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
 
   const { data: businesses = [], isLoading, error } = useBusinesses();
   const deleteBusiness = useDeleteBusiness();
   const queryClient = useQueryClient();
-
-  // Only call the hook when tone modal is opened
-  const { data: existingTones = {}, isLoading: tonesLoading } = useBusinessTone(
-    formType === "tone" ? selectedBusiness?.id || 0 : 0
-  );
-
-  // Add debug logging
-  console.log("BusinessList - selectedBusiness:", selectedBusiness);
-  console.log("BusinessList - existingTones:", existingTones);
-  console.log("BusinessList - formType:", formType);
+  const navigate = useNavigate();
+  const { hasPermission, canAccessBusiness } = useAuth();
 
   // Filter businesses based on search query
   const filteredBusinesses = useMemo(() => {
+    const accessibleBusinesses = businesses.filter((business) => canAccessBusiness(business.id));
     if (!searchQuery.trim()) {
-      return businesses;
+      return accessibleBusinesses;
     }
 
-    return businesses.filter(
+    return accessibleBusinesses.filter(
       (business) =>
         business.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
         business.description?.toLowerCase().includes(searchQuery.toLowerCase())
     );
-  }, [businesses, searchQuery]);
+  }, [businesses, searchQuery, canAccessBusiness]);
 
   const handleCreateBusiness = () => {
-    setSelectedBusiness(null);
-    setFormType("business");
-    setIsFormOpen(true);
-  };
-
-  const handleEditBusiness = (business: Business) => {
-    setSelectedBusiness(business);
-    setFormType("business");
-    setIsFormOpen(true);
-  };
-
-  const handleWhatsAppConfig = (business: Business) => {
-    setSelectedBusiness(business);
-    setFormType("whatsapp");
-    setIsFormOpen(true);
-  };
-
-  const handleToneConfig = (business: Business) => {
-    setSelectedBusiness(business);
-    setFormType("tone");
-    setIsFormOpen(true);
-  };
-
-  const handleGoogleConfig = (business: Business) => {
-    setSelectedBusiness(business);
-    setFormType("google");
-    setIsFormOpen(true);
-  };
-
-  const handleHubSpotConfig = (business: Business) => {
-    setSelectedBusiness(business);
-    setFormType("hubspot");
-    setIsFormOpen(true);
-  };
-
-  const handleOdooConfig = (business: Business) => {
-    setSelectedBusiness(business);
-    setFormType("odoo");
-    setIsFormOpen(true);
-  };
-
-  const handleAirtableConfig = (business: Business) => {
-    setSelectedBusiness(business);
-    setFormType("airtable");
-    setIsFormOpen(true);
-  };
-
-  const handleChatHistory = (business: Business) => {
-    setSelectedBusiness(business);
-    setFormType("chat-history");
-    setIsFormOpen(true);
+    setIsCreateOpen(true);
   };
 
   const handleDeleteBusiness = (business: Business) => {
     setBusinessToDelete(business);
   };
 
-  const closeForm = () => {
-    setIsFormOpen(false);
-    setFormType(null);
-    setSelectedBusiness(null);
-  };
-
-  // Custom success handler that invalidates cache and closes form
-  const handleFormSuccess = () => {
+  // Custom success handler that invalidates cache and closes the create dialog
+  const handleCreateSuccess = () => {
     // Invalidate the businesses query to refresh the data
     queryClient.invalidateQueries({ queryKey: businessKeys.lists() });
-    // Close the modal after successful operation
-    closeForm();
+    setIsCreateOpen(false);
   };
 
   const confirmDelete = async () => {
@@ -142,55 +70,6 @@ export const BusinessList: React.FC = () => {
     }
   };
 
-  const renderForm = () => {
-    switch (formType) {
-      case "business":
-        return <BusinessForm business={selectedBusiness} onSuccess={handleFormSuccess} onCancel={closeForm} />;
-      case "whatsapp":
-        return (
-          <WhatsAppForm businessId={selectedBusiness?.id || 0} onSuccess={handleFormSuccess} onCancel={closeForm} />
-        );
-      case "tone":
-        return (
-          <BusinessToneForm businessId={selectedBusiness?.id || 0} onSuccess={handleFormSuccess} onCancel={closeForm} />
-        );
-      case "google":
-        return (
-          <GoogleWorkspaceForm
-            businessId={selectedBusiness?.id || 0}
-            onSuccess={handleFormSuccess}
-            onCancel={closeForm}
-          />
-        );
-      case "hubspot":
-        return (
-          <HubSpotForm businessId={selectedBusiness?.id || 0} onSuccess={handleFormSuccess} onCancel={closeForm} />
-        );
-      case "odoo":
-        return (
-          <OdooForm
-            key={`odoo-${selectedBusiness?.id}`}
-            businessId={selectedBusiness?.id || 0}
-            onSuccess={handleFormSuccess}
-            onCancel={closeForm}
-          />
-        );
-      case "airtable":
-        return (
-          <AirtableForm
-            key={`airtable-${selectedBusiness?.id}`}
-            businessId={selectedBusiness?.id || 0}
-            onSuccess={handleFormSuccess}
-            onCancel={closeForm}
-          />
-        );
-      case "chat-history":
-        return <ChatHistory businessId={selectedBusiness?.id || 0} businessName={selectedBusiness?.name || ""} />;
-      default:
-        return null;
-    }
-  };
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -215,10 +94,12 @@ export const BusinessList: React.FC = () => {
           <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
           <p className="text-muted-foreground">Manage businesses for your WhatsApp bot.</p>
         </div>
-        <Button onClick={handleCreateBusiness} className="bg-primary text-primary-foreground">
-          <Plus className="h-4 w-4 mr-2" />
-          Add Business
-        </Button>
+        {hasPermission("businesses:create") && (
+          <Button onClick={handleCreateBusiness} className="bg-primary text-primary-foreground">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Business
+          </Button>
+        )}
       </div>
 
       {/* Search */}
@@ -245,7 +126,11 @@ export const BusinessList: React.FC = () => {
             <Card key={business.id} className="relative p-4 mb-4">
               <div className="space-y-2">
                 <div className="flex items-center space-x-2">
-                  <CardTitle className="text-lg">{business.name}</CardTitle>
+                  <CardTitle className="text-lg">
+                    <Link to={`/businesses/${business.id}`} className="hover:underline">
+                      {business.name}
+                    </Link>
+                  </CardTitle>
                   <Badge variant={business.status === "active" ? "default" : "secondary"}>
                     {business.status === "active" ? "Active" : "Inactive"}
                   </Badge>
@@ -259,94 +144,83 @@ export const BusinessList: React.FC = () => {
                 <div className="space-y-2">
                   <p className="mt-5 text-start">Basic Configuration</p>
                   <div className="flex flex-wrap gap-2">
-                    <Button size="sm" variant="outline" onClick={() => handleEditBusiness(business)}>
-                      <Edit className="h-3 w-3 mr-1" />
-                      Edit
-                    </Button>
-                    <Button size="sm" variant="outline" onClick={() => handleWhatsAppConfig(business)}>
-                      <MessageSquare className="h-3 w-3 mr-1" />
-                      WhatsApp
-                    </Button>
-                    <Button size="sm" variant="outline" onClick={() => handleToneConfig(business)}>
-                      <Settings className="h-3 w-3 mr-1" />
-                      Tone
-                    </Button>
-                    <Button size="sm" variant="outline" onClick={() => handleChatHistory(business)}>
-                      <History className="h-3 w-3 mr-1" />
-                      Chat History
-                    </Button>
+                    {hasPermission("businesses:edit") && (
+                      <Button size="sm" variant="outline" onClick={() => navigate(`/businesses/${business.id}`)}>
+                        <Edit className="h-3 w-3 mr-1" />
+                        Edit
+                      </Button>
+                    )}
+                    {hasPermission("whatsapp:edit") && (
+                      <Button size="sm" variant="outline" onClick={() => navigate(`/businesses/${business.id}/whatsapp`)}>
+                        <MessageSquare className="h-3 w-3 mr-1" />
+                        WhatsApp
+                      </Button>
+                    )}
+                    {hasPermission("tone:edit") && (
+                      <Button size="sm" variant="outline" onClick={() => navigate(`/businesses/${business.id}/tone`)}>
+                        <Settings className="h-3 w-3 mr-1" />
+                        Tone
+                      </Button>
+                    )}
+                    {hasPermission("conversations:view") && (
+                      <Button size="sm" variant="outline" onClick={() => navigate(`/businesses/${business.id}/conversations`)}>
+                        <History className="h-3 w-3 mr-1" />
+                        Chat History
+                      </Button>
+                    )}
+                    {hasPermission("analytics:view") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/businesses/${business.id}/analytics`)}
+                      >
+                        <BarChart3 className="h-3 w-3 mr-1" />
+                        Analytics
+                      </Button>
+                    )}
                   </div>
                 </div>
-                <div className="space-y-2">
-                  <p className="mt-5 text-start">External System Configuration</p>
-                  <div className="flex flex-wrap gap-2">
-                    <Button size="sm" variant="outline" onClick={() => handleGoogleConfig(business)}>
-                      <div className="w-4 h-4 mr-1 bg-primary rounded-sm flex items-center justify-center">
-                        <span className="text-white font-bold text-[10px]">G</span>
-                      </div>
-                      Google
-                    </Button>
-                    <Button size="sm" variant="outline" onClick={() => handleHubSpotConfig(business)}>
-                      <div className="w-4 h-4 mr-1 bg-primary rounded-sm flex items-center justify-center">
-                        <span className="text-white font-bold text-[10px]">H</span>
-                      </div>
-                      HubSpot
-                    </Button>
-                    <Button size="sm" variant="outline" onClick={() => handleOdooConfig(business)}>
-                      <div className="w-4 h-4 mr-1 bg-primary rounded-sm flex items-center justify-center">
-                        <span className="text-white font-bold text-[10px]">O</span>
-                      </div>
-                      Odoo
-                    </Button>
-                    <Button size="sm" variant="outline" onClick={() => handleAirtableConfig(business)}>
-                      <div className="w-4 h-4 mr-1 bg-primary rounded-sm flex items-center justify-center">
-                        <span className="text-white font-bold text-[10px]">A</span>
-                      </div>
-                      Airtable
-                    </Button>
+                {hasPermission("integrations:edit") && (
+                  <div className="space-y-2">
+                    <p className="mt-5 text-start">External System Configuration</p>
+                    <div className="flex flex-wrap gap-2">
+                      {INTEGRATION_PROVIDERS.map((provider) => (
+                        <Button
+                          key={provider.id}
+                          size="sm"
+                          variant="outline"
+                          onClick={() => navigate(`/businesses/${business.id}/integrations/${provider.id}`)}
+                        >
+                          <div className="w-4 h-4 mr-1 bg-primary rounded-sm flex items-center justify-center">
+                            <span className="text-white font-bold text-[10px]">{provider.initial}</span>
+                          </div>
+                          {provider.name}
+                        </Button>
+                      ))}
+                    </div>
                   </div>
-                </div>
+                )}
               </div>
               <div className="absolute right-2 top-2">
-                <Button variant="destructive" className="w-8 h-8" onClick={() => handleDeleteBusiness(business)}>
-                  <Trash2 className="w-3 h-3" />
-                </Button>
+                {hasPermission("businesses:delete") && (
+                  <Button variant="destructive" className="w-8 h-8" onClick={() => handleDeleteBusiness(business)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
               </div>
             </Card>
           ))}
         </div>
       )}
 
-      {/* Form Dialog */}
-      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-        <DialogContent
-          className={`${
-            formType === "chat-history" ? "max-w-[95vw] w-[95vw] h-[95vh]" : "max-w-4xl"
-          } max-h-[90vh] overflow-y-auto`}
-        >
+      {/* Create Business Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>
-              {formType === "business" && (selectedBusiness ? "Edit Business" : "Create Business")}
-              {formType === "whatsapp" && "WhatsApp Configuration"}
-              {formType === "tone" && "Business Tone Configuration"}
-              {formType === "chat-history" && "Chat History"}
-              {formType === "google" && "Google Workspace Integration"}
-              {formType === "hubspot" && "HubSpot Integration"}
-              {formType === "odoo" && "Odoo Integration"}
-              {formType === "airtable" && "Airtable Integration"}
-            </DialogTitle>
-            <DialogDescription>
-              {formType === "business" && "Configure your business details"}
-              {formType === "whatsapp" && "Set up WhatsApp integration for this business"}
-              {formType === "tone" && "Configure the tone and personality for this business"}
-              {formType === "chat-history" && "View and manage chat history for this business"}
-              {formType === "google" && "Connect your Google Workspace account"}
-              {formType === "hubspot" && "Connect your HubSpot CRM"}
-              {formType === "odoo" && "Connect your Odoo ERP system"}
-              {formType === "airtable" && "Connect your Airtable CRM"}
-            </DialogDescription>
+            <DialogTitle>Create Business</DialogTitle>
+            <DialogDescription>Configure your business details</DialogDescription>
           </DialogHeader>
-          {renderForm()}
+          <BusinessForm onSuccess={handleCreateSuccess} onCancel={() => setIsCreateOpen(false)} />
         </DialogContent>
       </Dialog>
 
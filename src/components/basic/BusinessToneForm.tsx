@@ -1,14 +1,28 @@
 import React, { useEffect } from "react";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { CalendarPlus, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { useCreateBusinessTone, useUpdateBusinessTone, useBusinessTone } from "@/hooks/use-businesses";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useBusinessTones, useCreateBusinessTone, useUpdateBusinessTone } from "@/hooks/use-businesses";
+import { TonePlayground } from "./TonePlayground";
+import { WEEKDAYS } from "@/lib/tones";
 import type { BusinessTone } from "@/lib/services/business-service";
 
+const scheduleRuleSchema = z
+  .object({
+    start_date: z.string().min(1, "Start date is required"),
+    end_date: z.string().min(1, "End date is required"),
+    days_of_week: z.array(z.number()),
+  })
+  .refine((rule) => rule.end_date >= rule.start_date, {
+    path: ["end_date"],
+    message: "End date must be on or after the start date",
+  });
+
 const businessToneSchema = z.object({
   name: z.string().min(1, "Tone name is required").max(50, "Tone name cannot exceed 50 characters"),
   description: z.string().max(200, "Description cannot exceed 200 characters").optional(),
@@ -16,22 +30,31 @@ const businessToneSchema = z.object({
     .string()
     .min(1, "Tone instructions are required")
     .max(1000, "Tone instructions cannot exceed 1000 characters"),
+  schedule_rules: z.array(scheduleRuleSchema),
 });
 
 type BusinessToneFormData = z.infer<typeof businessToneSchema>;
 
 interface BusinessToneFormProps {
   businessId: number;
+  // Tone to edit; a new tone is created when omitted
+  tone?: BusinessTone | null;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-export const BusinessToneForm: React.FC<BusinessToneFormProps> = ({ businessId, onSuccess, onCancel }) => {
-  // Use the single tone hook instead of tones array
-  const { data: existingTone, isLoading: toneLoading } = useBusinessTone(businessId);
-
+export const BusinessToneForm: React.FC<BusinessToneFormProps> = ({
+  businessId,
+  tone: existingTone,
+  onSuccess,
+  onCancel,
+}) => {
   const createTone = useCreateBusinessTone();
   const updateTone = useUpdateBusinessTone();
+  const { data: tones = [] } = useBusinessTones(businessId, { enabled: !existingTone });
+
+  // The playground compares the draft with the saved instructions, or with the active tone for a new one
+  const baselineTone = existingTone || tones.find((tone) => tone.is_active);
 
   const form = useForm<BusinessToneFormData>({
     resolver: zodResolver(businessToneSchema),
@@ -39,12 +62,18 @@ export const BusinessToneForm: React.FC<BusinessToneFormProps> = ({ businessId,
       name: "",
       description: "",
       tone_instructions: "",
+      schedule_rules: [],
     },
   });
 
-  // Enhanced loading states
+  const {
+    fields: ruleFields,
+    append: appendRule,
+    remove: removeRule,
+  } = useFieldArray({ control: form.control, name: "schedule_rules" });
+  const draftInstructions = form.watch("tone_instructions");
+
   const isSubmitting = createTone.isPending || updateTone.isPending;
-  const isFormLoading = toneLoading;
 
   // Load existing tone data when editing
   useEffect(() => {
@@ -53,18 +82,22 @@ export const BusinessToneForm: React.FC<BusinessToneFormProps> = ({ businessId,
         name: existingTone.name,
         description: existingTone.description || "",
         tone_instructions: existingTone.tone_instructions,
-      });
-    } else {
-      // Reset to empty when no tone exists
-      form.reset({
-        name: "",
-        description: "",
-        tone_instructions: "",
+        schedule_rules: (existingTone.schedule_rules || []).map((rule) => ({
+          start_date: rule.start_date,
+          end_date: rule.end_date,
+          days_of_week: rule.days_of_week || [],
+        })),
       });
     }
   }, [existingTone, form]);
 
   const onSubmit = async (data: BusinessToneFormData) => {
+    const scheduleRules = data.schedule_rules.map((rule) => ({
+      start_date: rule.start_date,
+      end_date: rule.end_date,
+      days_of_week: rule.days_of_week.length ? rule.days_of_week : undefined,
+    }));
+
     try {
       if (existingTone) {
         // Update existing tone
@@ -75,6 +108,7 @@ export const BusinessToneForm: React.FC<BusinessToneFormProps> = ({ businessId,
             name: data.name,
             description: data.description,
             tone_instructions: data.tone_instructions,
+            schedule_rules: scheduleRules,
           },
         });
       } else {
@@ -85,6 +119,7 @@ export const BusinessToneForm: React.FC<BusinessToneFormProps> = ({ businessId,
             name: data.name,
             description: data.description,
             tone_instructions: data.tone_instructions,
+            schedule_rules: scheduleRules,
           },
         });
       }
@@ -94,17 +129,13 @@ export const BusinessToneForm: React.FC<BusinessToneFormProps> = ({ businessId,
     }
   };
 
-  // Show loading state when form is loading
-  if (isFormLoading) {
-    return (
-      <div className="flex items-center justify-center p-8">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-          <p className="text-muted-foreground">Loading tone configuration...</p>
-        </div>
-      </div>
+  const toggleWeekday = (index: number, day: number) => {
+    const days = form.getValues(`schedule_rules.${index}.days_of_week`);
+    form.setValue(
+      `schedule_rules.${index}.days_of_week`,
+      days.includes(day) ? days.filter((item) => item !== day) : [...days, day].sort()
     );
-  }
+  };
 
   return (
     <Form {...form}>
@@ -153,12 +184,109 @@ export const BusinessToneForm: React.FC<BusinessToneFormProps> = ({ businessId,
                     disabled={isSubmitting}
                   />
                 </FormControl>
+                {existingTone && (
+                  <FormDescription>
+                    Saving changed instructions creates version {existingTone.version + 1}; older versions stay in
+                    the history.
+                  </FormDescription>
+                )}
                 <FormMessage />
               </FormItem>
             )}
           />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="text-sm font-medium">Schedule (optional)</span>
+                <p className="text-xs text-muted-foreground">
+                  On these dates this tone is used instead of the active tone, e.g. for holidays.
+                </p>
+              </div>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => appendRule({ start_date: "", end_date: "", days_of_week: [] })}
+              >
+                <CalendarPlus className="h-3 w-3 mr-1" />
+                Add Dates
+              </Button>
+            </div>
+            {ruleFields.map((ruleField, index) => {
+              const days = form.watch(`schedule_rules.${index}.days_of_week`) || [];
+              return (
+                <div key={ruleField.id} className="rounded-lg border p-3 space-y-3">
+                  <div className="grid grid-cols-[1fr_1fr_auto] items-start gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`schedule_rules.${index}.start_date`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-xs">From</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`schedule_rules.${index}.end_date`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-xs">To</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button type="button" size="sm" variant="ghost" className="mt-6" onClick={() => removeRule(index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="text-xs text-muted-foreground mr-1">Only on</span>
+                    {WEEKDAYS.map((label, day) => (
+                      <Button
+                        key={label}
+                        type="button"
+                        size="sm"
+                        variant={days.includes(day) ? "default" : "outline"}
+                        className="h-7 px-2 text-xs"
+                        onClick={() => toggleWeekday(index, day)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                    {!days.length && <span className="text-xs text-muted-foreground ml-1">every day</span>}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
         </fieldset>
 
+        <div className="space-y-2">
+          <div>
+            <span className="text-sm font-medium">Playground</span>
+            <p className="text-xs text-muted-foreground">
+              Try sample customer messages and compare the bot's replies before saving.
+            </p>
+          </div>
+          <TonePlayground
+            businessId={businessId}
+            draftInstructions={draftInstructions}
+            currentInstructions={baselineTone?.tone_instructions ?? null}
+            currentLabel={
+              existingTone ? "Saved version" : baselineTone ? `Active tone: ${baselineTone.name}` : "Default style"
+            }
+          />
+        </div>
+
         <div className="flex justify-end space-x-2">
           <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
             Cancel
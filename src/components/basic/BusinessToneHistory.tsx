@@ -0,0 +1,164 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useBusinessToneVersions, useRollbackBusinessTone } from "@/hooks/use-businesses";
+import { diffWords } from "@/lib/text-diff";
+import type { BusinessTone, BusinessToneVersion } from "@/lib/services/business-service";
+
+interface BusinessToneHistoryProps {
+  businessId: number;
+  tone: BusinessTone;
+}
+
+const TextDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <pre className="whitespace-pre-wrap break-words rounded-lg bg-muted/50 p-3 text-sm font-sans">
+    {diffWords(before, after).map((part, index) =>
+      part.type === "added" ? (
+        <ins key={index} className="bg-green-500/20 text-green-800 no-underline">
+          {part.text}
+        </ins>
+      ) : part.type === "removed" ? (
+        <del key={index} className="bg-destructive/15 text-destructive">
+          {part.text}
+        </del>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </pre>
+);
+
+// Versions of a tone's instructions, newest first, with a diff against the current text
+export const BusinessToneHistory: React.FC<BusinessToneHistoryProps> = ({ businessId, tone }) => {
+  const { data: versions = [], isLoading, error } = useBusinessToneVersions(businessId, tone.id);
+  const rollback = useRollbackBusinessTone();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<"current" | "previous">("current");
+  const [versionToRestore, setVersionToRestore] = useState<BusinessToneVersion | null>(null);
+
+  const sorted = [...versions].sort((a, b) => b.version - a.version);
+  const selectedIndex = Math.max(
+    sorted.findIndex((version) => version.id === selectedId),
+    0
+  );
+  const selected = sorted[selectedIndex];
+  const previous = sorted[selectedIndex + 1];
+  const isCurrent = selected?.version === tone.version;
+
+  const confirmRestore = async () => {
+    if (!versionToRestore) return;
+    try {
+      await rollback.mutateAsync({ businessId, toneId: tone.id, versionId: versionToRestore.id });
+      setSelectedId(null);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+    setVersionToRestore(null);
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading history...</div>;
+  }
+
+  if (error) {
+    return <div className="text-destructive py-8 text-center">Error loading history: {error.message}</div>;
+  }
+
+  if (!selected) {
+    return <div className="text-muted-foreground py-8 text-center">No versions recorded yet</div>;
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+      <ul className="space-y-1">
+        {sorted.map((version) => (
+          <li key={version.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(version.id)}
+              className={`w-full rounded-md px-3 py-2 text-left text-sm transition-colors hover:bg-accent ${
+                version.id === selected.id ? "bg-accent" : ""
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Version {version.version}</span>
+                {version.version === tone.version && <Badge variant="secondary">Current</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {format(new Date(version.created_at), "PP p")}
+                {version.created_by && ` · ${version.created_by}`}
+              </p>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex gap-1">
+            <Button
+              size="sm"
+              variant={compareTo === "current" ? "default" : "outline"}
+              onClick={() => setCompareTo("current")}
+            >
+              Compare with current
+            </Button>
+            <Button
+              size="sm"
+              variant={compareTo === "previous" ? "default" : "outline"}
+              onClick={() => setCompareTo("previous")}
+              disabled={!previous}
+            >
+              Changes in this version
+            </Button>
+          </div>
+          {!isCurrent && (
+            <Button size="sm" variant="outline" onClick={() => setVersionToRestore(selected)}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Restore
+            </Button>
+          )}
+        </div>
+
+        {compareTo === "previous" && previous ? (
+          <TextDiff before={previous.tone_instructions} after={selected.tone_instructions} />
+        ) : (
+          // Reads as "what restoring this version would change"
+          <TextDiff before={tone.tone_instructions} after={selected.tone_instructions} />
+        )}
+        <p className="text-xs text-muted-foreground">
+          <ins className="bg-green-500/20 text-green-800 no-underline px-1">Added</ins>{" "}
+          <del className="bg-destructive/15 text-destructive px-1">Removed</del>
+        </p>
+      </div>
+
+      <AlertDialog open={!!versionToRestore} onOpenChange={() => setVersionToRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Version {versionToRestore?.version}</AlertDialogTitle>
+            <AlertDialogDescription>
+              The instructions of version {versionToRestore?.version} are saved as a new version of "{tone.name}". The
+              current instructions stay in the history.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmRestore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { CalendarClock, CheckCircle, Edit, History, Palette, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useActivateBusinessTone, useBusinessTones, useDeleteBusinessTone } from "@/hooks/use-businesses";
+import { describeScheduleRule, getEffectiveTone } from "@/lib/tones";
+import type { BusinessTone } from "@/lib/services/business-service";
+
+interface BusinessToneListProps {
+  businessId: number;
+  onCreate: () => void;
+  onEdit: (tone: BusinessTone) => void;
+  onHistory: (tone: BusinessTone) => void;
+}
+
+export const BusinessToneList: React.FC<BusinessToneListProps> = ({ businessId, onCreate, onEdit, onHistory }) => {
+  const { data: tones = [], isLoading, error } = useBusinessTones(businessId);
+  const activateTone = useActivateBusinessTone();
+  const deleteTone = useDeleteBusinessTone();
+  const [toneToDelete, setToneToDelete] = useState<BusinessTone | null>(null);
+
+  const effectiveTone = getEffectiveTone(tones);
+
+  const confirmDelete = async () => {
+    if (!toneToDelete) return;
+    try {
+      await deleteTone.mutateAsync({ businessId, toneId: toneToDelete.id });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+    setToneToDelete(null);
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading tones...</div>;
+  }
+
+  if (error) {
+    return <div className="text-destructive py-8 text-center">Error loading tones: {error.message}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={onCreate} className="bg-primary text-primary-foreground">
+          <Plus className="h-4 w-4 mr-2" />
+          New Tone
+        </Button>
+      </div>
+
+      {tones.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Palette className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>No tones yet. The assistant uses its default style until you add one.</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {tones.map((tone) => (
+            <div key={tone.id} className="flex items-start justify-between gap-4 p-4">
+              <div className="min-w-0 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{tone.name}</span>
+                  {tone.is_active && <Badge>Active</Badge>}
+                  {effectiveTone?.id === tone.id && (
+                    <Badge variant="outline" className="bg-green-500/10 text-green-700 border-green-500/20">
+                      In use now
+                    </Badge>
+                  )}
+                  <span className="text-xs text-muted-foreground">v{tone.version}</span>
+                </div>
+                {tone.description && <p className="text-sm text-muted-foreground">{tone.description}</p>}
+                {tone.schedule_rules?.map((rule, index) => (
+                  <p key={index} className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <CalendarClock className="h-3 w-3" />
+                    {describeScheduleRule(rule)}
+                  </p>
+                ))}
+              </div>
+              <div className="flex shrink-0 gap-2">
+                {!tone.is_active && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => activateTone.mutate({ businessId, toneId: tone.id })}
+                    disabled={activateTone.isPending}
+                  >
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Set Active
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => onEdit(tone)}>
+                  <Edit className="h-3 w-3 mr-1" />
+                  Edit
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onHistory(tone)}>
+                  <History className="h-3 w-3 mr-1" />
+                  History
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => setToneToDelete(tone)}
+                  disabled={tone.is_active}
+                  title={tone.is_active ? "Activate another tone before deleting this one" : undefined}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!toneToDelete} onOpenChange={() => setToneToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Tone</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{toneToDelete?.name}" and its version history? This action cannot be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
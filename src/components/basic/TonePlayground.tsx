@@ -0,0 +1,206 @@
+import React, { useState } from "react";
+import { Bot, Loader2, RotateCcw, Send, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useTonePreview } from "@/hooks/use-businesses";
+import type { TonePreviewMessage } from "@/lib/services/business-service";
+import type { TonePreviewer } from "@/lib/tones";
+
+type Side = "draft" | "current";
+
+interface PreviewReply {
+  pending: boolean;
+  reply?: string;
+  error?: string;
+}
+
+interface Sample {
+  id: number;
+  message: string;
+  draft: PreviewReply;
+  current: PreviewReply;
+}
+
+interface TonePlaygroundProps {
+  businessId: number;
+  draftInstructions: string;
+  // null compares against the bot's default style
+  currentInstructions: string | null;
+  currentLabel: string;
+  previewer?: TonePreviewer;
+}
+
+// Earlier turns of one column, so follow-up messages are answered in context
+const buildHistory = (samples: Sample[], side: Side): TonePreviewMessage[] =>
+  samples.flatMap((sample) => {
+    const reply = sample[side].reply;
+    return reply
+      ? [
+          { role: "customer" as const, content: sample.message },
+          { role: "assistant" as const, content: reply },
+        ]
+      : [{ role: "customer" as const, content: sample.message }];
+  });
+
+let nextSampleId = 1;
+
+export const TonePlayground: React.FC<TonePlaygroundProps> = ({
+  businessId,
+  draftInstructions,
+  currentInstructions,
+  currentLabel,
+  previewer,
+}) => {
+  const preview = useTonePreview({ previewer });
+  const [samples, setSamples] = useState<Sample[]>([]);
+  const [message, setMessage] = useState("");
+
+  const isRunning = samples.some((sample) => sample.draft.pending || sample.current.pending);
+
+  const updateSample = (id: number, side: Side, reply: PreviewReply) =>
+    setSamples((prev) => prev.map((sample) => (sample.id === id ? { ...sample, [side]: reply } : sample)));
+
+  const runSide = async (sample: Sample, side: Side, history: TonePreviewMessage[]) => {
+    try {
+      const result = await preview.mutateAsync({
+        businessId,
+        request: {
+          tone_instructions: side === "draft" ? draftInstructions : currentInstructions,
+          messages: [...history, { role: "customer", content: sample.message }],
+        },
+      });
+      updateSample(sample.id, side, { pending: false, reply: result.reply });
+      return result.reply;
+    } catch (error) {
+      updateSample(sample.id, side, {
+        pending: false,
+        error: error instanceof Error ? error.message : "Failed to preview reply",
+      });
+      return undefined;
+    }
+  };
+
+  const runSample = (sample: Sample, previous: Sample[]) =>
+    Promise.all([
+      runSide(sample, "draft", buildHistory(previous, "draft")),
+      runSide(sample, "current", buildHistory(previous, "current")),
+    ]);
+
+  const handleSend = async () => {
+    const text = message.trim();
+    if (!text || isRunning) return;
+
+    const sample: Sample = {
+      id: nextSampleId++,
+      message: text,
+      draft: { pending: true },
+      current: { pending: true },
+    };
+    const previous = samples;
+    setSamples([...previous, sample]);
+    setMessage("");
+    await runSample(sample, previous);
+  };
+
+  // Re-run every sample against the latest draft, one after another so each sees the new replies
+  const handleReplay = async () => {
+    const pending = samples.map((sample) => ({
+      ...sample,
+      draft: { pending: true },
+      current: { pending: true },
+    }));
+    setSamples(pending);
+
+    const answered: Sample[] = [];
+    for (const sample of pending) {
+      const [draft, current] = await runSample(sample, answered);
+      answered.push({
+        ...sample,
+        draft: { pending: false, reply: draft },
+        current: { pending: false, reply: current },
+      });
+    }
+  };
+
+  const renderColumn = (side: Side, title: string) => (
+    <div className="flex min-w-0 flex-col rounded-lg border">
+      <div className="border-b px-3 py-2 text-sm font-medium">{title}</div>
+      <div className="flex-1 space-y-3 p-3 min-h-[160px] max-h-[400px] overflow-y-auto">
+        {samples.length === 0 ? (
+          <p className="text-center text-xs text-muted-foreground py-8">Replies appear here</p>
+        ) : (
+          samples.map((sample) => {
+            const reply = sample[side];
+            return (
+              <div key={sample.id} className="space-y-2">
+                <div className="ml-auto max-w-[85%] w-fit rounded-lg bg-muted px-3 py-2 text-sm">
+                  {sample.message}
+                </div>
+                <div className="flex max-w-[85%] items-start gap-2">
+                  <Bot className="h-4 w-4 mt-2 shrink-0 text-muted-foreground" />
+                  {reply.pending ? (
+                    <Loader2 className="h-4 w-4 mt-2 animate-spin text-muted-foreground" />
+                  ) : reply.error ? (
+                    <p className="py-2 text-sm text-destructive">{reply.error}</p>
+                  ) : (
+                    <div className="rounded-lg bg-primary/10 px-3 py-2 text-sm whitespace-pre-wrap">
+                      {reply.reply}
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid gap-3 md:grid-cols-2">
+        {renderColumn("draft", "Draft")}
+        {renderColumn("current", currentLabel)}
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder="Type a sample customer message..."
+          disabled={!draftInstructions.trim()}
+        />
+        <Button type="button" onClick={handleSend} disabled={!message.trim() || !draftInstructions.trim() || isRunning}>
+          <Send className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleReplay}
+          disabled={!samples.length || isRunning}
+          title="Run all sample messages again with the latest draft"
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setSamples([])}
+          disabled={!samples.length || isRunning}
+          title="Clear the playground"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      {!draftInstructions.trim() && (
+        <p className="text-xs text-muted-foreground">Write some tone instructions to try them out.</p>
+      )}
+    </div>
+  );
+};
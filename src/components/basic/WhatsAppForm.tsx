@@ -1,167 +1,419 @@
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { AlertCircle, CheckCircle, Copy, Loader2, RefreshCw, TestTube } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { useWhatsAppConfig, useCreateWhatsAppConfig, useUpdateWhatsAppConfig } from "@/hooks/use-businesses";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  useCreateWhatsAppNumber,
+  useUpdateWhatsAppNumber,
+  useTestWhatsAppConfig,
+  useWhatsAppWebhookStatus,
+} from "@/hooks/use-businesses";
+import { generateVerifyToken, getWhatsAppCallbackUrl } from "@/lib/whatsapp";
+import type { WhatsAppNumber, WhatsAppTestResult } from "@/lib/services/business-service";
 
 const whatsappConfigSchema = z.object({
+  label: z.string().min(1, "Label is required").max(50, "Label cannot exceed 50 characters"),
   phone_number_id: z.string().min(1, "Phone number ID is required"),
   access_token: z.string().min(1, "Access token is required"),
-  verify_token: z.string().optional(),
-  webhook_url: z.string().url("Must be a valid URL").optional().or(z.literal("")),
+  verify_token: z.string().min(16, "Verify token must be at least 16 characters"),
+  tone_instructions: z.string().max(2000, "Tone instructions cannot exceed 2000 characters").optional(),
 });
 
 type WhatsAppFormData = z.infer<typeof whatsappConfigSchema>;
 
+type WizardStep = "credentials" | "webhook" | "verify";
+
+const WIZARD_STEPS: Array<{ id: WizardStep; label: string }> = [
+  { id: "credentials", label: "Number" },
+  { id: "webhook", label: "Webhook" },
+  { id: "verify", label: "Verify delivery" },
+];
+
+const WEBHOOK_POLL_INTERVAL = 5000;
+
 interface WhatsAppFormProps {
   businessId: number;
+  // Number to edit; a new number is added when omitted
+  number?: WhatsAppNumber | null;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
-export const WhatsAppForm: React.FC<WhatsAppFormProps> = ({ businessId, onSuccess, onCancel }) => {
-  const { data: existingConfig } = useWhatsAppConfig(businessId);
-  const createConfig = useCreateWhatsAppConfig();
-  const updateConfig = useUpdateWhatsAppConfig();
+const copyToClipboard = async (value: string, label: string) => {
+  try {
+    await navigator.clipboard.writeText(value);
+    toast.success(`${label} copied to clipboard`);
+  } catch {
+    toast.error(`Could not copy ${label.toLowerCase()}`);
+  }
+};
+
+// Guided WhatsApp setup: test the credentials, configure the webhook in Meta, then confirm events arrive
+export const WhatsAppForm: React.FC<WhatsAppFormProps> = ({ businessId, number, onSuccess, onCancel }) => {
+  const createNumber = useCreateWhatsAppNumber();
+  const updateNumber = useUpdateWhatsAppNumber();
+  const testConfig = useTestWhatsAppConfig();
+
+  const [step, setStep] = useState<WizardStep>("credentials");
+  const [testResult, setTestResult] = useState<WhatsAppTestResult | null>(null);
+  // Number added by this wizard, so going back and saving again updates it instead of adding a duplicate
+  const [createdNumber, setCreatedNumber] = useState<WhatsAppNumber | null>(null);
+  const savedNumber = number || createdNumber;
+  const callbackUrl = getWhatsAppCallbackUrl();
+
+  const { data: webhookStatus, isFetching: webhookFetching, refetch: refetchWebhookStatus } = useWhatsAppWebhookStatus(
+    businessId,
+    { enabled: step === "verify", refetchInterval: WEBHOOK_POLL_INTERVAL }
+  );
+
+  const isEditing = !!savedNumber;
 
   const form = useForm<WhatsAppFormData>({
     resolver: zodResolver(whatsappConfigSchema),
     defaultValues: {
+      label: "",
       phone_number_id: "",
       access_token: "",
-      verify_token: "",
-      webhook_url: "",
+      verify_token: generateVerifyToken(),
+      tone_instructions: "",
     },
   });
 
   useEffect(() => {
-    if (isEditing) {
+    if (number) {
       form.reset({
-        phone_number_id: existingConfig.phone_number_id,
-        access_token: existingConfig.access_token,
-        verify_token: existingConfig.verify_token || "",
-        webhook_url: existingConfig.webhook_url || "",
+        label: number.label,
+        phone_number_id: number.phone_number_id,
+        access_token: number.access_token,
+        verify_token: number.verify_token || generateVerifyToken(),
+        tone_instructions: number.tone_instructions || "",
       });
     }
-  }, [existingConfig, form]);
+  }, [number, form]);
+
+  const phoneNumberId = form.watch("phone_number_id");
+  const accessToken = form.watch("access_token");
+
+  // A test only counts for the credentials it was run with
+  useEffect(() => {
+    setTestResult(null);
+  }, [phoneNumberId, accessToken]);
+
+  const credentialsUnchanged =
+    !!savedNumber && phoneNumberId === savedNumber.phone_number_id && accessToken === savedNumber.access_token;
+  const canContinue = !!testResult?.valid || credentialsUnchanged;
+
+  const handleTest = async () => {
+    const valid = await form.trigger(["phone_number_id", "access_token"]);
+    if (!valid) return;
+
+    try {
+      const result = await testConfig.mutateAsync({
+        businessId,
+        data: { phone_number_id: phoneNumberId, access_token: accessToken },
+      });
+      setTestResult(result);
+    } catch (error) {
+      setTestResult({ valid: false, error: error.message });
+    }
+  };
+
+  const handleContinue = async () => {
+    if (await form.trigger(["label", "phone_number_id", "access_token", "tone_instructions"])) {
+      setStep("webhook");
+    }
+  };
 
   const onSubmit = async (data: WhatsAppFormData) => {
+    const payload = {
+      label: data.label,
+      phone_number_id: data.phone_number_id,
+      access_token: data.access_token,
+      verify_token: data.verify_token,
+      webhook_url: callbackUrl,
+      tone_instructions: data.tone_instructions || null,
+    };
+
     try {
-      if (isEditing) {
-        await updateConfig.mutateAsync({
-          businessId,
-          data: {
-            phone_number_id: data.phone_number_id,
-            access_token: data.access_token,
-            verify_token: data.verify_token || undefined,
-            webhook_url: data.webhook_url || undefined,
-          },
-        });
+      if (savedNumber) {
+        const updated = await updateNumber.mutateAsync({ businessId, numberId: savedNumber.id, data: payload });
+        if (!number) setCreatedNumber(updated || { ...savedNumber, ...payload });
       } else {
-        await createConfig.mutateAsync({
-          businessId,
-          data: {
-            phone_number_id: data.phone_number_id,
-            access_token: data.access_token,
-            verify_token: data.verify_token || undefined,
-            webhook_url: data.webhook_url || undefined,
-          },
-        });
+        setCreatedNumber(await createNumber.mutateAsync({ businessId, data: { ...payload, status: "active" } }));
       }
-      onSuccess();
+      setStep("verify");
     } catch (error) {
       // Error handling is done in the mutation hooks
     }
   };
 
-  const isLoading = createConfig.isPending || updateConfig.isPending;
-  // Fix: Check for actual config data, not just truthiness of empty object
-  const isEditing = existingConfig && (existingConfig.id || existingConfig.access_token);
-
-  // Debug logging
-  console.log("WhatsApp Config Debug:", {
-    existingConfig,
-    isEditing,
-    hasId: existingConfig?.id,
-    hasAccessToken: existingConfig?.access_token,
-    configKeys: existingConfig ? Object.keys(existingConfig) : "null",
-  });
+  const isSaving = createNumber.isPending || updateNumber.isPending;
+  const stepIndex = WIZARD_STEPS.findIndex((s) => s.id === step);
+  const lastEvent = webhookStatus?.last_event;
 
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-        <FormField
-          control={form.control}
-          name="phone_number_id"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Phone Number ID *</FormLabel>
-              <FormControl>
-                <Input placeholder="Enter WhatsApp phone number ID" autoComplete="username" {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        <FormField
-          control={form.control}
-          name="access_token"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Access Token *</FormLabel>
-              <FormControl>
-                <Input
-                  type="password"
-                  placeholder="Enter WhatsApp access token"
-                  autoComplete="current-password"
-                  {...field}
-                />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        <FormField
-          control={form.control}
-          name="verify_token"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Verify Token</FormLabel>
-              <FormControl>
-                <Input placeholder="Enter webhook verify token (optional)" {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        <FormField
-          control={form.control}
-          name="webhook_url"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Webhook URL</FormLabel>
-              <FormControl>
-                <Input type="url" placeholder="https://yourdomain.com/webhook" {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
-
-        <div className="flex justify-end space-x-2">
-          <Button type="button" variant="outline" onClick={onCancel}>
-            Cancel
-          </Button>
-          <Button type="submit" disabled={isLoading}>
-            {isLoading ? "Saving..." : isEditing ? "Update" : "Create"}
-          </Button>
-        </div>
+        {/* Step indicator */}
+        <ol className="flex items-center gap-2 text-sm">
+          {WIZARD_STEPS.map((wizardStep, index) => (
+            <li key={wizardStep.id} className="flex items-center gap-2">
+              <span
+                className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-semibold ${
+                  index <= stepIndex ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+                }`}
+              >
+                {index < stepIndex ? <CheckCircle className="w-3 h-3" /> : index + 1}
+              </span>
+              <span className={index === stepIndex ? "font-medium" : "text-muted-foreground"}>
+                {wizardStep.label}
+              </span>
+              {index < WIZARD_STEPS.length - 1 && <span className="w-8 h-px bg-border" />}
+            </li>
+          ))}
+        </ol>
+
+        {step === "credentials" && (
+          <>
+            <FormField
+              control={form.control}
+              name="label"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Label *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Sales, Support" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="phone_number_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone Number ID *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Enter WhatsApp phone number ID" autoComplete="username" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="access_token"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Access Token *</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      placeholder="Enter WhatsApp access token"
+                      autoComplete="current-password"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tone_instructions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tone Override (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Leave empty to use the business tone"
+                      className="min-h-[80px]"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>Replaces the business tone for conversations on this number.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {testResult &&
+              (testResult.valid ? (
+                <Alert className="border-green-500/50 bg-green-500/10">
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                  <AlertDescription className="text-green-700">
+                    Connected to {testResult.verified_name || "WhatsApp Business"}
+                    {testResult.display_phone_number && ` (${testResult.display_phone_number})`}
+                    {testResult.quality_rating && ` · quality ${testResult.quality_rating}`}
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{testResult.error || "The access token was rejected"}</AlertDescription>
+                </Alert>
+              ))}
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={onCancel}>
+                Cancel
+              </Button>
+              <Button type="button" variant="outline" onClick={handleTest} disabled={testConfig.isPending}>
+                {testConfig.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <TestTube className="h-4 w-4 mr-2" />
+                )}
+                Test Connection
+              </Button>
+              <Button type="button" onClick={handleContinue} disabled={!canContinue}>
+                Next
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === "webhook" && (
+          <>
+            <div className="space-y-2">
+              <FormLabel>Callback URL</FormLabel>
+              <div className="flex gap-2">
+                <Input value={callbackUrl} readOnly className="font-mono text-sm" />
+                <Button type="button" variant="outline" onClick={() => copyToClipboard(callbackUrl, "Callback URL")}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="verify_token"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Verify Token *</FormLabel>
+                  <div className="flex gap-2">
+                    <FormControl>
+                      <Input className="font-mono text-sm" {...field} />
+                    </FormControl>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => copyToClipboard(field.value, "Verify token")}
+                      disabled={!field.value}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => form.setValue("verify_token", generateVerifyToken(), { shouldValidate: true })}
+                    >
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      Generate
+                    </Button>
+                  </div>
+                  <FormDescription>
+                    In the Meta App Dashboard open WhatsApp → Configuration, paste the callback URL and this verify
+                    token, then subscribe to the "messages" webhook field. Save here first so the verification succeeds.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setStep("credentials")}>
+                Back
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : isEditing ? "Update & Continue" : "Save & Continue"}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {step === "verify" && (
+          <>
+            <div className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Webhook verification</span>
+                {webhookStatus?.verified ? (
+                  <Badge className="bg-green-600 hover:bg-green-600">
+                    <CheckCircle className="h-3 w-3 mr-1" />
+                    Verified
+                  </Badge>
+                ) : (
+                  <Badge variant="secondary">Waiting for Meta</Badge>
+                )}
+              </div>
+              {webhookStatus?.verified_at && (
+                <p className="text-sm text-muted-foreground">
+                  Verified {formatDistanceToNow(new Date(webhookStatus.verified_at), { addSuffix: true })}
+                </p>
+              )}
+            </div>
+
+            <div className="rounded-lg border p-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Last webhook event</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => refetchWebhookStatus()}
+                  disabled={webhookFetching}
+                >
+                  <RefreshCw className={`h-4 w-4 ${webhookFetching ? "animate-spin" : ""}`} />
+                </Button>
+              </div>
+              {lastEvent ? (
+                <div className="text-sm space-y-1">
+                  <p>
+                    <Badge variant="outline" className="mr-2">
+                      {lastEvent.type}
+                    </Badge>
+                    {lastEvent.from && <span className="text-muted-foreground">from {lastEvent.from}</span>}
+                  </p>
+                  {lastEvent.phone_number_id && lastEvent.phone_number_id !== phoneNumberId && (
+                    <p className="text-xs text-muted-foreground">
+                      Received on another number of this business ({lastEvent.phone_number_id})
+                    </p>
+                  )}
+                  {lastEvent.summary && <p className="text-muted-foreground">{lastEvent.summary}</p>}
+                  <p className="text-xs text-muted-foreground">
+                    Received {formatDistanceToNow(new Date(lastEvent.received_at), { addSuffix: true })}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No events received yet. Send a WhatsApp message to this number to confirm Meta is delivering.
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setStep("webhook")}>
+                Back
+              </Button>
+              <Button type="button" onClick={onSuccess}>
+                Done
+              </Button>
+            </div>
+          </>
+        )}
       </form>
     </Form>
   );
@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import { Edit, MessageSquare, Pause, Play, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useDeleteWhatsAppNumber, useUpdateWhatsAppNumber, useWhatsAppNumbers } from "@/hooks/use-businesses";
+import type { WhatsAppNumber } from "@/lib/services/business-service";
+
+interface WhatsAppNumberListProps {
+  businessId: number;
+  onAdd: () => void;
+  onEdit: (number: WhatsAppNumber) => void;
+}
+
+export const WhatsAppNumberList: React.FC<WhatsAppNumberListProps> = ({ businessId, onAdd, onEdit }) => {
+  const { data: numbers = [], isLoading, error } = useWhatsAppNumbers(businessId);
+  const updateNumber = useUpdateWhatsAppNumber();
+  const deleteNumber = useDeleteWhatsAppNumber();
+  const [numberToDelete, setNumberToDelete] = useState<WhatsAppNumber | null>(null);
+
+  const toggleStatus = (number: WhatsAppNumber) => {
+    updateNumber.mutate({
+      businessId,
+      numberId: number.id,
+      data: { status: number.status === "active" ? "inactive" : "active" },
+    });
+  };
+
+  const confirmDelete = async () => {
+    if (!numberToDelete) return;
+    try {
+      await deleteNumber.mutateAsync({ businessId, numberId: numberToDelete.id });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+    setNumberToDelete(null);
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading WhatsApp numbers...</div>;
+  }
+
+  if (error) {
+    return <div className="text-destructive py-8 text-center">Error loading WhatsApp numbers: {error.message}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={onAdd} className="bg-primary text-primary-foreground">
+          <Plus className="h-4 w-4 mr-2" />
+          Add Number
+        </Button>
+      </div>
+
+      {numbers.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>No WhatsApp numbers connected yet</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {numbers.map((number) => {
+            const isActive = number.status === "active";
+
+            return (
+              <div key={number.id} className="flex items-center justify-between gap-4 p-4">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{number.label}</span>
+                    <Badge variant={isActive ? "default" : "secondary"}>{isActive ? "Active" : "Inactive"}</Badge>
+                    {number.tone_instructions && <Badge variant="outline">Custom tone</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {number.display_phone_number && <span>{number.display_phone_number} · </span>}
+                    ID {number.phone_number_id}
+                  </p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button size="sm" variant="outline" onClick={() => onEdit(number)}>
+                    <Edit className="h-3 w-3 mr-1" />
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => toggleStatus(number)}
+                    disabled={updateNumber.isPending}
+                  >
+                    {isActive ? (
+                      <>
+                        <Pause className="h-3 w-3 mr-1" />
+                        Deactivate
+                      </>
+                    ) : (
+                      <>
+                        <Play className="h-3 w-3 mr-1" />
+                        Activate
+                      </>
+                    )}
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => setNumberToDelete(number)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <AlertDialog open={!!numberToDelete} onOpenChange={() => setNumberToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove WhatsApp Number</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to remove "{numberToDelete?.label}"? Messages to this number will no longer be
+              answered.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
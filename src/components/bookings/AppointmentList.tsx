@@ -0,0 +1,146 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { CalendarDays, ExternalLink, MessageSquare } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAppointments } from "@/hooks/use-bookings";
+import { formatAppointmentDay, formatAppointmentTime, getAppointmentDayKey, getBrowserTimeZone } from "@/lib/bookings";
+import type { Appointment } from "@/lib/services/booking-service";
+
+const RANGE_OPTIONS = [
+  { value: "7", label: "Next 7 days" },
+  { value: "30", label: "Next 30 days" },
+  { value: "90", label: "Next 90 days" },
+];
+
+// Appointments grouped by the day they start on in the time zone, keeping the list order
+const groupByDay = (appointments: Appointment[], timeZone?: string) =>
+  appointments.reduce<{ key: string; appointments: Appointment[] }[]>((groups, appointment) => {
+    const key = getAppointmentDayKey(appointment.start, timeZone);
+    const last = groups[groups.length - 1];
+    if (last && last.key === key) {
+      last.appointments.push(appointment);
+    } else {
+      groups.push({ key, appointments: [appointment] });
+    }
+    return groups;
+  }, []);
+
+interface AppointmentListProps {
+  businessId: number;
+  basePath: string;
+  // Time zone of the booking calendar; the browser's zone when unknown
+  timeZone?: string;
+}
+
+// Upcoming appointments the bot booked, each linked to the conversation it came from
+export const AppointmentList: React.FC<AppointmentListProps> = ({ businessId, basePath, timeZone }) => {
+  const [days, setDays] = useState("30");
+  const [includeCancelled, setIncludeCancelled] = useState(false);
+  const {
+    data: appointments = [],
+    isLoading,
+    error,
+  } = useAppointments(businessId, { days: Number(days), include_cancelled: includeCancelled });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="mr-auto text-xs text-muted-foreground">Times in {timeZone || getBrowserTimeZone()}</span>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="appointments-cancelled"
+            checked={includeCancelled}
+            onCheckedChange={(checked) => setIncludeCancelled(checked === true)}
+          />
+          <Label htmlFor="appointments-cancelled" className="font-normal">
+            Show cancelled
+          </Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-muted-foreground py-8 text-center">Loading appointments...</div>
+      ) : error ? (
+        <div className="text-destructive py-8 text-center">Error loading appointments: {error.message}</div>
+      ) : appointments.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <CalendarDays className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>No upcoming appointments</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groupByDay(appointments, timeZone).map(({ key, appointments: dayAppointments }) => (
+            <div key={key} className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">
+                {formatAppointmentDay(dayAppointments[0].start, timeZone)}
+              </h3>
+              <div className="divide-y rounded-lg border">
+                {dayAppointments.map((appointment) => (
+                  <div key={appointment.id} className="flex items-center justify-between gap-4 p-3">
+                    <div className="flex items-start gap-4 min-w-0">
+                      <span className="w-28 shrink-0 text-sm font-medium tabular-nums">
+                        {formatAppointmentTime(appointment.start, timeZone)} –{" "}
+                        {formatAppointmentTime(appointment.end, timeZone)}
+                      </span>
+                      <div className="min-w-0">
+                        <p
+                          className={`text-sm font-medium ${
+                            appointment.status === "cancelled" ? "line-through text-muted-foreground" : ""
+                          }`}
+                        >
+                          {appointment.contact_name || appointment.phone_number}
+                          {appointment.status === "cancelled" && (
+                            <Badge variant="outline" className="ml-2 no-underline">
+                              Cancelled
+                            </Badge>
+                          )}
+                        </p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {appointment.summary}
+                          {appointment.contact_name && ` · ${appointment.phone_number}`}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      {appointment.conversation_id && (
+                        <Button size="sm" variant="outline" asChild>
+                          <Link to={`${basePath}/conversations/${appointment.conversation_id}`}>
+                            <MessageSquare className="h-3 w-3 mr-1" />
+                            Conversation
+                          </Link>
+                        </Button>
+                      )}
+                      {appointment.html_link && (
+                        <Button size="sm" variant="ghost" asChild>
+                          <a href={appointment.html_link} target="_blank" rel="noopener noreferrer">
+                            <ExternalLink className="h-3 w-3" />
+                          </a>
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,413 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { AlertCircle, CalendarX, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useGoogleCalendars, useUpdateBookingSettings } from "@/hooks/use-bookings";
+import {
+  CONFIRMATION_PLACEHOLDERS,
+  DEFAULT_BOOKING_SETTINGS,
+  countDailySlots,
+  isValidTimeRange,
+  renderConfirmationMessage,
+} from "@/lib/bookings";
+import type { BookingSettings, BookingWorkingHours } from "@/lib/services/booking-service";
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+// Monday first, as most businesses read their week
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const minutes = (label: string, max: number) =>
+  z.coerce.number().int("Use whole minutes").min(0, `${label} cannot be negative`).max(max, `At most ${max} minutes`);
+
+const bookingSettingsSchema = z
+  .object({
+    enabled: z.boolean(),
+    calendar_id: z.string(),
+    working_hours: z.array(
+      z.object({
+        day: z.number(),
+        enabled: z.boolean(),
+        start: z.string(),
+        end: z.string(),
+      })
+    ),
+    slot_minutes: z.coerce.number().int("Use whole minutes").min(5, "Slots are at least 5 minutes").max(480),
+    buffer_before_minutes: minutes("Buffer", 240),
+    buffer_after_minutes: minutes("Buffer", 240),
+    max_days_ahead: z.coerce.number().int("Use whole days").min(1, "Allow at least one day").max(365),
+    blackout_dates: z.array(z.string()),
+    confirmation_template: z
+      .string()
+      .min(1, "Confirmation message is required")
+      .max(1000, "Confirmation message cannot exceed 1000 characters"),
+  })
+  .superRefine((data, ctx) => {
+    if (data.enabled && !data.calendar_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["calendar_id"], message: "Select the calendar to book in" });
+    }
+    data.working_hours.forEach((hours, index) => {
+      if (hours.enabled && !isValidTimeRange(hours.start, hours.end)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["working_hours", index, "end"],
+          message: "End must be after start",
+        });
+      }
+    });
+    if (data.enabled && !data.working_hours.some((hours) => hours.enabled)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["working_hours"], message: "Open at least one day" });
+    }
+  });
+
+type BookingSettingsFormData = z.infer<typeof bookingSettingsSchema>;
+
+interface BookingSettingsFormProps {
+  businessId: number;
+  settings: BookingSettings | null;
+  googleIntegrationPath: string;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const BookingSettingsForm: React.FC<BookingSettingsFormProps> = ({
+  businessId,
+  settings,
+  googleIntegrationPath,
+  onSuccess,
+  onCancel,
+}) => {
+  const updateSettings = useUpdateBookingSettings();
+  const { data: calendars = [], isLoading: calendarsLoading, error: calendarsError } = useGoogleCalendars(businessId);
+  const [blackoutInput, setBlackoutInput] = useState("");
+
+  const initial = settings || { ...DEFAULT_BOOKING_SETTINGS, calendar_id: "" };
+  const form = useForm<BookingSettingsFormData>({
+    resolver: zodResolver(bookingSettingsSchema),
+    defaultValues: {
+      enabled: initial.enabled,
+      calendar_id: initial.calendar_id,
+      // Always seven rows, also for settings saved with fewer days
+      working_hours: DEFAULT_BOOKING_SETTINGS.working_hours.map(
+        (defaults) => initial.working_hours.find((hours) => hours.day === defaults.day) || { ...defaults, enabled: false }
+      ),
+      slot_minutes: initial.slot_minutes,
+      buffer_before_minutes: initial.buffer_before_minutes,
+      buffer_after_minutes: initial.buffer_after_minutes,
+      max_days_ahead: initial.max_days_ahead,
+      blackout_dates: initial.blackout_dates,
+      confirmation_template: initial.confirmation_template,
+    },
+  });
+
+  const [workingHours, slotMinutes, bufferBefore, bufferAfter, blackoutDates, confirmationTemplate] = form.watch([
+    "working_hours",
+    "slot_minutes",
+    "buffer_before_minutes",
+    "buffer_after_minutes",
+    "blackout_dates",
+    "confirmation_template",
+  ]);
+  const isSubmitting = updateSettings.isPending;
+
+  const addBlackoutDate = () => {
+    if (!blackoutInput || blackoutDates.includes(blackoutInput)) return;
+    form.setValue("blackout_dates", [...blackoutDates, blackoutInput].sort(), { shouldDirty: true });
+    setBlackoutInput("");
+  };
+
+  const removeBlackoutDate = (date: string) =>
+    form.setValue(
+      "blackout_dates",
+      blackoutDates.filter((item) => item !== date),
+      { shouldDirty: true }
+    );
+
+  const onSubmit = async (data: BookingSettingsFormData) => {
+    try {
+      await updateSettings.mutateAsync({
+        businessId,
+        data: {
+          enabled: data.enabled,
+          calendar_id: data.calendar_id,
+          working_hours: data.working_hours.map((hours) => ({
+            day: hours.day,
+            enabled: hours.enabled,
+            start: hours.start,
+            end: hours.end,
+          })),
+          slot_minutes: data.slot_minutes,
+          buffer_before_minutes: data.buffer_before_minutes,
+          buffer_after_minutes: data.buffer_after_minutes,
+          max_days_ahead: data.max_days_ahead,
+          blackout_dates: data.blackout_dates,
+          confirmation_template: data.confirmation_template,
+        },
+      });
+      onSuccess();
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        {calendarsError && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Could not load calendars: {calendarsError.message}. Make sure Google is connected with{" "}
+              <Link to={googleIntegrationPath} className="underline">
+                Calendar access
+              </Link>
+              .
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <fieldset disabled={isSubmitting} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="enabled"
+            render={({ field }) => (
+              <FormItem className="flex items-center gap-3 space-y-0">
+                <FormControl>
+                  <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                </FormControl>
+                <div>
+                  <FormLabel>Let the bot book appointments</FormLabel>
+                  <FormDescription>Customers can ask for a time slot and get it confirmed in the chat.</FormDescription>
+                </div>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="calendar_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Calendar</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={calendarsLoading}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder={calendarsLoading ? "Loading calendars..." : "Select a calendar"} />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {calendars.map((calendar) => (
+                      <SelectItem key={calendar.id} value={calendar.id}>
+                        {calendar.summary}
+                        {calendar.primary && " (primary)"} · {calendar.time_zone}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>Free/busy is read from this calendar and new bookings are added to it.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="space-y-2">
+            <span className="text-sm font-medium">Working Hours</span>
+            <div className="rounded-lg border divide-y">
+              {DAY_ORDER.map((day) => {
+                const index = workingHours.findIndex((hours) => hours.day === day);
+                const hours = workingHours[index] as BookingWorkingHours;
+                const slots = countDailySlots(hours, Number(slotMinutes), Number(bufferBefore), Number(bufferAfter));
+                return (
+                  <div key={day} className="grid grid-cols-[140px_1fr_1fr_90px] items-start gap-3 p-2">
+                    <FormField
+                      control={form.control}
+                      name={`working_hours.${index}.enabled`}
+                      render={({ field }) => (
+                        <FormItem className="flex items-center gap-2 space-y-0 pt-2">
+                          <FormControl>
+                            <Checkbox
+                              checked={field.value}
+                              onCheckedChange={(checked) => field.onChange(checked === true)}
+                            />
+                          </FormControl>
+                          <FormLabel className="font-normal">{DAY_NAMES[day]}</FormLabel>
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`working_hours.${index}.start`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="time" {...field} disabled={!hours.enabled} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`working_hours.${index}.end`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="time" {...field} disabled={!hours.enabled} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <span className="pt-2 text-xs text-muted-foreground">
+                      {hours.enabled ? `${slots} slot${slots === 1 ? "" : "s"}` : "Closed"}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+            {form.formState.errors.working_hours?.message && (
+              <p className="text-sm font-medium text-destructive">{form.formState.errors.working_hours.message}</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <FormField
+              control={form.control}
+              name="slot_minutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Slot length (min)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={5} step={5} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="buffer_before_minutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Buffer before (min)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} step={5} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="buffer_after_minutes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Buffer after (min)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} step={5} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="max_days_ahead"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Book up to (days ahead)</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <span className="text-sm font-medium">Blackout Dates</span>
+            <p className="text-xs text-muted-foreground">No appointments are offered on these days, e.g. holidays.</p>
+            <div className="flex gap-2">
+              <Input
+                type="date"
+                value={blackoutInput}
+                onChange={(e) => setBlackoutInput(e.target.value)}
+                className="w-48"
+              />
+              <Button type="button" variant="outline" onClick={addBlackoutDate} disabled={!blackoutInput}>
+                <CalendarX className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+            {blackoutDates.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {blackoutDates.map((date) => (
+                  <Badge key={date} variant="secondary" className="gap-1">
+                    {format(new Date(`${date}T00:00:00`), "EEE, PP")}
+                    <button
+                      type="button"
+                      onClick={() => removeBlackoutDate(date)}
+                      className="ml-1 rounded-full hover:bg-muted"
+                      aria-label={`Remove ${date}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <FormField
+            control={form.control}
+            name="confirmation_template"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirmation Message</FormLabel>
+                <FormControl>
+                  <Textarea rows={3} {...field} />
+                </FormControl>
+                <FormDescription>
+                  Sent after a booking. Placeholders: {CONFIRMATION_PLACEHOLDERS.join(", ")}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {confirmationTemplate && (
+            <div className="rounded-lg bg-muted/50 p-3 text-sm">
+              <span className="text-xs text-muted-foreground">Preview</span>
+              <p className="whitespace-pre-wrap">
+                {renderConfirmationMessage(confirmationTemplate, {
+                  name: "Maria",
+                  date: format(new Date(), "EEEE, MMMM d"),
+                  time: "10:30",
+                })}
+              </p>
+            </div>
+          )}
+        </fieldset>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : "Save Settings"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,525 @@
+import React, { useMemo, useRef } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { FileUp, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { TemplatePreview } from "@/components/templates/TemplatePreview";
+import { useConversationTags, useWhatsAppNumbers, useWhatsAppTemplates } from "@/hooks/use-businesses";
+import { useAudiencePreview, useCreateCampaign } from "@/hooks/use-campaigns";
+import { useDebounce } from "@/hooks/use-api";
+import { estimateSendMinutes, parsePhoneNumberCsv } from "@/lib/campaigns";
+import { countTemplateVariables } from "@/lib/whatsapp";
+import type { Campaign, CampaignAudience } from "@/lib/services/campaign-service";
+import { toast } from "sonner";
+
+const ANY = "any";
+const DEFAULT_THROTTLE = 60;
+const MAX_THROTTLE = 1000;
+
+const campaignSchema = z
+  .object({
+    name: z.string().min(1, "Name is required").max(100, "Name cannot exceed 100 characters"),
+    whatsapp_number_id: z.string(),
+    template_id: z.string().min(1, "Select a template"),
+    header_params: z.array(z.string()),
+    body_params: z.array(z.string()),
+    audience_source: z.enum(["conversations", "csv"]),
+    last_message_after: z.string(),
+    last_message_before: z.string(),
+    status: z.enum([ANY, "active", "archived"]),
+    tags: z.array(z.string()),
+    phone_numbers: z.array(z.string()),
+    schedule: z.enum(["now", "later"]),
+    scheduled_at: z.string(),
+    throttle_per_minute: z.coerce
+      .number()
+      .int("Use a whole number")
+      .min(1, "Send at least one message per minute")
+      .max(MAX_THROTTLE, `At most ${MAX_THROTTLE} messages per minute`),
+  })
+  .superRefine((data, ctx) => {
+    if (data.audience_source === "csv" && data.phone_numbers.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["phone_numbers"], message: "Upload a CSV with phone numbers" });
+    }
+    if (data.last_message_after && data.last_message_before && data.last_message_after > data.last_message_before) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["last_message_before"],
+        message: "End date must be after the start date",
+      });
+    }
+    if (data.schedule === "later" && !(new Date(data.scheduled_at).getTime() > Date.now())) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scheduled_at"], message: "Pick a time in the future" });
+    }
+  });
+
+type CampaignFormData = z.infer<typeof campaignSchema>;
+
+interface CampaignFormProps {
+  businessId: number;
+  onSuccess: (campaign: Campaign) => void;
+  onCancel: () => void;
+}
+
+export const CampaignForm: React.FC<CampaignFormProps> = ({ businessId, onSuccess, onCancel }) => {
+  const createCampaign = useCreateCampaign();
+  const { data: templates = [] } = useWhatsAppTemplates(businessId);
+  const { data: numbers = [] } = useWhatsAppNumbers(businessId);
+  const { data: tags = [] } = useConversationTags(businessId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const form = useForm<CampaignFormData>({
+    resolver: zodResolver(campaignSchema),
+    defaultValues: {
+      name: "",
+      whatsapp_number_id: "",
+      template_id: "",
+      header_params: [],
+      body_params: [],
+      audience_source: "conversations",
+      last_message_after: "",
+      last_message_before: "",
+      status: ANY,
+      tags: [],
+      phone_numbers: [],
+      schedule: "now",
+      scheduled_at: "",
+      throttle_per_minute: DEFAULT_THROTTLE,
+    },
+  });
+
+  const approvedTemplates = templates.filter((template) => template.status === "APPROVED");
+  const activeNumbers = numbers.filter((number) => number.status === "active");
+
+  const [
+    templateId,
+    headerParams,
+    bodyParams,
+    source,
+    lastMessageAfter,
+    lastMessageBefore,
+    status,
+    selectedTags,
+    phoneNumbers,
+    schedule,
+    throttle,
+  ] = form.watch([
+    "template_id",
+    "header_params",
+    "body_params",
+    "audience_source",
+    "last_message_after",
+    "last_message_before",
+    "status",
+    "tags",
+    "phone_numbers",
+    "schedule",
+    "throttle_per_minute",
+  ]);
+
+  const template = approvedTemplates.find((item) => String(item.id) === templateId);
+  const headerCount = countTemplateVariables(template?.header_text);
+  const bodyCount = countTemplateVariables(template?.body_text);
+
+  const conversationAudience = useMemo<CampaignAudience>(
+    () => ({
+      source: "conversations",
+      last_message_after: lastMessageAfter || undefined,
+      last_message_before: lastMessageBefore || undefined,
+      status: status === ANY ? undefined : status,
+      tags: selectedTags.length ? selectedTags : undefined,
+    }),
+    [lastMessageAfter, lastMessageBefore, status, selectedTags]
+  );
+  const debouncedAudience = useDebounce(conversationAudience, 400);
+  const { data: audiencePreview, isFetching: previewLoading } = useAudiencePreview(businessId, debouncedAudience, {
+    enabled: source === "conversations",
+  });
+
+  const recipientCount = source === "csv" ? phoneNumbers.length : audiencePreview?.count ?? 0;
+  // The count lags the filters by the debounce and the request, so it can't be confirmed until it caught up
+  const recipientCountPending =
+    source === "conversations" && (debouncedAudience !== conversationAudience || previewLoading);
+  const sendMinutes = estimateSendMinutes(recipientCount, Number(throttle));
+
+  const toggleTag = (tag: string) => {
+    const next = selectedTags.includes(tag) ? selectedTags.filter((item) => item !== tag) : [...selectedTags, tag];
+    form.setValue("tags", next);
+  };
+
+  const handleCsvUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const { phoneNumbers: parsed, invalid } = parsePhoneNumberCsv(await file.text());
+    form.setValue("phone_numbers", parsed, { shouldValidate: true });
+    if (invalid.length) {
+      toast.warning(`${invalid.length} rows skipped because they do not contain a valid phone number`);
+    }
+  };
+
+  const updateParam = (name: "header_params" | "body_params", index: number, value: string) => {
+    const next = [...form.getValues(name)];
+    next[index] = value;
+    form.setValue(name, next);
+  };
+
+  const onSubmit = async (data: CampaignFormData) => {
+    const header = Array.from({ length: headerCount }, (_, index) => data.header_params[index]?.trim() || "");
+    const body = Array.from({ length: bodyCount }, (_, index) => data.body_params[index]?.trim() || "");
+    if ([...header, ...body].some((value) => !value)) {
+      toast.error("Fill in every template placeholder");
+      return;
+    }
+    if (recipientCountPending) return;
+    if (!recipientCount) {
+      toast.error("The audience has no recipients");
+      return;
+    }
+
+    const audience: CampaignAudience =
+      data.audience_source === "csv" ? { source: "csv", phone_numbers: data.phone_numbers } : conversationAudience;
+
+    try {
+      const campaign = await createCampaign.mutateAsync({
+        businessId,
+        data: {
+          name: data.name,
+          template_id: Number(data.template_id),
+          whatsapp_number_id: data.whatsapp_number_id ? Number(data.whatsapp_number_id) : undefined,
+          header_params: header,
+          body_params: body,
+          audience,
+          scheduled_at: data.schedule === "later" ? new Date(data.scheduled_at).toISOString() : null,
+          throttle_per_minute: data.throttle_per_minute,
+        },
+      });
+      onSuccess(campaign);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const renderParamInputs = (name: "header_params" | "body_params", label: string, count: number, values: string[]) =>
+    Array.from({ length: count }, (_, index) => (
+      <div key={`${name}-${index}`} className="space-y-1">
+        <Label htmlFor={`${name}-${index}`} className="text-xs text-muted-foreground">
+          {label} {`{{${index + 1}}}`}
+        </Label>
+        <Input
+          id={`${name}-${index}`}
+          value={values[index] || ""}
+          onChange={(e) => updateParam(name, index, e.target.value)}
+        />
+      </div>
+    ));
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <section className="space-y-4">
+          <h3 className="font-semibold">Message</h3>
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Campaign Name *</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Spring sale announcement" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {activeNumbers.length > 1 && (
+            <FormField
+              control={form.control}
+              name="whatsapp_number_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Send From</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Default number" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {activeNumbers.map((number) => (
+                        <SelectItem key={number.id} value={String(number.id)}>
+                          {number.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          <FormField
+            control={form.control}
+            name="template_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Template *</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    form.setValue("header_params", []);
+                    form.setValue("body_params", []);
+                  }}
+                  value={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an approved template" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {approvedTemplates.map((item) => (
+                      <SelectItem key={item.id} value={String(item.id)}>
+                        {item.name} ({item.language})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {approvedTemplates.length === 0 && (
+                  <FormDescription>
+                    No approved templates yet.{" "}
+                    <Link to={`/businesses/${businessId}/templates`} className="underline">
+                      Manage templates
+                    </Link>
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {template && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-3">
+                {renderParamInputs("header_params", "Header", headerCount, headerParams)}
+                {renderParamInputs("body_params", "Body", bodyCount, bodyParams)}
+                {headerCount + bodyCount > 0 && (
+                  <p className="text-xs text-muted-foreground">Every recipient receives the same values.</p>
+                )}
+              </div>
+              <TemplatePreview
+                headerText={template.header_text}
+                bodyText={template.body_text}
+                footerText={template.footer_text}
+                buttons={template.buttons}
+                headerValues={headerParams}
+                bodyValues={bodyParams}
+              />
+            </div>
+          )}
+        </section>
+
+        <section className="space-y-4">
+          <h3 className="font-semibold">Audience</h3>
+          <FormField
+            control={form.control}
+            name="audience_source"
+            render={({ field }) => (
+              <FormItem>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="conversations">Existing conversations</SelectItem>
+                    <SelectItem value="csv">Upload phone numbers (CSV)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+
+          {source === "conversations" ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="last_message_after"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last message from</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="last_message_before"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Last message to</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="status"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any status</SelectItem>
+                          <SelectItem value="active">Active</SelectItem>
+                          <SelectItem value="archived">Archived</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+              {tags.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Tags</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {tags.map((tag) => (
+                      <Badge
+                        key={tag}
+                        variant={selectedTags.includes(tag) ? "default" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() => toggleTag(tag)}
+                      >
+                        {tag}
+                      </Badge>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">Conversations with any selected tag are included.</p>
+                </div>
+              )}
+            </div>
+          ) : (
+            <FormField
+              control={form.control}
+              name="phone_numbers"
+              render={() => (
+                <FormItem>
+                  <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvUpload} />
+                  <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+                    <FileUp className="h-4 w-4 mr-2" />
+                    {phoneNumbers.length ? "Replace CSV" : "Upload CSV"}
+                  </Button>
+                  <FormDescription>
+                    One number per row with country code, in the first column or a column named "phone".
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          <div className="flex items-center gap-2 rounded-lg bg-muted/50 px-3 py-2 text-sm">
+            <Users className="h-4 w-4 text-primary" />
+            {recipientCountPending ? (
+              <span className="text-muted-foreground">Counting recipients...</span>
+            ) : (
+              <span>
+                <span className="font-medium">{recipientCount}</span> recipients
+              </span>
+            )}
+          </div>
+        </section>
+
+        <section className="space-y-4">
+          <h3 className="font-semibold">Delivery</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="schedule"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Send</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="now">Immediately</SelectItem>
+                      <SelectItem value="later">At a scheduled time</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+            {schedule === "later" && (
+              <FormField
+                control={form.control}
+                name="scheduled_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Send at</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+          </div>
+          <FormField
+            control={form.control}
+            name="throttle_per_minute"
+            render={({ field }) => (
+              <FormItem className="max-w-xs">
+                <FormLabel>Messages per minute</FormLabel>
+                <FormControl>
+                  <Input type="number" min={1} max={MAX_THROTTLE} {...field} />
+                </FormControl>
+                <FormDescription>
+                  {sendMinutes > 0 && `Takes about ${sendMinutes} minute${sendMinutes === 1 ? "" : "s"}. `}
+                  A lower rate protects the number's quality rating.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </section>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={createCampaign.isPending || recipientCountPending}>
+            {createCampaign.isPending ? "Saving..." : schedule === "later" ? "Schedule Campaign" : "Send Campaign"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
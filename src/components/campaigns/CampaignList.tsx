@@ -0,0 +1,169 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Megaphone, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useCampaigns, useDeleteCampaign } from "@/hooks/use-campaigns";
+import type { Campaign, CampaignStatus } from "@/lib/services/campaign-service";
+
+const STATUS_STYLES: Record<CampaignStatus, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-muted text-muted-foreground" },
+  scheduled: { label: "Scheduled", className: "bg-sky-500/10 text-sky-700 border-sky-500/20" },
+  sending: { label: "Sending", className: "bg-amber-500/10 text-amber-700 border-amber-500/20" },
+  paused: { label: "Paused", className: "bg-muted text-muted-foreground" },
+  completed: { label: "Completed", className: "bg-green-500/10 text-green-700 border-green-500/20" },
+  cancelled: { label: "Cancelled", className: "bg-muted text-muted-foreground" },
+  failed: { label: "Failed", className: "bg-destructive/10 text-destructive border-destructive/20" },
+};
+
+export const CampaignStatusBadge: React.FC<{ status: CampaignStatus }> = ({ status }) => {
+  const style = STATUS_STYLES[status] || STATUS_STYLES.draft;
+  return (
+    <Badge variant="outline" className={style.className}>
+      {style.label}
+    </Badge>
+  );
+};
+
+// Share of recipients the campaign has been sent to so far
+export const CampaignProgress: React.FC<{ campaign: Campaign }> = ({ campaign }) => {
+  const { total, pending } = campaign.stats;
+  const percent = total ? Math.round(((total - pending) / total) * 100) : 0;
+
+  return (
+    <div className="space-y-1">
+      <div className="h-2 w-full rounded-full bg-muted">
+        <div className="h-2 rounded-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {total - pending} of {total} sent
+      </p>
+    </div>
+  );
+};
+
+interface CampaignListProps {
+  businessId: number;
+  basePath: string;
+  onCreate: () => void;
+}
+
+export const CampaignList: React.FC<CampaignListProps> = ({ businessId, basePath, onCreate }) => {
+  const { data: campaigns = [], isLoading, error } = useCampaigns(businessId);
+  const deleteCampaign = useDeleteCampaign();
+  const [campaignToDelete, setCampaignToDelete] = useState<Campaign | null>(null);
+
+  const confirmDelete = async () => {
+    if (!campaignToDelete) return;
+    try {
+      await deleteCampaign.mutateAsync({ businessId, campaignId: campaignToDelete.id });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+    setCampaignToDelete(null);
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading campaigns...</div>;
+  }
+
+  if (error) {
+    return <div className="text-destructive py-8 text-center">Error loading campaigns: {error.message}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={onCreate} className="bg-primary text-primary-foreground">
+          <Plus className="h-4 w-4 mr-2" />
+          New Campaign
+        </Button>
+      </div>
+
+      {campaigns.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Megaphone className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>No campaigns yet</p>
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2 font-medium">Campaign</th>
+              <th className="py-2 font-medium">Status</th>
+              <th className="py-2 font-medium">Send time</th>
+              <th className="py-2 font-medium w-48">Progress</th>
+              <th className="py-2 font-medium text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {campaigns.map((campaign) => (
+              <tr key={campaign.id} className="border-b last:border-0 align-top">
+                <td className="py-3">
+                  <Link to={`${basePath}/campaigns/${campaign.id}`} className="font-medium hover:underline">
+                    {campaign.name}
+                  </Link>
+                  {campaign.template_name && (
+                    <p className="text-xs text-muted-foreground font-mono">{campaign.template_name}</p>
+                  )}
+                </td>
+                <td className="py-3">
+                  <CampaignStatusBadge status={campaign.status} />
+                </td>
+                <td className="py-3 text-muted-foreground">
+                  {format(new Date(campaign.scheduled_at || campaign.started_at || campaign.created_at), "PP p")}
+                </td>
+                <td className="py-3">
+                  <CampaignProgress campaign={campaign} />
+                </td>
+                <td className="py-3">
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" asChild>
+                      <Link to={`${basePath}/campaigns/${campaign.id}`}>Results</Link>
+                    </Button>
+                    {campaign.status !== "sending" && (
+                      <Button size="sm" variant="destructive" onClick={() => setCampaignToDelete(campaign)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <AlertDialog open={!!campaignToDelete} onOpenChange={() => setCampaignToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Campaign</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{campaignToDelete?.name}" and its results? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
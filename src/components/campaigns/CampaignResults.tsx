@@ -0,0 +1,215 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { AlertCircle, Ban, CheckCheck, Clock, Eye, Pause, Play, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { StatCard } from "@/components/analytics/StatCard";
+import {
+  isCampaignActive,
+  useCampaign,
+  useCampaignRecipients,
+  useUpdateCampaignStatus,
+} from "@/hooks/use-campaigns";
+import { usePagination } from "@/hooks/use-api";
+import type { CampaignAction, CampaignRecipientStatus } from "@/lib/services/campaign-service";
+import { CampaignProgress, CampaignStatusBadge } from "./CampaignList";
+
+const ANY = "any";
+const RECIPIENTS_PAGE_SIZE = 25;
+
+const RECIPIENT_STATUS_LABELS: Record<CampaignRecipientStatus, string> = {
+  pending: "Pending",
+  sent: "Sent",
+  delivered: "Delivered",
+  read: "Read",
+  failed: "Failed",
+};
+
+interface CampaignResultsProps {
+  businessId: number;
+  campaignId: number;
+  basePath: string;
+}
+
+export const CampaignResults: React.FC<CampaignResultsProps> = ({ businessId, campaignId, basePath }) => {
+  const { data: campaign, isLoading, error } = useCampaign(businessId, campaignId);
+  const updateStatus = useUpdateCampaignStatus();
+  const [statusFilter, setStatusFilter] = useState<string>(ANY);
+  const { page, setPage, nextPage, previousPage } = usePagination({ initialPageSize: RECIPIENTS_PAGE_SIZE });
+
+  const isActive = isCampaignActive(campaign);
+  const { data: recipientsData, isLoading: recipientsLoading } = useCampaignRecipients(
+    businessId,
+    campaignId,
+    {
+      status: statusFilter === ANY ? undefined : (statusFilter as CampaignRecipientStatus),
+      page,
+      limit: RECIPIENTS_PAGE_SIZE,
+    },
+    { refetchInterval: isActive ? 10 * 1000 : false }
+  );
+  const recipients = recipientsData?.recipients || [];
+  const totalPages = Math.max(1, Math.ceil((recipientsData?.total || 0) / RECIPIENTS_PAGE_SIZE));
+
+  const runAction = (action: CampaignAction) => updateStatus.mutate({ businessId, campaignId, action });
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading campaign...</div>;
+  }
+
+  if (error || !campaign) {
+    return (
+      <div className="text-destructive py-8 text-center">
+        Error loading campaign: {error?.message || "Campaign not found"}
+      </div>
+    );
+  }
+
+  const { stats } = campaign;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <h2 className="text-xl font-semibold">{campaign.name}</h2>
+            <CampaignStatusBadge status={campaign.status} />
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {campaign.template_name && <span className="font-mono">{campaign.template_name} · </span>}
+            {campaign.scheduled_at
+              ? `Scheduled for ${format(new Date(campaign.scheduled_at), "PP p")}`
+              : `Created ${format(new Date(campaign.created_at), "PP p")}`}
+            {" · "}
+            {campaign.throttle_per_minute} messages per minute
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {campaign.status === "sending" && (
+            <Button variant="outline" onClick={() => runAction("pause")} disabled={updateStatus.isPending}>
+              <Pause className="h-4 w-4 mr-1" />
+              Pause
+            </Button>
+          )}
+          {campaign.status === "paused" && (
+            <Button variant="outline" onClick={() => runAction("resume")} disabled={updateStatus.isPending}>
+              <Play className="h-4 w-4 mr-1" />
+              Resume
+            </Button>
+          )}
+          {(isActive || campaign.status === "paused") && (
+            <Button variant="destructive" onClick={() => runAction("cancel")} disabled={updateStatus.isPending}>
+              <Ban className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <CampaignProgress campaign={campaign} />
+
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        <StatCard title="Recipients" value={stats.total} icon={<Users className="w-4 h-4" />} />
+        <StatCard title="Pending" value={stats.pending} icon={<Clock className="w-4 h-4" />} />
+        <StatCard
+          title="Delivered"
+          value={stats.delivered + stats.read}
+          icon={<CheckCheck className="w-4 h-4" />}
+        />
+        <StatCard title="Read" value={stats.read} icon={<Eye className="w-4 h-4" />} />
+        <StatCard title="Failed" value={stats.failed} icon={<AlertCircle className="w-4 h-4" />} />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Recipients</CardTitle>
+          <Select
+            value={statusFilter}
+            onValueChange={(value) => {
+              setStatusFilter(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>All statuses</SelectItem>
+              {Object.entries(RECIPIENT_STATUS_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {recipientsLoading ? (
+            <div className="text-muted-foreground py-8 text-center">Loading recipients...</div>
+          ) : recipients.length === 0 ? (
+            <div className="text-muted-foreground py-8 text-center">No recipients match this filter</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-muted-foreground">
+                  <th className="py-2 font-medium">Recipient</th>
+                  <th className="py-2 font-medium">Status</th>
+                  <th className="py-2 font-medium">Last update</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recipients.map((recipient) => {
+                  const updatedAt = recipient.read_at || recipient.delivered_at || recipient.sent_at;
+                  return (
+                    <tr key={recipient.id} className="border-b last:border-0 align-top">
+                      <td className="py-2">
+                        {recipient.conversation_id ? (
+                          <Link
+                            to={`${basePath}/conversations/${recipient.conversation_id}`}
+                            className="font-medium hover:underline"
+                          >
+                            {recipient.contact_name || recipient.phone_number}
+                          </Link>
+                        ) : (
+                          <span className="font-medium">{recipient.contact_name || recipient.phone_number}</span>
+                        )}
+                        {recipient.contact_name && (
+                          <p className="text-xs text-muted-foreground">{recipient.phone_number}</p>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <span className={recipient.status === "failed" ? "text-destructive" : ""}>
+                          {RECIPIENT_STATUS_LABELS[recipient.status]}
+                        </span>
+                        {recipient.error && <p className="text-xs text-destructive">{recipient.error}</p>}
+                      </td>
+                      <td className="py-2 text-muted-foreground">
+                        {updatedAt ? format(new Date(updatedAt), "PP p") : "—"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-end gap-2 pt-4 text-sm">
+              <Button size="sm" variant="outline" onClick={previousPage} disabled={page <= 1}>
+                Previous
+              </Button>
+              <span className="text-muted-foreground">
+                Page {page} of {totalPages}
+              </span>
+              <Button size="sm" variant="outline" onClick={nextPage} disabled={page >= totalPages}>
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,10 +1,51 @@
-import React, { useState } from "react";
+import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { MessageSquare, Phone, Calendar, User, Bot, Download, Play, Pause, ImageIcon, Trash2 } from "lucide-react";
-import { useConversations } from "@/hooks/use-businesses";
+import {
+  MessageSquare,
+  Phone,
+  Calendar,
+  User,
+  Bot,
+  Download,
+  Play,
+  Pause,
+  ImageIcon,
+  Trash2,
+  Check,
+  CheckCheck,
+  AlertCircle,
+  Radio,
+  Headphones,
+  Hand,
+  Loader2,
+  Search,
+  FileDown,
+  Smartphone,
+  FileText,
+  BellRing,
+  Contact,
+  TrendingUp,
+} from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  businessKeys,
+  useConversation,
+  useConversations,
+  useConversationMessages,
+  useSetConversationBotPaused,
+  useWhatsAppNumbers,
+} from "@/hooks/use-businesses";
+import { useConversationStream } from "@/hooks/use-realtime";
+import { useEscalations } from "@/hooks/use-escalations";
+import { useHubSpotStatus } from "@/hooks/use-hubspot";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDebounce } from "@/hooks/use-api";
 import { BusinessService } from "@/lib/services/business-service";
 import {
   AlertDialog,
@@ -16,13 +57,29 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import type { Conversation, Message } from "@/lib/services/business-service";
+import type { Conversation, Message, MessageSearchResult } from "@/lib/services/business-service";
+import { MessageComposer } from "./MessageComposer";
+import { MessageSearchPanel } from "./MessageSearchPanel";
+import { HighlightedText } from "./HighlightedText";
+import { ExportDialog } from "./ExportDialog";
+import { SendTemplateDialog } from "./SendTemplateDialog";
+import { HubSpotContactDialog } from "./HubSpotContactDialog";
+import { CreateDealDialog } from "./CreateDealDialog";
 
 interface ChatHistoryProps {
   businessId: number;
   businessName: string;
+  // Controlled selection, e.g. from the route; uncontrolled when omitted
+  selectedConversationId?: number | null;
+  onSelectConversation?: (conversationId: number | null) => void;
+  // Business route, used to link to the escalation log; the link is hidden when omitted
+  basePath?: string;
 }
 
+const MESSAGES_PAGE_SIZE = 50;
+// Distance from the top (px) at which older messages start loading
+const LOAD_OLDER_THRESHOLD = 80;
+
 // Default image component for when images fail to load
 const DefaultImagePlaceholder: React.FC<{ className?: string }> = ({ className = "" }) => (
   <div className={`flex flex-col items-center justify-center bg-muted rounded-lg ${className}`}>
@@ -31,15 +88,72 @@ const DefaultImagePlaceholder: React.FC<{ className?: string }> = ({ className =
   </div>
 );
 
-export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessName }) => {
-  const [selectedConversationId, setSelectedConversationId] = useState<number | null>(null);
+export const ChatHistory: React.FC<ChatHistoryProps> = ({
+  businessId,
+  businessName,
+  selectedConversationId: controlledConversationId,
+  onSelectConversation,
+  basePath,
+}) => {
+  const [uncontrolledConversationId, setUncontrolledConversationId] = useState<number | null>(null);
+  const selectedConversationId =
+    controlledConversationId !== undefined ? controlledConversationId : uncontrolledConversationId;
+  const setSelectedConversationId = (conversationId: number | null) => {
+    setUncontrolledConversationId(conversationId);
+    onSelectConversation?.(conversationId);
+  };
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
   const [imageErrors, setImageErrors] = useState<Set<string>>(new Set());
   const [conversationToDelete, setConversationToDelete] = useState<Conversation | null>(null);
 
-  const { data: conversationsData, isLoading: conversationsLoading } = useConversations(businessId);
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [messagesLoading, setMessagesLoading] = useState(false);
+  const [conversationSearch, setConversationSearch] = useState("");
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [highlightQuery, setHighlightQuery] = useState("");
+  const [jumpToMessageId, setJumpToMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [exportScope, setExportScope] = useState<"business" | "conversation" | null>(null);
+  const [numberFilter, setNumberFilter] = useState("all");
+  const [templateDialogOpen, setTemplateDialogOpen] = useState(false);
+  const [hubspotDialogOpen, setHubspotDialogOpen] = useState(false);
+  const [dealDialogOpen, setDealDialogOpen] = useState(false);
+
+  const debouncedConversationSearch = useDebounce(conversationSearch.trim(), 300);
+  const { data: whatsappNumbers = [] } = useWhatsAppNumbers(businessId);
+  const conversationFilters = {
+    ...(debouncedConversationSearch && { search: debouncedConversationSearch }),
+    ...(numberFilter !== "all" && { whatsapp_number_id: Number(numberFilter) }),
+  };
+  const { data: conversationsData, isLoading: conversationsLoading } = useConversations(
+    businessId,
+    Object.keys(conversationFilters).length ? conversationFilters : undefined
+  );
+  const {
+    data: messagesData,
+    isLoading: messagesLoading,
+    hasNextPage: hasOlderMessages,
+    fetchNextPage: fetchOlderMessages,
+    isFetchingNextPage: loadingOlderMessages,
+  } = useConversationMessages(businessId, selectedConversationId, { limit: MESSAGES_PAGE_SIZE });
+
+  // Scroll bookkeeping for backward loading
+  const messagesViewportRef = useRef<HTMLDivElement>(null);
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const stickToBottomRef = useRef(true);
+  const { connectionState, isLive } = useConversationStream(businessId);
+  const setBotPaused = useSetConversationBotPaused();
+  // Only the total is needed, to show whether the open conversation was escalated
+  const { data: escalationsData } = useEscalations(
+    businessId,
+    { conversation_id: selectedConversationId || undefined, limit: 1 },
+    { enabled: !!basePath && !!selectedConversationId }
+  );
+  const escalationCount = selectedConversationId ? escalationsData?.total || 0 : 0;
+  const { hasPermission } = useAuth();
+  const queryClient = useQueryClient();
+  const canReply = hasPermission("conversations:reply");
+  const canDelete = hasPermission("conversations:delete");
+  const { data: hubspotStatus } = useHubSpotStatus(businessId);
+  const canSyncHubSpot = canReply && !!hubspotStatus?.isIntegrated;
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleString();
@@ -50,10 +164,22 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
     return phoneNumber.replace(/(\d{3})(\d{3})(\d{4})/, "($1) $2-$3");
   };
 
+  // Business number the customer wrote to, only worth showing when there are several
+  const getReceivingNumberLabel = (conversation: Conversation) => {
+    if (whatsappNumbers.length < 2) return null;
+    const number =
+      conversation.whatsapp_number ||
+      whatsappNumbers.find((item) => item.id === conversation.whatsapp_number_id);
+    return number ? number.label || number.display_phone_number : null;
+  };
+
   const getMessageIcon = (message: Message) => {
     if (message.direction === "inbound") {
       return <User className="w-4 h-4 text-blue-500" />;
     }
+    if (message.sent_by === "agent") {
+      return <Headphones className="w-4 h-4 text-amber-300" />;
+    }
     return <Bot className="w-4 h-4 text-green-500" />;
   };
 
@@ -65,6 +191,8 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
         return "🎵";
       case "document":
         return "📄";
+      case "template":
+        return "📋";
       default:
         return "💬";
     }
@@ -99,13 +227,17 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
   };
 
   const handleDeleteConversation = async () => {
-    if (!conversationToDelete) return;
+    if (!conversationToDelete || !canDelete) return;
 
     try {
       // Use deleteConversation instead of archiveConversation
       const response = await BusinessService.deleteConversation(conversationToDelete.id);
       if (response.success) {
-        window.location.reload(); // Simple refresh for now
+        // The selection may come from the URL, so clear it before the conversation disappears
+        if (conversationToDelete.id === selectedConversationId) {
+          setSelectedConversationId(null);
+        }
+        queryClient.invalidateQueries({ queryKey: businessKeys.conversations(businessId) });
       }
     } catch (error) {
       console.error("Error deleting conversation:", error);
@@ -120,20 +252,18 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
     }
   };
 
-  const loadConversationMessages = async (conversationId: number) => {
-    try {
-      setMessagesLoading(true);
-      const response = await BusinessService.getConversationMessages(conversationId, { limit: 100 });
-      if (response.success && response.data) {
-        setMessages(response.data.messages);
-      } else {
-        setMessages([]);
-      }
-    } catch (error) {
-      console.error("Error loading conversation messages:", error);
-      setMessages([]);
-    } finally {
-      setMessagesLoading(false);
+  const renderMessageStatus = (message: Message) => {
+    if (message.direction !== "outbound") return null;
+
+    switch (message.status) {
+      case "read":
+        return <CheckCheck className="w-3 h-3 text-sky-300" aria-label="Read" />;
+      case "delivered":
+        return <CheckCheck className="w-3 h-3" aria-label="Delivered" />;
+      case "failed":
+        return <AlertCircle className="w-3 h-3 text-red-300" aria-label="Failed" />;
+      default:
+        return <Check className="w-3 h-3" aria-label="Sent" />;
     }
   };
 
@@ -213,91 +343,253 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
   };
 
   const conversations = conversationsData?.conversations || [];
+  const messages = messagesData?.messages || [];
+
+  // New conversation: start at the latest message
+  useEffect(() => {
+    stickToBottomRef.current = true;
+    scrollAnchorRef.current = null;
+  }, [selectedConversationId]);
+
+  useLayoutEffect(() => {
+    const viewport = messagesViewportRef.current;
+    if (!viewport) return;
+
+    if (scrollAnchorRef.current) {
+      // Older messages were prepended: keep the previously visible message in place
+      const { scrollHeight, scrollTop } = scrollAnchorRef.current;
+      viewport.scrollTop = viewport.scrollHeight - scrollHeight + scrollTop;
+      scrollAnchorRef.current = null;
+    } else if (stickToBottomRef.current) {
+      viewport.scrollTop = viewport.scrollHeight;
+    }
+  }, [messagesData]);
+
+  // Jump to a search result, loading older pages until the message is in the thread
+  useEffect(() => {
+    if (!jumpToMessageId || messagesLoading) return;
+
+    const element = document.getElementById(`message-${jumpToMessageId}`);
+    if (element) {
+      stickToBottomRef.current = false;
+      element.scrollIntoView({ block: "center" });
+      setHighlightedMessageId(jumpToMessageId);
+      setJumpToMessageId(null);
+      return;
+    }
+
+    if (hasOlderMessages) {
+      if (!loadingOlderMessages) fetchOlderMessages();
+    } else {
+      setJumpToMessageId(null);
+    }
+  }, [jumpToMessageId, messagesData, messagesLoading, hasOlderMessages, loadingOlderMessages, fetchOlderMessages]);
+
+  const handleSelectSearchResult = (result: MessageSearchResult, query: string) => {
+    setSelectedConversationId(result.conversation.id);
+    setHighlightQuery(query);
+    setHighlightedMessageId(null);
+    setJumpToMessageId(result.message.message_id);
+  };
+
+  const handleCloseSearch = () => {
+    setSearchOpen(false);
+    setHighlightQuery("");
+    setHighlightedMessageId(null);
+  };
+
+  const handleMessagesScroll = (event: React.UIEvent<HTMLDivElement>) => {
+    const viewport = event.currentTarget;
+    stickToBottomRef.current = viewport.scrollHeight - viewport.scrollTop - viewport.clientHeight < 48;
+
+    if (viewport.scrollTop < LOAD_OLDER_THRESHOLD && hasOlderMessages && !loadingOlderMessages) {
+      scrollAnchorRef.current = { scrollHeight: viewport.scrollHeight, scrollTop: viewport.scrollTop };
+      fetchOlderMessages();
+    }
+  };
+  const listedConversation = conversations.find((c) => c.id === selectedConversationId);
+  // Search results and links can open a conversation outside the loaded page or the active filter
+  const { data: fetchedConversation } = useConversation(businessId, selectedConversationId, {
+    enabled: !conversationsLoading && !listedConversation,
+  });
+  const selectedConversation = listedConversation || fetchedConversation || null;
+
+  const handleToggleBotPaused = () => {
+    if (!selectedConversation) return;
+    setBotPaused.mutate({
+      businessId,
+      conversationId: selectedConversation.id,
+      botPaused: !selectedConversation.bot_paused,
+    });
+  };
 
   return (
     <div className="flex h-full">
       {/* Conversations List */}
       <div className="w-1/3 border-r border-border/50 flex flex-col">
-        <div className="p-4 border-b border-border/50">
-          <h3 className="text-lg font-semibold">Conversations</h3>
-          <p className="text-sm text-muted-foreground">{businessName}</p>
-        </div>
-
-        <ScrollArea className="flex-1">
-          {conversationsLoading ? (
-            <div className="flex items-center justify-center p-8">
-              <div className="text-center">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
-                <p className="text-muted-foreground">Loading conversations...</p>
+        {searchOpen ? (
+          <MessageSearchPanel
+            businessId={businessId}
+            onSelectResult={handleSelectSearchResult}
+            onClose={handleCloseSearch}
+          />
+        ) : (
+          <>
+            <div className="p-4 border-b border-border/50">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Conversations</h3>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => setExportScope("business")}
+                    title="Export all conversations"
+                  >
+                    <FileDown className="w-3 h-3 mr-1" />
+                    Export
+                  </Button>
+                  <Badge
+                    variant="outline"
+                    className={`text-xs gap-1 ${isLive ? "text-green-600 border-green-600/30" : "text-muted-foreground"}`}
+                  >
+                    <Radio className={`w-3 h-3 ${isLive ? "animate-pulse" : ""}`} />
+                    {isLive ? "Live" : connectionState === "reconnecting" ? "Reconnecting..." : "Offline"}
+                  </Badge>
+                </div>
               </div>
-            </div>
-          ) : conversations.length === 0 ? (
-            <div className="flex flex-col items-center justify-center p-8 text-center">
-              <div className="mb-4">
-                <MessageSquare className="w-8 h-8 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">{businessName}</p>
+              <div className="flex items-center gap-2 mt-3">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                  <Input
+                    placeholder="Filter by name or phone..."
+                    value={conversationSearch}
+                    onChange={(e) => setConversationSearch(e.target.value)}
+                    className="pl-10 h-9"
+                  />
+                </div>
+                <Button size="sm" variant="outline" className="h-9" onClick={() => setSearchOpen(true)}>
+                  Search messages
+                </Button>
               </div>
-              <p className="text-muted-foreground text-sm font-medium">No conversations found</p>
-              <p className="text-muted-foreground text-xs mt-1">Start messaging to see conversations here</p>
+              {whatsappNumbers.length > 1 && (
+                <Select value={numberFilter} onValueChange={setNumberFilter}>
+                  <SelectTrigger className="h-9 mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All numbers</SelectItem>
+                    {whatsappNumbers.map((number) => (
+                      <SelectItem key={number.id} value={String(number.id)}>
+                        {number.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
-          ) : (
-            <div className="divide-y divide-border/50">
-              {conversations.map((conversation, index) => (
-                <div
-                  key={conversation.id}
-                  className={`p-4 cursor-pointer transition-all duration-200 hover:bg-accent/50 relative group ${
-                    selectedConversationId === conversation.id
-                      ? "bg-primary/5 border-r-4 border-primary shadow-sm"
-                      : "hover:shadow-sm"
-                  } ${index === conversations.length - 1 ? "mb-24" : ""}`}
-                  onClick={() => {
-                    setSelectedConversationId(conversation.id);
-                    loadConversationMessages(conversation.id);
-                  }}
-                >
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex items-center gap-3">
-                      <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary/20 to-primary/10 flex items-center justify-center">
-                        <Phone className="w-4 h-4 text-primary" />
+
+            <ScrollArea className="flex-1">
+              {conversationsLoading ? (
+                <div className="flex items-center justify-center p-8">
+                  <div className="text-center">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+                    <p className="text-muted-foreground">Loading conversations...</p>
+                  </div>
+                </div>
+              ) : conversations.length === 0 ? (
+                <div className="flex flex-col items-center justify-center p-8 text-center">
+                  <div className="mb-4">
+                    <MessageSquare className="w-8 h-8 text-muted-foreground" />
+                  </div>
+                  <p className="text-muted-foreground text-sm font-medium">No conversations found</p>
+                  <p className="text-muted-foreground text-xs mt-1">
+                    {debouncedConversationSearch || numberFilter !== "all"
+                      ? "No conversations match your filter"
+                      : "Start messaging to see conversations here"}
+                  </p>
+                </div>
+              ) : (
+                <div className="divide-y divide-border/50">
+                  {conversations.map((conversation, index) => (
+                    <div
+                      key={conversation.id}
+                      className={`p-4 cursor-pointer transition-all duration-200 hover:bg-accent/50 relative group ${
+                        selectedConversationId === conversation.id
+                          ? "bg-primary/5 border-r-4 border-primary shadow-sm"
+                          : "hover:shadow-sm"
+                      } ${index === conversations.length - 1 ? "mb-24" : ""}`}
+                      onClick={() => setSelectedConversationId(conversation.id)}
+                    >
+                      <div className="flex items-center justify-between mb-3">
+                        <div className="flex items-center gap-3">
+                          <div className="w-10 h-10 rounded-full bg-gradient-to-br from-primary/20 to-primary/10 flex items-center justify-center">
+                            <Phone className="w-4 h-4 text-primary" />
+                          </div>
+                          <div className="flex-1">
+                            <span className="font-semibold text-foreground text-sm">
+                              {formatPhoneNumber(conversation.phone_number)}
+                            </span>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            variant="secondary"
+                            className="text-xs px-2 py-1 bg-primary/10 text-primary border-primary/20 font-medium"
+                          >
+                            {conversation.message_count}
+                          </Badge>
+                          {canDelete && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setConversationToDelete(conversation);
+                              }}
+                              className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10 opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
                       </div>
-                      <div className="flex-1">
-                        <span className="font-semibold text-foreground text-sm">
-                          {formatPhoneNumber(conversation.phone_number)}
+                      <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
+                        {(getReceivingNumberLabel(conversation) || conversation.hubspot_contact) && (
+                          <div className="mr-auto flex flex-wrap gap-1">
+                            {getReceivingNumberLabel(conversation) && (
+                              <Badge variant="outline" className="gap-1 text-xs font-normal">
+                                <Smartphone className="w-3 h-3" />
+                                {getReceivingNumberLabel(conversation)}
+                              </Badge>
+                            )}
+                            {conversation.hubspot_contact && (
+                              <Badge
+                                variant="outline"
+                                className="gap-1 text-xs font-normal"
+                                title={`HubSpot: ${conversation.hubspot_contact.name || conversation.hubspot_contact.contact_id}`}
+                              >
+                                <Contact className="w-3 h-3" />
+                                HubSpot
+                              </Badge>
+                            )}
+                          </div>
+                        )}
+                        <Calendar className="w-3 h-3" />
+                        <span>
+                          {conversation.last_message_at
+                            ? formatDate(conversation.last_message_at)
+                            : formatDate(conversation.created_at)}
                         </span>
                       </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                      <Badge
-                        variant="secondary"
-                        className="text-xs px-2 py-1 bg-primary/10 text-primary border-primary/20 font-medium"
-                      >
-                        {conversation.message_count}
-                      </Badge>
-                      <Button
-                        size="sm"
-                        variant="ghost"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setConversationToDelete(conversation);
-                        }}
-                        className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive hover:bg-destructive/10 opacity-0 group-hover:opacity-100 transition-opacity"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </div>
-                  <div className="flex items-center justify-end gap-2 text-xs text-muted-foreground">
-                    <Calendar className="w-3 h-3" />
-                    <span>
-                      {conversation.last_message_at
-                        ? formatDate(conversation.last_message_at)
-                        : formatDate(conversation.created_at)}
-                    </span>
-                  </div>
+                  ))}
                 </div>
-              ))}
-            </div>
-          )}
-        </ScrollArea>
+              )}
+            </ScrollArea>
+          </>
+        )}
       </div>
 
       {/* Messages View */}
@@ -306,11 +598,101 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
           <CardHeader className="pb-4 border-b border-border/50">
             <CardTitle>
               {selectedConversationId ? (
-                <div className="flex items-center gap-3 text-lg font-semibold">
-                  <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
-                    <MessageSquare className="w-5 h-5 text-primary" />
+                <div className="flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 text-lg font-semibold">
+                    <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                      <MessageSquare className="w-5 h-5 text-primary" />
+                    </div>
+                    <span className="text-foreground">Messages</span>
+                    {selectedConversation && getReceivingNumberLabel(selectedConversation) && (
+                      <Badge variant="outline" className="gap-1 font-normal">
+                        <Smartphone className="w-3 h-3" />
+                        {getReceivingNumberLabel(selectedConversation)}
+                      </Badge>
+                    )}
+                    {selectedConversation?.bot_paused ? (
+                      <Badge className="bg-amber-500/10 text-amber-700 border-amber-500/20 gap-1">
+                        <Headphones className="w-3 h-3" />
+                        Human handling
+                      </Badge>
+                    ) : (
+                      <Badge variant="secondary" className="gap-1">
+                        <Bot className="w-3 h-3" />
+                        Bot active
+                      </Badge>
+                    )}
+                    {selectedConversation?.hubspot_contact && (
+                      <Badge variant="outline" className="gap-1 font-normal">
+                        <Contact className="w-3 h-3" />
+                        {selectedConversation.hubspot_contact.url ? (
+                          <a
+                            href={selectedConversation.hubspot_contact.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="hover:underline"
+                          >
+                            {selectedConversation.hubspot_contact.name || "HubSpot contact"}
+                          </a>
+                        ) : (
+                          selectedConversation.hubspot_contact.name || "HubSpot contact"
+                        )}
+                      </Badge>
+                    )}
                   </div>
-                  <span className="text-foreground">Messages</span>
+                  {selectedConversation && (
+                    <div className="flex items-center gap-2">
+                      {basePath && escalationCount > 0 && (
+                        <Button size="sm" variant="outline" asChild>
+                          <Link to={`${basePath}/escalations?conversation=${selectedConversation.id}`}>
+                            <BellRing className="w-4 h-4 mr-1" />
+                            Escalated ({escalationCount})
+                          </Link>
+                        </Button>
+                      )}
+                      {canSyncHubSpot && (
+                        <Button size="sm" variant="outline" onClick={() => setHubspotDialogOpen(true)}>
+                          <Contact className="w-4 h-4 mr-1" />
+                          {selectedConversation.hubspot_contact ? "HubSpot" : "Link HubSpot"}
+                        </Button>
+                      )}
+                      {canSyncHubSpot && (
+                        <Button size="sm" variant="outline" onClick={() => setDealDialogOpen(true)}>
+                          <TrendingUp className="w-4 h-4 mr-1" />
+                          Create Deal
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => setExportScope("conversation")}>
+                        <FileDown className="w-4 h-4 mr-1" />
+                        Export
+                      </Button>
+                      {canReply && (
+                        <Button size="sm" variant="outline" onClick={() => setTemplateDialogOpen(true)}>
+                          <FileText className="w-4 h-4 mr-1" />
+                          Template
+                        </Button>
+                      )}
+                      {canReply && (
+                        <Button
+                          size="sm"
+                          variant={selectedConversation.bot_paused ? "outline" : "default"}
+                          onClick={handleToggleBotPaused}
+                          disabled={setBotPaused.isPending}
+                        >
+                          {selectedConversation.bot_paused ? (
+                            <>
+                              <Bot className="w-4 h-4 mr-1" />
+                              Hand back to bot
+                            </>
+                          ) : (
+                            <>
+                              <Hand className="w-4 h-4 mr-1" />
+                              Take over
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="flex items-center gap-3 text-lg font-semibold text-muted-foreground">
@@ -323,7 +705,11 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
             </CardTitle>
           </CardHeader>
           <CardContent className="p-0">
-            <ScrollArea className="h-[80vh]">
+            <ScrollArea
+              className={selectedConversation && canReply ? "h-[62vh]" : "h-[80vh]"}
+              viewportRef={messagesViewportRef}
+              onViewportScroll={handleMessagesScroll}
+            >
               {!selectedConversationId ? (
                 <div className="flex flex-col items-center justify-center py-24 px-6">
                   <div className="w-20 h-20 rounded-full bg-gradient-to-br from-primary/20 to-primary/10 flex items-center justify-center mb-6">
@@ -350,15 +736,47 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
                 </div>
               ) : (
                 <div className="space-y-6 p-6">
+                  {(hasOlderMessages || loadingOlderMessages) && (
+                    <div className="flex justify-center">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="text-xs text-muted-foreground"
+                        onClick={() => {
+                          const viewport = messagesViewportRef.current;
+                          if (viewport) {
+                            scrollAnchorRef.current = {
+                              scrollHeight: viewport.scrollHeight,
+                              scrollTop: viewport.scrollTop,
+                            };
+                          }
+                          fetchOlderMessages();
+                        }}
+                        disabled={loadingOlderMessages}
+                      >
+                        {loadingOlderMessages ? (
+                          <>
+                            <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                            Loading older messages...
+                          </>
+                        ) : (
+                          "Load older messages"
+                        )}
+                      </Button>
+                    </div>
+                  )}
                   {messages.map((message, index) => (
                     <div
                       key={message.id}
+                      id={`message-${message.message_id}`}
                       className={`flex gap-4 ${message.direction === "inbound" ? "justify-start" : "justify-end"} ${
                         index === messages.length - 1 ? "pb-24" : ""
                       }`}
                     >
                       <div
                         className={`max-w-[60%] min-w-[200px] rounded-xl px-4 py-3 ${
+                          highlightedMessageId === message.message_id ? "ring-2 ring-yellow-400 ring-offset-2" : ""
+                        } ${
                           message.direction === "inbound"
                             ? "bg-primary/10 text-accent-foreground rounded-tl-none rounded-tr-xl rounded-br-xl rounded-bl-xl"
                             : "bg-primary/90 text-primary-foreground rounded-tl-xl rounded-tr-none rounded-br-xl rounded-bl-xl"
@@ -370,10 +788,13 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
                           </div>
                           <span className="text-xs font-medium">{getMessageTypeIcon(message.message_type)}</span>
                           <span className="text-xs">{formatDate(message.created_at)}</span>
+                          {renderMessageStatus(message)}
                         </div>
 
                         {message.content && (
-                          <div className="text-sm leading-relaxed font-medium">{message.content}</div>
+                          <div className="text-sm leading-relaxed font-medium">
+                            <HighlightedText text={message.content} query={highlightQuery} />
+                          </div>
                         )}
 
                         {renderMediaContent(message)}
@@ -383,10 +804,55 @@ export const ChatHistory: React.FC<ChatHistoryProps> = ({ businessId, businessNa
                 </div>
               )}
             </ScrollArea>
+            {selectedConversation && canReply && (
+              <MessageComposer
+                key={selectedConversation.id}
+                businessId={businessId}
+                conversationId={selectedConversation.id}
+                botPaused={selectedConversation.bot_paused}
+              />
+            )}
           </CardContent>
         </Card>
       </div>
 
+      <ExportDialog
+        open={!!exportScope}
+        onOpenChange={(open) => !open && setExportScope(null)}
+        businessId={businessId}
+        businessName={businessName}
+        conversation={exportScope === "conversation" ? selectedConversation : null}
+      />
+
+      {selectedConversation && canReply && (
+        <SendTemplateDialog
+          open={templateDialogOpen}
+          onOpenChange={setTemplateDialogOpen}
+          businessId={businessId}
+          conversation={selectedConversation}
+        />
+      )}
+
+      {selectedConversation && canSyncHubSpot && (
+        <HubSpotContactDialog
+          key={selectedConversation.id}
+          open={hubspotDialogOpen}
+          onOpenChange={setHubspotDialogOpen}
+          businessId={businessId}
+          conversation={selectedConversation}
+        />
+      )}
+
+      {selectedConversation && canSyncHubSpot && (
+        <CreateDealDialog
+          key={selectedConversation.id}
+          open={dealDialogOpen}
+          onOpenChange={setDealDialogOpen}
+          businessId={businessId}
+          conversation={selectedConversation}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!conversationToDelete} onOpenChange={() => setConversationToDelete(null)}>
         <AlertDialogContent className="bg-card border-border shadow-xl">
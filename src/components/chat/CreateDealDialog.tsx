@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from "react";
+import { Contact, ExternalLink, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { HubSpotStagePicker, type HubSpotStageValue } from "@/components/integration/HubSpotStagePicker";
+import { useCreateConversationDeal, useHubSpotDealSettings, useHubSpotPipelines } from "@/hooks/use-hubspot";
+import { findDealStage, sortStages } from "@/lib/hubspot";
+import type { Conversation } from "@/lib/services/business-service";
+import type { HubSpotDealRecord } from "@/lib/services/hubspot-service";
+
+interface CreateDealDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessId: number;
+  conversation: Conversation;
+}
+
+// Create a HubSpot deal for the customer of a conversation, with the transcript attached as a note
+export const CreateDealDialog: React.FC<CreateDealDialogProps> = ({ open, onOpenChange, businessId, conversation }) => {
+  const defaultName = `${conversation.contact_name || conversation.phone_number} - WhatsApp`;
+  const [name, setName] = useState(defaultName);
+  const [amount, setAmount] = useState("");
+  const [closeDate, setCloseDate] = useState("");
+  const [description, setDescription] = useState("");
+  const [attachTranscript, setAttachTranscript] = useState(true);
+  const [stage, setStage] = useState<HubSpotStageValue>({});
+  const [createdDeal, setCreatedDeal] = useState<HubSpotDealRecord | null>(null);
+
+  const {
+    data: pipelines = [],
+    isLoading: pipelinesLoading,
+    error,
+  } = useHubSpotPipelines(businessId, { enabled: open });
+  const { data: dealSettings, isLoading: settingsLoading } = useHubSpotDealSettings(businessId, { enabled: open });
+  const createDeal = useCreateConversationDeal();
+
+  // Start at the configured default stage, or the first stage of the first pipeline
+  useEffect(() => {
+    if (stage.pipeline_id || pipelinesLoading || settingsLoading || !pipelines.length) return;
+    if (findDealStage(pipelines, dealSettings?.default_pipeline_id, dealSettings?.default_stage_id)) {
+      setStage({ pipeline_id: dealSettings.default_pipeline_id, stage_id: dealSettings.default_stage_id });
+    } else {
+      setStage({ pipeline_id: pipelines[0].id, stage_id: sortStages(pipelines[0].stages)[0]?.id });
+    }
+  }, [pipelines, dealSettings, pipelinesLoading, settingsLoading, stage.pipeline_id]);
+
+  // Reopening starts a new deal from the defaults
+  useEffect(() => {
+    if (open) return;
+    setName(defaultName);
+    setAmount("");
+    setCloseDate("");
+    setDescription("");
+    setAttachTranscript(true);
+    setStage({});
+    setCreatedDeal(null);
+  }, [open, defaultName]);
+
+  const linked = conversation.hubspot_contact;
+  const parsedAmount = amount.trim() ? Number(amount) : undefined;
+  const isAmountValid = parsedAmount === undefined || (Number.isFinite(parsedAmount) && parsedAmount >= 0);
+  const canCreate =
+    !!name.trim() &&
+    isAmountValid &&
+    !!findDealStage(pipelines, stage.pipeline_id, stage.stage_id) &&
+    !createDeal.isPending;
+
+  const handleCreate = async () => {
+    try {
+      const deal = await createDeal.mutateAsync({
+        businessId,
+        conversationId: conversation.id,
+        data: {
+          name: name.trim(),
+          amount: parsedAmount,
+          pipeline: stage.pipeline_id,
+          stage: stage.stage_id,
+          closeDate: closeDate || undefined,
+          description: description.trim() || undefined,
+          attach_transcript: attachTranscript,
+        },
+      });
+      setCreatedDeal(deal);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Create HubSpot Deal</DialogTitle>
+          <DialogDescription>
+            {conversation.contact_name || conversation.phone_number}
+            {conversation.contact_name && ` · ${conversation.phone_number}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdDeal ? (
+          <div className="py-8 text-center space-y-4">
+            <TrendingUp className="w-8 h-8 mx-auto text-primary" />
+            <p className="font-medium">Deal "{createdDeal.name}" was created</p>
+            {createdDeal.url && (
+              <Button variant="outline" asChild>
+                <a href={createdDeal.url} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Open in HubSpot
+                </a>
+              </Button>
+            )}
+          </div>
+        ) : pipelinesLoading || settingsLoading ? (
+          <div className="text-muted-foreground py-8 text-center">Loading pipelines...</div>
+        ) : error ? (
+          <div className="text-destructive py-8 text-center">Error loading pipelines: {error.message}</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="deal-name">Deal name</Label>
+              <Input id="deal-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+
+            <div className="space-y-1">
+              <Label>Pipeline and stage</Label>
+              <HubSpotStagePicker pipelines={pipelines} value={stage} onChange={setStage} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="deal-amount">Amount</Label>
+                <Input
+                  id="deal-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+                {!isAmountValid && <p className="text-xs text-destructive">Enter a positive amount</p>}
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="deal-close-date">Close date</Label>
+                <Input
+                  id="deal-close-date"
+                  type="date"
+                  value={closeDate}
+                  onChange={(e) => setCloseDate(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="deal-description">Description</Label>
+              <Textarea
+                id="deal-description"
+                rows={3}
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="deal-attach-transcript"
+                checked={attachTranscript}
+                onCheckedChange={(checked) => setAttachTranscript(checked === true)}
+              />
+              <Label htmlFor="deal-attach-transcript" className="font-normal">
+                Attach the conversation transcript as a note
+              </Label>
+            </div>
+
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Contact className="h-4 w-4" />
+              {linked
+                ? `The deal will be associated with ${linked.name || `contact ${linked.contact_id}`}.`
+                : "No HubSpot contact is linked, so the deal will not be associated with a contact."}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {createdDeal ? "Close" : "Cancel"}
+          </Button>
+          {!createdDeal && (
+            <Button onClick={handleCreate} disabled={!canCreate}>
+              <TrendingUp className="h-4 w-4 mr-2" />
+              {createDeal.isPending ? "Creating..." : "Create Deal"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import {
+  buildTranscripts,
+  downloadFile,
+  fetchBusinessConversations,
+  openPrintWindow,
+  transcriptsToCsv,
+  transcriptsToJson,
+  transcriptsToPrintableHtml,
+  writePrintableTranscript,
+  type ExportFormat,
+  type ExportProgress,
+} from "@/lib/conversation-export";
+import type { Conversation } from "@/lib/services/business-service";
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessId: number;
+  businessName: string;
+  // When set, only this conversation is exported; otherwise the whole business
+  conversation?: Conversation | null;
+}
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "export";
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  open,
+  onOpenChange,
+  businessId,
+  businessName,
+  conversation,
+}) => {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+
+  const handleExport = async () => {
+    const range = { startDate: startDate || undefined, endDate: endDate || undefined };
+    // Opened before the fetches, while the click still allows pop-ups
+    const printWindow = format === "print" ? openPrintWindow() : null;
+    if (format === "print" && !printWindow) {
+      toast.error("Allow pop-ups for this site to open the printable transcript");
+      return;
+    }
+
+    try {
+      setExporting(true);
+      setProgress(null);
+
+      const conversations = conversation ? [conversation] : await fetchBusinessConversations(businessId, range);
+      const transcripts = await buildTranscripts(conversations, range, setProgress);
+
+      if (transcripts.length === 0) {
+        printWindow?.close();
+        toast.warning("No messages found in the selected range");
+        return;
+      }
+
+      const baseName = [
+        slugify(businessName),
+        conversation ? slugify(conversation.contact_name || conversation.phone_number) : "conversations",
+        new Date().toISOString().slice(0, 10),
+      ].join("_");
+      const meta = { businessName, range };
+
+      if (format === "csv") {
+        downloadFile(transcriptsToCsv(transcripts), `${baseName}.csv`, "text/csv;charset=utf-8");
+      } else if (format === "json") {
+        downloadFile(transcriptsToJson(transcripts, meta), `${baseName}.json`, "application/json");
+      } else if (printWindow) {
+        writePrintableTranscript(printWindow, transcriptsToPrintableHtml(transcripts, meta));
+      }
+
+      const messageCount = transcripts.reduce((sum, t) => sum + t.messages.length, 0);
+      toast.success(`Exported ${messageCount} messages from ${transcripts.length} conversation(s)`);
+      onOpenChange(false);
+    } catch (error) {
+      printWindow?.close();
+      console.error("Error exporting conversations:", error);
+      toast.error(error.message || "Failed to export conversations");
+    } finally {
+      setExporting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !exporting && onOpenChange(value)}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export {conversation ? "Conversation" : "Conversations"}</DialogTitle>
+          <DialogDescription>
+            {conversation
+              ? `Transcript with ${conversation.contact_name || conversation.phone_number}`
+              : `All conversations of ${businessName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)} disabled={exporting}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv">CSV (spreadsheet)</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+                <SelectItem value="print">Printable transcript / PDF</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="export_start_date">From</Label>
+              <Input
+                id="export_start_date"
+                type="date"
+                value={startDate}
+                max={endDate || undefined}
+                onChange={(e) => setStartDate(e.target.value)}
+                disabled={exporting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export_end_date">To</Label>
+              <Input
+                id="export_end_date"
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                disabled={exporting}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">Leave the dates empty to export the full history.</p>
+
+          {exporting && progress && (
+            <p className="text-sm text-muted-foreground">
+              Loading conversation {Math.min(progress.conversationsDone + 1, progress.conversationsTotal)} of{" "}
+              {progress.conversationsTotal} · {progress.messagesLoaded} messages
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={exporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={exporting}>
+            {exporting ? (
+              <>
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                Exporting...
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,39 @@
+import React from "react";
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+  className?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Renders text with case-insensitive matches of `query` wrapped in <mark>
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query, className }) => {
+  const terms = (query || "")
+    .trim()
+    .split(/\s+/)
+    .filter((term) => term.length > 1)
+    .map(escapeRegExp);
+
+  if (terms.length === 0) {
+    return <span className={className}>{text}</span>;
+  }
+
+  const pattern = new RegExp(`(${terms.join("|")})`, "gi");
+  const parts = text.split(pattern);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-yellow-300/70 text-foreground rounded-sm px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+};
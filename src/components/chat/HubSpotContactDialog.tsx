@@ -0,0 +1,261 @@
+import React, { useState } from "react";
+import { ExternalLink, Link2, Search, Unlink, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  useCreateHubSpotContact,
+  useHubSpotContactSearch,
+  useLinkConversationContact,
+  useUnlinkConversationContact,
+} from "@/hooks/use-hubspot";
+import { findContactsByPhone, getContactDisplayName, isSamePhone, splitContactName } from "@/lib/hubspot";
+import type { Conversation } from "@/lib/services/business-service";
+import type { HubSpotContact } from "@/lib/services/hubspot-service";
+
+interface HubSpotContactDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessId: number;
+  conversation: Conversation;
+}
+
+// Link the customer of a conversation to an existing HubSpot contact, or create one from the WhatsApp details
+export const HubSpotContactDialog: React.FC<HubSpotContactDialogProps> = ({
+  open,
+  onOpenChange,
+  businessId,
+  conversation,
+}) => {
+  const [searchInput, setSearchInput] = useState(conversation.phone_number);
+  const [searchTerm, setSearchTerm] = useState(conversation.phone_number);
+  const [createAnyway, setCreateAnyway] = useState(false);
+  const [newContact, setNewContact] = useState<HubSpotContact>({
+    ...splitContactName(conversation.contact_name),
+    phone: conversation.phone_number,
+    email: "",
+  });
+
+  const { data: contacts = [], isFetching, error } = useHubSpotContactSearch(businessId, searchTerm, { enabled: open });
+  // Searched on its own, so the duplicate check does not depend on what the operator searches for
+  const phoneSearch = useHubSpotContactSearch(businessId, conversation.phone_number, { enabled: open });
+  const createContact = useCreateHubSpotContact();
+  const linkContact = useLinkConversationContact();
+  const unlinkContact = useUnlinkConversationContact();
+
+  const linked = conversation.hubspot_contact;
+  const samePhoneContacts = findContactsByPhone(phoneSearch.data || [], conversation.phone_number);
+  // Creating waits for the duplicate check
+  const canCreate = phoneSearch.isSuccess && (samePhoneContacts.length === 0 || createAnyway);
+  const isBusy = createContact.isPending || linkContact.isPending || unlinkContact.isPending;
+
+  const handleLink = async (contactId: string) => {
+    try {
+      await linkContact.mutateAsync({ businessId, conversationId: conversation.id, contactId });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const contact = await createContact.mutateAsync({
+        businessId,
+        data: { ...newContact, email: newContact.email?.trim() || undefined },
+      });
+      await handleLink(contact.id);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const handleUnlink = async () => {
+    try {
+      await unlinkContact.mutateAsync({ businessId, conversationId: conversation.id });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const updateNewContact = (field: keyof HubSpotContact, value: string) =>
+    setNewContact((prev) => ({ ...prev, [field]: value }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>HubSpot Contact</DialogTitle>
+          <DialogDescription>
+            {conversation.contact_name || conversation.phone_number}
+            {conversation.contact_name && ` · ${conversation.phone_number}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {linked && (
+            <div className="flex items-center justify-between gap-4 rounded-lg border bg-primary/5 p-3">
+              <div className="min-w-0 text-sm">
+                <p className="font-medium">Linked to {linked.name || `contact ${linked.contact_id}`}</p>
+                <p className="text-xs text-muted-foreground">
+                  {linked.synced_by === "auto" ? "Linked automatically" : "Linked manually"} on{" "}
+                  {new Date(linked.synced_at).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                {linked.url && (
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={linked.url} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-3 w-3 mr-1" />
+                      Open
+                    </a>
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={handleUnlink} disabled={isBusy}>
+                  <Unlink className="h-3 w-3 mr-1" />
+                  Unlink
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <h4 className="font-medium">{linked ? "Link a different contact" : "Find an existing contact"}</h4>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSearchTerm(searchInput.trim());
+              }}
+            >
+              <Input
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Name, email or phone number"
+              />
+              <Button type="submit" variant="outline" disabled={!searchInput.trim() || isFetching}>
+                <Search className="h-4 w-4 mr-1" />
+                Search
+              </Button>
+            </form>
+
+            {isFetching ? (
+              <div className="text-muted-foreground py-4 text-center">Searching HubSpot...</div>
+            ) : error ? (
+              <div className="text-destructive py-4 text-center">Error searching contacts: {error.message}</div>
+            ) : contacts.length === 0 ? (
+              <div className="text-muted-foreground py-4 text-center">No HubSpot contacts match "{searchTerm}"</div>
+            ) : (
+              <div className="max-h-56 overflow-y-auto divide-y rounded-lg border">
+                {contacts.map((contact) => (
+                  <div key={contact.id} className="flex items-center justify-between gap-4 p-3">
+                    <div className="min-w-0 text-sm">
+                      <p className="font-medium truncate">
+                        {getContactDisplayName(contact)}
+                        {isSamePhone(contact.phone, conversation.phone_number) && (
+                          <Badge variant="outline" className="ml-2">
+                            Same phone number
+                          </Badge>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {[contact.email, contact.phone, contact.company].filter(Boolean).join(" · ")}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleLink(contact.id)}
+                      disabled={isBusy || linked?.contact_id === contact.id}
+                    >
+                      <Link2 className="h-3 w-3 mr-1" />
+                      {linked?.contact_id === contact.id ? "Linked" : "Link"}
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <h4 className="font-medium">Create a new contact</h4>
+            {phoneSearch.isError ? (
+              <div className="flex items-center justify-between gap-4 text-sm text-destructive">
+                <span>Could not check HubSpot for this phone number: {phoneSearch.error.message}</span>
+                <Button size="sm" variant="ghost" onClick={() => phoneSearch.refetch()}>
+                  Retry
+                </Button>
+              </div>
+            ) : !phoneSearch.isSuccess ? (
+              <div className="text-muted-foreground py-4 text-center">Checking HubSpot for this phone number...</div>
+            ) : samePhoneContacts.length > 0 && !createAnyway ? (
+              <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+                <span>A HubSpot contact with this phone number already exists. Link it to avoid a duplicate.</span>
+                <Button size="sm" variant="ghost" onClick={() => setCreateAnyway(true)}>
+                  Create anyway
+                </Button>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="hubspot-first-name">First name</Label>
+                  <Input
+                    id="hubspot-first-name"
+                    value={newContact.firstName || ""}
+                    onChange={(e) => updateNewContact("firstName", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="hubspot-last-name">Last name</Label>
+                  <Input
+                    id="hubspot-last-name"
+                    value={newContact.lastName || ""}
+                    onChange={(e) => updateNewContact("lastName", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="hubspot-phone">Phone</Label>
+                  <Input
+                    id="hubspot-phone"
+                    value={newContact.phone || ""}
+                    onChange={(e) => updateNewContact("phone", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="hubspot-email">Email (optional)</Label>
+                  <Input
+                    id="hubspot-email"
+                    type="email"
+                    value={newContact.email || ""}
+                    onChange={(e) => updateNewContact("email", e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isBusy}>
+            Close
+          </Button>
+          {canCreate && (
+            <Button onClick={handleCreate} disabled={isBusy || !newContact.phone?.trim()}>
+              <UserPlus className="h-4 w-4 mr-1" />
+              {createContact.isPending ? "Creating..." : "Create and Link"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Paperclip, Send, X, FileText, ImageIcon } from "lucide-react";
+import { toast } from "sonner";
+import { useSendMessage } from "@/hooks/use-businesses";
+
+interface MessageComposerProps {
+  businessId: number;
+  conversationId: number;
+  botPaused?: boolean;
+}
+
+// WhatsApp Cloud API media limits
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_DOCUMENT_SIZE = 100 * 1024 * 1024; // 100 MB
+const MAX_TEXT_LENGTH = 4096;
+
+const IMAGE_TYPES = ["image/jpeg", "image/png"];
+const DOCUMENT_ACCEPT = ".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.csv";
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export const MessageComposer: React.FC<MessageComposerProps> = ({ businessId, conversationId, botPaused }) => {
+  const [text, setText] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sendMessage = useSendMessage();
+  const isImage = !!attachment && IMAGE_TYPES.includes(attachment.type);
+  const canSend = (!!text.trim() || !!attachment) && !sendMessage.isPending;
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    const maxSize = IMAGE_TYPES.includes(file.type) ? MAX_IMAGE_SIZE : MAX_DOCUMENT_SIZE;
+    if (file.size > maxSize) {
+      toast.error(`File is too large (max ${formatFileSize(maxSize)})`);
+      return;
+    }
+
+    setAttachment(file);
+  };
+
+  const handleSend = async () => {
+    if (!canSend) return;
+
+    try {
+      await sendMessage.mutateAsync({
+        businessId,
+        conversationId,
+        data: {
+          message_type: attachment ? (isImage ? "image" : "document") : "text",
+          content: text.trim() || undefined,
+          file: attachment || undefined,
+        },
+      });
+      setText("");
+      setAttachment(null);
+    } catch (error) {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter sends, Shift+Enter adds a new line
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="border-t border-border/50 p-4 space-y-2">
+      {!botPaused && (
+        <p className="text-xs text-muted-foreground">
+          The bot is still replying to this customer. Take over the conversation to pause it.
+        </p>
+      )}
+
+      {attachment && (
+        <div className="flex items-center gap-2 rounded-lg bg-muted/50 px-3 py-2 text-sm">
+          {isImage ? (
+            <ImageIcon className="w-4 h-4 text-primary" />
+          ) : (
+            <FileText className="w-4 h-4 text-primary" />
+          )}
+          <span className="flex-1 truncate">{attachment.name}</span>
+          <span className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</span>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 w-6 p-0"
+            onClick={() => setAttachment(null)}
+            disabled={sendMessage.isPending}
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={`${IMAGE_TYPES.join(",")},${DOCUMENT_ACCEPT}`}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-10 w-10 p-0"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={sendMessage.isPending}
+          title="Attach image or document"
+        >
+          <Paperclip className="w-4 h-4" />
+        </Button>
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={attachment ? "Add a caption (optional)" : "Type a reply..."}
+          maxLength={MAX_TEXT_LENGTH}
+          rows={2}
+          className="min-h-[40px] resize-none"
+          disabled={sendMessage.isPending}
+        />
+        <Button type="button" onClick={handleSend} disabled={!canSend} className="h-10">
+          {sendMessage.isPending ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+          ) : (
+            <Send className="w-4 h-4" />
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
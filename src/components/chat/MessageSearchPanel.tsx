@@ -0,0 +1,197 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, X, User, Bot } from "lucide-react";
+import { useMessageSearch } from "@/hooks/use-businesses";
+import { useDebounce } from "@/hooks/use-api";
+import type { MessageSearchParams, MessageSearchResult } from "@/lib/services/business-service";
+import { HighlightedText } from "./HighlightedText";
+
+interface MessageSearchPanelProps {
+  businessId: number;
+  onSelectResult: (result: MessageSearchResult, query: string) => void;
+  onClose: () => void;
+}
+
+const ANY = "any";
+
+const emptyFilters: MessageSearchParams = {
+  q: "",
+  contact_name: "",
+  phone_number: "",
+  direction: undefined,
+  message_type: undefined,
+  start_date: "",
+  end_date: "",
+};
+
+export const MessageSearchPanel: React.FC<MessageSearchPanelProps> = ({ businessId, onSelectResult, onClose }) => {
+  const [filters, setFilters] = useState<MessageSearchParams>(emptyFilters);
+  const debouncedFilters = useDebounce(filters, 300);
+
+  const hasCriteria = Object.values(debouncedFilters).some((value) => value !== undefined && value !== "");
+  const { data, isFetching, error } = useMessageSearch(
+    businessId,
+    { ...debouncedFilters, limit: 50 },
+    { enabled: hasCriteria }
+  );
+
+  const results = hasCriteria ? data?.results || [] : [];
+
+  const updateFilter = <K extends keyof MessageSearchParams>(key: K, value: MessageSearchParams[K]) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-border/50 space-y-3">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold">Search messages</h3>
+          <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+          <Input
+            placeholder="Message text..."
+            value={filters.q}
+            onChange={(e) => updateFilter("q", e.target.value)}
+            className="pl-10"
+            autoFocus
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            placeholder="Contact name"
+            value={filters.contact_name}
+            onChange={(e) => updateFilter("contact_name", e.target.value)}
+          />
+          <Input
+            placeholder="Phone number"
+            value={filters.phone_number}
+            onChange={(e) => updateFilter("phone_number", e.target.value)}
+          />
+          <Select
+            value={filters.direction || ANY}
+            onValueChange={(value) =>
+              updateFilter("direction", value === ANY ? undefined : (value as MessageSearchParams["direction"]))
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Direction" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any direction</SelectItem>
+              <SelectItem value="inbound">Inbound</SelectItem>
+              <SelectItem value="outbound">Outbound</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.message_type || ANY}
+            onValueChange={(value) =>
+              updateFilter("message_type", value === ANY ? undefined : (value as MessageSearchParams["message_type"]))
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any type</SelectItem>
+              <SelectItem value="text">Text</SelectItem>
+              <SelectItem value="image">Image</SelectItem>
+              <SelectItem value="audio">Audio</SelectItem>
+              <SelectItem value="document">Document</SelectItem>
+              <SelectItem value="template">Template</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="space-y-1">
+            <Label htmlFor="search_start_date" className="text-xs text-muted-foreground">
+              From
+            </Label>
+            <Input
+              id="search_start_date"
+              type="date"
+              value={filters.start_date}
+              max={filters.end_date || undefined}
+              onChange={(e) => updateFilter("start_date", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search_end_date" className="text-xs text-muted-foreground">
+              To
+            </Label>
+            <Input
+              id="search_end_date"
+              type="date"
+              value={filters.end_date}
+              min={filters.start_date || undefined}
+              onChange={(e) => updateFilter("end_date", e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>
+            {!hasCriteria
+              ? "Enter search criteria"
+              : isFetching
+              ? "Searching..."
+              : `${data?.total ?? results.length} result${(data?.total ?? results.length) === 1 ? "" : "s"}`}
+          </span>
+          {hasCriteria && (
+            <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setFilters(emptyFilters)}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {error ? (
+          <p className="p-4 text-sm text-destructive">{error.message}</p>
+        ) : (
+          <div className="divide-y divide-border/50">
+            {results.map((result) => (
+              <button
+                key={result.message.id}
+                type="button"
+                className="w-full text-left p-4 hover:bg-accent/50 transition-colors"
+                onClick={() => onSelectResult(result, debouncedFilters.q || "")}
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="text-sm font-semibold truncate">
+                    {result.conversation.contact_name || result.conversation.phone_number}
+                  </span>
+                  <Badge variant="outline" className="text-[10px] gap-1">
+                    {result.message.direction === "inbound" ? (
+                      <User className="w-3 h-3" />
+                    ) : (
+                      <Bot className="w-3 h-3" />
+                    )}
+                    {result.message.message_type}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground line-clamp-2">
+                  <HighlightedText
+                    text={result.message.content || result.message.file_name || ""}
+                    query={debouncedFilters.q}
+                  />
+                </p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {new Date(result.message.created_at).toLocaleString()}
+                </p>
+              </button>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+    </div>
+  );
+};
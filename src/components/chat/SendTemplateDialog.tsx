@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TemplatePreview } from "@/components/templates/TemplatePreview";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSendMessage, useWhatsAppTemplates } from "@/hooks/use-businesses";
+import { countTemplateVariables, renderTemplateText } from "@/lib/whatsapp";
+import type { Conversation } from "@/lib/services/business-service";
+
+interface SendTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessId: number;
+  conversation: Conversation;
+}
+
+// Approved templates are the only way to reach a customer outside the 24-hour service window
+export const SendTemplateDialog: React.FC<SendTemplateDialogProps> = ({
+  open,
+  onOpenChange,
+  businessId,
+  conversation,
+}) => {
+  const { data: templates = [], isLoading } = useWhatsAppTemplates(businessId, { enabled: open });
+  const sendMessage = useSendMessage();
+  const { hasPermission } = useAuth();
+  const [templateId, setTemplateId] = useState<string>("");
+  const [headerValues, setHeaderValues] = useState<string[]>([]);
+  const [bodyValues, setBodyValues] = useState<string[]>([]);
+
+  const approvedTemplates = templates.filter((template) => template.status === "APPROVED");
+  const template = approvedTemplates.find((item) => String(item.id) === templateId);
+  const headerCount = countTemplateVariables(template?.header_text);
+  const bodyCount = countTemplateVariables(template?.body_text);
+  const isComplete =
+    !!template &&
+    headerValues.slice(0, headerCount).filter((value) => value?.trim()).length === headerCount &&
+    bodyValues.slice(0, bodyCount).filter((value) => value?.trim()).length === bodyCount;
+
+  useEffect(() => {
+    if (!open) {
+      setTemplateId("");
+    }
+  }, [open]);
+
+  // Start each template with empty values
+  useEffect(() => {
+    setHeaderValues([]);
+    setBodyValues([]);
+  }, [templateId]);
+
+  const updateValue = (setter: React.Dispatch<React.SetStateAction<string[]>>, index: number, value: string) =>
+    setter((values) => {
+      const next = [...values];
+      next[index] = value;
+      return next;
+    });
+
+  const handleSend = async () => {
+    if (!template || !isComplete) return;
+
+    const headerParams = headerValues.slice(0, headerCount).map((value) => value.trim());
+    const bodyParams = bodyValues.slice(0, bodyCount).map((value) => value.trim());
+
+    try {
+      await sendMessage.mutateAsync({
+        businessId,
+        conversationId: conversation.id,
+        data: {
+          message_type: "template",
+          content: renderTemplateText(template.body_text, bodyParams),
+          template: {
+            template_id: template.id,
+            header_params: headerParams,
+            body_params: bodyParams,
+          },
+        },
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error handling is done in the mutation hook
+    }
+  };
+
+  const renderValueInputs = (
+    prefix: string,
+    count: number,
+    values: string[],
+    setter: React.Dispatch<React.SetStateAction<string[]>>
+  ) =>
+    Array.from({ length: count }, (_, index) => (
+      <div key={`${prefix}-${index}`} className="space-y-1">
+        <Label htmlFor={`${prefix}-${index}`} className="text-xs text-muted-foreground">
+          {prefix} {`{{${index + 1}}}`}
+        </Label>
+        <Input
+          id={`${prefix}-${index}`}
+          value={values[index] || ""}
+          onChange={(e) => updateValue(setter, index, e.target.value)}
+        />
+      </div>
+    ));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Send Template</DialogTitle>
+          <DialogDescription>
+            Send an approved template to {conversation.contact_name || conversation.phone_number}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-muted-foreground py-8 text-center">Loading templates...</div>
+        ) : approvedTemplates.length === 0 ? (
+          <div className="text-muted-foreground py-8 text-center text-sm">
+            <p>There are no approved templates for this business yet.</p>
+            {hasPermission("whatsapp:edit") && (
+              <Link to={`/businesses/${businessId}/templates`} className="underline">
+                Manage templates
+              </Link>
+            )}
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-3">
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {approvedTemplates.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name} ({item.language})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {renderValueInputs("Header", headerCount, headerValues, setHeaderValues)}
+              {renderValueInputs("Body", bodyCount, bodyValues, setBodyValues)}
+            </div>
+            {template && (
+              <TemplatePreview
+                headerText={template.header_text}
+                bodyText={template.body_text}
+                footerText={template.footer_text}
+                buttons={template.buttons}
+                headerValues={headerValues}
+                bodyValues={bodyValues}
+              />
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={sendMessage.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={!isComplete || sendMessage.isPending}>
+            <Send className="w-4 h-4 mr-1" />
+            {sendMessage.isPending ? "Sending..." : "Send"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,129 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+import { Inbox, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useEscalations } from "@/hooks/use-escalations";
+import { usePagination } from "@/hooks/use-api";
+import { getTriggerLabel } from "@/lib/escalations";
+
+const ESCALATIONS_PAGE_SIZE = 25;
+
+interface EscalationLogProps {
+  businessId: number;
+  basePath: string;
+  // Only show escalations of this conversation
+  conversationId?: number;
+  onClearConversation?: () => void;
+}
+
+export const EscalationLog: React.FC<EscalationLogProps> = ({
+  businessId,
+  basePath,
+  conversationId,
+  onClearConversation,
+}) => {
+  const { page, nextPage, previousPage } = usePagination({ initialPageSize: ESCALATIONS_PAGE_SIZE });
+  const { data, isLoading, error } = useEscalations(
+    businessId,
+    { conversation_id: conversationId, page, limit: ESCALATIONS_PAGE_SIZE },
+    { keepPreviousPage: true }
+  );
+  const escalations = data?.escalations || [];
+  const totalPages = Math.max(1, Math.ceil((data?.total || 0) / ESCALATIONS_PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      {conversationId && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Showing escalations of conversation #{conversationId}</span>
+          {onClearConversation && (
+            <Button size="sm" variant="ghost" onClick={onClearConversation}>
+              <X className="h-3 w-3 mr-1" />
+              Show all
+            </Button>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-muted-foreground py-8 text-center">Loading escalations...</div>
+      ) : error ? (
+        <div className="text-destructive py-8 text-center">Error loading escalations: {error.message}</div>
+      ) : escalations.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Inbox className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>No escalations sent yet</p>
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2 font-medium">Sent</th>
+              <th className="py-2 font-medium">Conversation</th>
+              <th className="py-2 font-medium">Rule</th>
+              <th className="py-2 font-medium">Summary</th>
+              <th className="py-2 font-medium">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {escalations.map((escalation) => (
+              <tr key={escalation.id} className="border-b last:border-0 align-top">
+                <td className="py-2 pr-4 whitespace-nowrap text-muted-foreground">
+                  {format(new Date(escalation.created_at), "PP p")}
+                </td>
+                <td className="py-2 pr-4">
+                  <Link
+                    to={`${basePath}/conversations/${escalation.conversation_id}`}
+                    className="font-medium hover:underline"
+                  >
+                    {escalation.contact_name || escalation.phone_number}
+                  </Link>
+                  {escalation.contact_name && (
+                    <p className="text-xs text-muted-foreground">{escalation.phone_number}</p>
+                  )}
+                </td>
+                <td className="py-2 pr-4">
+                  <p>{escalation.rule_name}</p>
+                  <p className="text-xs text-muted-foreground">{getTriggerLabel(escalation.trigger)}</p>
+                </td>
+                <td className="py-2 pr-4">
+                  <p>{escalation.summary}</p>
+                  {escalation.matched_text && (
+                    <p className="text-xs text-muted-foreground italic">"{escalation.matched_text}"</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">To {escalation.recipients.join(", ")}</p>
+                </td>
+                <td className="py-2">
+                  {escalation.status === "sent" ? (
+                    <Badge variant="outline" className="bg-green-500/10 text-green-700 border-green-500/20">
+                      Sent
+                    </Badge>
+                  ) : (
+                    <Badge variant="destructive">Failed</Badge>
+                  )}
+                  {escalation.error && <p className="text-xs text-destructive">{escalation.error}</p>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <Button size="sm" variant="outline" onClick={previousPage} disabled={page <= 1}>
+            Previous
+          </Button>
+          <span className="text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button size="sm" variant="outline" onClick={nextPage} disabled={page >= totalPages}>
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useCreateEscalationRule, useUpdateEscalationRule } from "@/hooks/use-escalations";
+import { ESCALATION_TRIGGERS, parseEmailList } from "@/lib/escalations";
+import type { EscalationRule, EscalationRuleData } from "@/lib/services/escalation-service";
+
+const DEFAULT_COOLDOWN = 60;
+
+const splitKeywords = (text: string) =>
+  Array.from(
+    new Set(
+      text
+        .split(/[,\n]/)
+        .map((keyword) => keyword.trim())
+        .filter(Boolean)
+    )
+  );
+
+const escalationRuleSchema = z
+  .object({
+    name: z.string().min(1, "Name is required").max(100, "Name cannot exceed 100 characters"),
+    trigger: z.enum(["keyword", "negative_sentiment", "unanswered_faq", "human_request"]),
+    keywords: z.string(),
+    recipients: z.string().min(1, "Add at least one email address"),
+    include_transcript: z.boolean(),
+    pause_bot: z.boolean(),
+    cooldown_minutes: z.coerce.number().int("Use whole minutes").min(0, "Cooldown cannot be negative").max(10080),
+    enabled: z.boolean(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.trigger === "keyword" && splitKeywords(data.keywords).length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["keywords"], message: "Add at least one keyword" });
+    }
+    const { emails, invalid } = parseEmailList(data.recipients);
+    // Separators alone pass min(1) but leave nobody to email
+    if (!emails.length && !invalid.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["recipients"], message: "Add at least one email address" });
+    }
+    if (invalid.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["recipients"],
+        message: `Not a valid email address: ${invalid.join(", ")}`,
+      });
+    }
+  });
+
+type EscalationRuleFormData = z.infer<typeof escalationRuleSchema>;
+
+interface EscalationRuleFormProps {
+  businessId: number;
+  // Rule to edit; a new rule is created when omitted
+  rule?: EscalationRule | null;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const EscalationRuleForm: React.FC<EscalationRuleFormProps> = ({ businessId, rule, onSuccess, onCancel }) => {
+  const createRule = useCreateEscalationRule();
+  const updateRule = useUpdateEscalationRule();
+
+  const form = useForm<EscalationRuleFormData>({
+    resolver: zodResolver(escalationRuleSchema),
+    defaultValues: {
+      name: rule?.name || "",
+      trigger: rule?.trigger || "human_request",
+      keywords: rule?.keywords?.join(", ") || "",
+      recipients: rule?.recipients.join(", ") || "",
+      include_transcript: rule?.include_transcript ?? true,
+      pause_bot: rule?.pause_bot ?? false,
+      cooldown_minutes: rule?.cooldown_minutes ?? DEFAULT_COOLDOWN,
+      enabled: rule?.enabled ?? true,
+    },
+  });
+
+  const trigger = form.watch("trigger");
+  const isSubmitting = createRule.isPending || updateRule.isPending;
+
+  const onSubmit = async (data: EscalationRuleFormData) => {
+    const payload: EscalationRuleData = {
+      name: data.name,
+      trigger: data.trigger,
+      keywords: data.trigger === "keyword" ? splitKeywords(data.keywords) : undefined,
+      recipients: parseEmailList(data.recipients).emails,
+      include_transcript: data.include_transcript,
+      pause_bot: data.pause_bot,
+      cooldown_minutes: data.cooldown_minutes,
+      enabled: data.enabled,
+    };
+
+    try {
+      if (rule) {
+        await updateRule.mutateAsync({ businessId, ruleId: rule.id, data: payload });
+      } else {
+        await createRule.mutateAsync({ businessId, data: payload });
+      }
+      onSuccess();
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <fieldset disabled={isSubmitting} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Complaints to support team" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="trigger"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>When</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {ESCALATION_TRIGGERS.map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  {ESCALATION_TRIGGERS.find((item) => item.value === field.value)?.description}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {trigger === "keyword" && (
+            <FormField
+              control={form.control}
+              name="keywords"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Keywords</FormLabel>
+                  <FormControl>
+                    <Input placeholder="refund, cancel order, lawyer" {...field} />
+                  </FormControl>
+                  <FormDescription>Separated by commas, not case sensitive</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+
+          <FormField
+            control={form.control}
+            name="recipients"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email to</FormLabel>
+                <FormControl>
+                  <Textarea rows={2} placeholder="support@example.com, manager@example.com" {...field} />
+                </FormControl>
+                <FormDescription>Sent from the Gmail account connected in the Google integration</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="cooldown_minutes"
+            render={({ field }) => (
+              <FormItem className="max-w-xs">
+                <FormLabel>Cooldown (minutes)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} {...field} />
+                </FormControl>
+                <FormDescription>Don't email again about the same conversation within this time</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {(
+            [
+              ["include_transcript", "Include the transcript of the recent messages"],
+              ["pause_bot", "Hand the conversation over to a human (pause the bot)"],
+              ["enabled", "Rule is active"],
+            ] as const
+          ).map(([name, label]) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                  </FormControl>
+                  <FormLabel className="font-normal">{label}</FormLabel>
+                </FormItem>
+              )}
+            />
+          ))}
+        </fieldset>
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? "Saving..." : rule ? "Update Rule" : "Create Rule"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
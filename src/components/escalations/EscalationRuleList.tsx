@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { BellRing, Edit, Mail, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useDeleteEscalationRule, useEscalationRules, useUpdateEscalationRule } from "@/hooks/use-escalations";
+import { getTriggerLabel } from "@/lib/escalations";
+import type { EscalationRule } from "@/lib/services/escalation-service";
+
+interface EscalationRuleListProps {
+  businessId: number;
+  onCreate: () => void;
+  onEdit: (rule: EscalationRule) => void;
+}
+
+export const EscalationRuleList: React.FC<EscalationRuleListProps> = ({ businessId, onCreate, onEdit }) => {
+  const { data: rules = [], isLoading, error } = useEscalationRules(businessId);
+  const updateRule = useUpdateEscalationRule();
+  const deleteRule = useDeleteEscalationRule();
+  const [ruleToDelete, setRuleToDelete] = useState<EscalationRule | null>(null);
+
+  const confirmDelete = async () => {
+    if (!ruleToDelete) return;
+    try {
+      await deleteRule.mutateAsync({ businessId, ruleId: ruleToDelete.id });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+    setRuleToDelete(null);
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading escalation rules...</div>;
+  }
+
+  if (error) {
+    return <div className="text-destructive py-8 text-center">Error loading escalation rules: {error.message}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={onCreate} className="bg-primary text-primary-foreground">
+          <Plus className="h-4 w-4 mr-2" />
+          New Rule
+        </Button>
+      </div>
+
+      {rules.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <BellRing className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>No escalation rules yet. Conversations are never handed off by email.</p>
+        </div>
+      ) : (
+        <div className="divide-y rounded-lg border">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-start justify-between gap-4 p-4">
+              <div className="flex items-start gap-3 min-w-0">
+                <Checkbox
+                  className="mt-1"
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) =>
+                    updateRule.mutate({ businessId, ruleId: rule.id, data: { enabled: checked === true } })
+                  }
+                  disabled={updateRule.isPending}
+                  title={rule.enabled ? "Disable rule" : "Enable rule"}
+                />
+                <div className="min-w-0 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`font-medium ${rule.enabled ? "" : "text-muted-foreground"}`}>{rule.name}</span>
+                    <Badge variant="outline">{getTriggerLabel(rule.trigger)}</Badge>
+                    {rule.pause_bot && <Badge variant="secondary">Pauses bot</Badge>}
+                  </div>
+                  {rule.trigger === "keyword" && rule.keywords?.length ? (
+                    <p className="text-xs text-muted-foreground">Keywords: {rule.keywords.join(", ")}</p>
+                  ) : null}
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <Mail className="h-3 w-3" />
+                    {rule.recipients.join(", ")}
+                  </p>
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button size="sm" variant="outline" onClick={() => onEdit(rule)}>
+                  <Edit className="h-3 w-3 mr-1" />
+                  Edit
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => setRuleToDelete(rule)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AlertDialog open={!!ruleToDelete} onOpenChange={() => setRuleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Escalation Rule</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{ruleToDelete?.name}"? Escalations it already sent stay in the log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from "react";
+import { Edit, HelpCircle, Plus, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAirtableFAQs, useCreateFAQ, useDeleteFAQ, useFAQMatches, useUpdateFAQ } from "@/hooks/use-airtable";
+import { usePagination } from "@/hooks/use-api";
+import type { AirtableTableConfig, FAQ, FAQInput } from "@/lib/services/airtable-service";
+import { MatchScore } from "./MatchScore";
+
+const FAQ_PAGE_SIZE = 10;
+const NEW_FAQ = "new";
+
+interface FAQEditorProps {
+  initial: FAQInput;
+  // Offered when creating a record in a base with several mapped tables
+  tables?: AirtableTableConfig[];
+  saving: boolean;
+  onSave: (data: FAQInput) => void;
+  onCancel: () => void;
+}
+
+const FAQEditor: React.FC<FAQEditorProps> = ({ initial, tables = [], saving, onSave, onCancel }) => {
+  const [question, setQuestion] = useState(initial.question);
+  const [answer, setAnswer] = useState(initial.answer);
+  const [tableId, setTableId] = useState(initial.table_id || tables[0]?.table_id);
+  const canSave = question.trim() && answer.trim() && !saving;
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-muted/30 p-3">
+      {tables.length > 1 && (
+        <Select value={tableId} onValueChange={setTableId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Table" />
+          </SelectTrigger>
+          <SelectContent>
+            {tables.map((table) => (
+              <SelectItem key={table.table_id} value={table.table_id}>
+                {table.table_name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <Input value={question} onChange={(e) => setQuestion(e.target.value)} placeholder="Question" autoFocus />
+      <Textarea value={answer} onChange={(e) => setAnswer(e.target.value)} placeholder="Answer" rows={3} />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onSave({ question: question.trim(), answer: answer.trim(), table_id: tableId })}
+          disabled={!canSave}
+        >
+          {saving ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface AirtableFAQPanelProps {
+  businessId: number;
+  tables?: AirtableTableConfig[];
+}
+
+// Browse and edit the FAQ table the bot answers from, and check which FAQ a question would hit
+export const AirtableFAQPanel: React.FC<AirtableFAQPanelProps> = ({ businessId, tables = [] }) => {
+  const { data: faqs = [], isLoading, error } = useAirtableFAQs(businessId);
+  const createFAQ = useCreateFAQ();
+  const updateFAQ = useUpdateFAQ();
+  const deleteFAQ = useDeleteFAQ();
+  const { page, setPage } = usePagination({ initialPageSize: FAQ_PAGE_SIZE });
+
+  const [tab, setTab] = useState("faqs");
+  const [search, setSearch] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [faqToDelete, setFaqToDelete] = useState<FAQ | null>(null);
+  const [testInput, setTestInput] = useState("");
+  const [testQuestion, setTestQuestion] = useState("");
+  const { data: matches = [], isFetching: matching, error: matchError } = useFAQMatches(businessId, testQuestion);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return faqs;
+    return faqs.filter(
+      (faq) => faq.question?.toLowerCase().includes(term) || faq.answer?.toLowerCase().includes(term)
+    );
+  }, [faqs, search]);
+
+  const totalPages = Math.max(1, Math.ceil(filtered.length / FAQ_PAGE_SIZE));
+  const currentPage = Math.min(page, totalPages);
+  const pageItems = filtered.slice((currentPage - 1) * FAQ_PAGE_SIZE, currentPage * FAQ_PAGE_SIZE);
+
+  const handleCreate = async (data: FAQInput) => {
+    try {
+      await createFAQ.mutateAsync({ businessId, data });
+      setEditingId(null);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const handleUpdate = async (faqId: string, data: FAQInput) => {
+    try {
+      await updateFAQ.mutateAsync({ businessId, faqId, data });
+      setEditingId(null);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!faqToDelete) return;
+    try {
+      await deleteFAQ.mutateAsync({ businessId, faqId: faqToDelete.id });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+    setFaqToDelete(null);
+  };
+
+  // Jump from a match to its row in the list to tune the wording
+  const editMatch = (faqId: string) => {
+    const index = faqs.findIndex((faq) => faq.id === faqId);
+    if (index === -1) return;
+    setSearch("");
+    setPage(Math.floor(index / FAQ_PAGE_SIZE) + 1);
+    setEditingId(faqId);
+    setTab("faqs");
+  };
+
+  return (
+    <Tabs value={tab} onValueChange={setTab}>
+      <TabsList>
+        <TabsTrigger value="faqs">FAQs ({faqs.length})</TabsTrigger>
+        <TabsTrigger value="test">Test a Question</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="faqs" className="space-y-4">
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              placeholder="Search questions and answers..."
+              className="pl-9"
+            />
+          </div>
+          <Button onClick={() => setEditingId(NEW_FAQ)} disabled={editingId === NEW_FAQ}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add FAQ
+          </Button>
+        </div>
+
+        {editingId === NEW_FAQ && (
+          <FAQEditor
+            initial={{ question: "", answer: "" }}
+            tables={tables}
+            saving={createFAQ.isPending}
+            onSave={handleCreate}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+
+        {isLoading ? (
+          <div className="text-muted-foreground py-8 text-center">Loading FAQs...</div>
+        ) : error ? (
+          <div className="text-destructive py-8 text-center">Error loading FAQs: {error.message}</div>
+        ) : filtered.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <HelpCircle className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>{search ? "No FAQs match your search" : "No FAQs in this table yet"}</p>
+          </div>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {pageItems.map((faq) =>
+              editingId === faq.id ? (
+                <div key={faq.id} className="p-3">
+                  <FAQEditor
+                    initial={{ question: faq.question, answer: faq.answer, table_id: faq.table_id }}
+                    saving={updateFAQ.isPending}
+                    onSave={(data) => handleUpdate(faq.id, data)}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </div>
+              ) : (
+                <div key={faq.id} className="flex items-start justify-between gap-4 p-3">
+                  <div className="min-w-0 space-y-1">
+                    <p className="font-medium text-sm">{faq.question}</p>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{faq.answer}</p>
+                    {(faq.category || faq.tags?.length || tables.length > 1) && (
+                      <div className="flex flex-wrap gap-1">
+                        {tables.length > 1 && faq.table_name && <Badge variant="outline">{faq.table_name}</Badge>}
+                        {faq.category && <Badge variant="secondary">{faq.category}</Badge>}
+                        {faq.tags?.map((tag) => (
+                          <Badge key={tag} variant="outline" className="text-muted-foreground">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setEditingId(faq.id)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => setFaqToDelete(faq)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <Button size="sm" variant="outline" onClick={() => setPage(currentPage - 1)} disabled={currentPage <= 1}>
+              Previous
+            </Button>
+            <span className="text-muted-foreground">
+              Page {currentPage} of {totalPages}
+            </span>
+            <Button size="sm" variant="outline" onClick={() => setPage(currentPage + 1)} disabled={currentPage >= totalPages}>
+              Next
+            </Button>
+          </div>
+        )}
+      </TabsContent>
+
+      <TabsContent value="test" className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setTestQuestion(testInput.trim());
+          }}
+        >
+          <Input
+            value={testInput}
+            onChange={(e) => setTestInput(e.target.value)}
+            placeholder="Type a question the way a customer would ask it..."
+          />
+          <Button type="submit" disabled={!testInput.trim() || matching}>
+            {matching ? "Testing..." : "Test"}
+          </Button>
+        </form>
+
+        {matchError ? (
+          <div className="text-destructive py-4 text-center">Error matching FAQs: {matchError.message}</div>
+        ) : testQuestion && !matching && matches.length === 0 ? (
+          <div className="text-muted-foreground py-4 text-center">No FAQ matches this question</div>
+        ) : (
+          <div className="space-y-2">
+            {matches.map((match, index) => (
+              <div key={match.id} className="flex items-start gap-4 rounded-lg border p-3">
+                <MatchScore score={match.matchScore} />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="font-medium text-sm">
+                    {index === 0 && <span className="text-primary">Best match · </span>}
+                    {match.question}
+                  </p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{match.answer}</p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => editMatch(match.id)}>
+                  <Edit className="h-3 w-3 mr-1" />
+                  Edit
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </TabsContent>
+
+      <AlertDialog open={!!faqToDelete} onOpenChange={() => setFaqToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete FAQ</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{faqToDelete?.question}"? The record is removed from Airtable as well.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Tabs>
+  );
+};
@@ -13,10 +13,26 @@ import {
   Save,
   FileText,
   Table,
-  MessageSquare,
-  HelpCircle,
+  Search,
 } from "lucide-react";
-import { AirtableService, type AirtableConfig } from "@/lib/services/airtable-service";
+import {
+  AirtableService,
+  type AirtableConfig,
+  type AirtableTableConfig,
+  type AirtableTableSchema,
+} from "@/lib/services/airtable-service";
+import { useDiscoverAirtableSchema, useSaveAirtableTables } from "@/hooks/use-airtable";
+import { findMissingFields, isFieldMappingComplete } from "@/lib/airtable";
+import { AirtableFAQPanel } from "./AirtableFAQPanel";
+import { AirtableTableMapper } from "./AirtableTableMapper";
+
+// Configs saved before multi-table support read `question` and `answer` from a single table
+const getConfiguredTables = (config: AirtableConfig): AirtableTableConfig[] =>
+  config.tables?.length
+    ? config.tables
+    : config.table_name
+    ? [{ table_id: "", table_name: config.table_name, field_mapping: { question: "question", answer: "answer" } }]
+    : [];
 
 interface AirtableFormProps {
   businessId: number;
@@ -29,16 +45,21 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
     isIntegrated: boolean;
     access_token?: string;
     base_id?: string;
-    table_name?: string;
+    tables?: AirtableTableConfig[];
     lastUpdated?: string;
   }>({ isIntegrated: false });
 
   const [formData, setFormData] = useState({
     access_token: "",
     base_id: "",
-    table_name: "",
   });
 
+  // Tables and fields of the base, loaded on demand for the field mapping step
+  const [schema, setSchema] = useState<AirtableTableSchema[] | null>(null);
+  const [tables, setTables] = useState<AirtableTableConfig[]>([]);
+  const discoverSchema = useDiscoverAirtableSchema();
+  const saveTables = useSaveAirtableTables();
+
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
@@ -61,7 +82,7 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
           isIntegrated: true,
           access_token: data.access_token ? "••••••••••••••••" : undefined,
           base_id: data.base_id,
-          table_name: data.table_name,
+          tables: getConfiguredTables(data),
           lastUpdated: data.updated_at,
         };
 
@@ -69,7 +90,6 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
         setFormData({
           access_token: "",
           base_id: data.base_id,
-          table_name: data.table_name,
         });
       } else {
         console.log("Setting integration status to not integrated");
@@ -88,6 +108,45 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
+  const handleDiscoverTables = async () => {
+    try {
+      const discovered = await discoverSchema.mutateAsync({
+        businessId,
+        credentials: integrationStatus.isIntegrated ? undefined : formData,
+      });
+      setSchema(discovered);
+      // Start from the saved mapping; configs from before multi-table support only know the table name
+      setTables(
+        (integrationStatus.tables || []).map((table) => ({
+          ...table,
+          table_id: table.table_id || discovered.find((item) => item.name === table.table_name)?.id || "",
+        }))
+      );
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  // Drop tables that no longer exist in the base
+  const mappedTables = schema ? tables.filter((table) => schema.some((item) => item.id === table.table_id)) : [];
+  // Fields renamed or deleted in Airtable since they were mapped can't be read by the bot
+  const isMappingValid =
+    !!schema &&
+    mappedTables.length > 0 &&
+    mappedTables.every(
+      (table) => isFieldMappingComplete(table.field_mapping) && findMissingFields(table, schema).length === 0
+    );
+
+  const handleSaveTables = async () => {
+    try {
+      await saveTables.mutateAsync({ businessId, tables: mappedTables });
+      setSchema(null);
+      await fetchIntegrationStatus();
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
   const handleSaveConfig = async () => {
     try {
       setSaving(true);
@@ -95,7 +154,11 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
       setSuccess(null);
 
       console.log("Saving Airtable configuration:", formData);
-      const response = await AirtableService.saveConfig(businessId, formData);
+      const response = await AirtableService.saveConfig(businessId, {
+        ...formData,
+        table_name: mappedTables[0].table_name,
+        tables: mappedTables,
+      });
       console.log("Save response:", response);
 
       if (response.success) {
@@ -130,8 +193,9 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
         setFormData({
           access_token: "",
           base_id: "",
-          table_name: "",
         });
+        setSchema(null);
+        setTables([]);
         setSuccess("Airtable integration removed successfully");
 
         if (onSuccess) {
@@ -225,13 +289,16 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
                 </div>
               )}
 
-              {integrationStatus.table_name && (
-                <div className="flex items-center gap-2">
+              {integrationStatus.tables?.map((table) => (
+                <div key={table.table_id || table.table_name} className="flex items-center gap-2">
                   <Table className="h-4 w-4 text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">Table:</span>
-                  <span className="text-sm font-semibold text-foreground">{integrationStatus.table_name}</span>
+                  <span className="text-sm font-semibold text-foreground">{table.table_name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {table.field_mapping.question} → {table.field_mapping.answer}
+                  </span>
                 </div>
-              )}
+              ))}
 
               {integrationStatus.lastUpdated && (
                 <div className="flex items-center gap-2">
@@ -279,71 +346,75 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
                   />
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="table_name" className="text-sm font-medium">
-                    Table Name *
-                  </Label>
-                  <Input
-                    id="table_name"
-                    type="text"
-                    placeholder="FAQs"
-                    value={formData.table_name}
-                    onChange={(e) => handleInputChange("table_name", e.target.value)}
-                    className="bg-background"
-                  />
+                <div className="flex items-end">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleDiscoverTables}
+                    disabled={!formData.access_token || !formData.base_id || discoverSchema.isPending}
+                  >
+                    <Search className="h-4 w-4 mr-2" />
+                    {discoverSchema.isPending ? "Reading base..." : "Discover Tables"}
+                  </Button>
                 </div>
               </div>
             </div>
+
+            {schema && (
+              <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
+                <h3 className="text-lg font-semibold text-foreground mb-1">Tables & Fields</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Select the tables the bot answers from and the fields that hold each part of a record.
+                </p>
+                <AirtableTableMapper schema={schema} value={tables} onChange={setTables} disabled={saving} />
+              </div>
+            )}
           </div>
         )}
 
-        {/* Features Section */}
+        {/* Table Mapping */}
         {integrationStatus.isIntegrated && (
-          <div className="space-y-6">
-            <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
-              <h3 className="text-lg font-semibold text-foreground mb-4">Available Features</h3>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                  <div className="w-10 h-10 rounded-full bg-primary flex items-center justify-center">
-                    <HelpCircle className="h-5 w-5 text-white" />
-                  </div>
-                  <div className="flex-1">
-                    <span className="font-medium text-foreground">FAQ Management</span>
-                    <Badge className="ml-2 bg-primary text-white border-0 text-xs">Active</Badge>
-                  </div>
-                </div>
-
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                  <div className="w-10 h-10 rounded-full bg-primary flex items-center justify-center">
-                    <MessageSquare className="h-5 w-5 text-white" />
-                  </div>
-                  <div className="flex-1">
-                    <span className="font-medium text-foreground">Auto Responses</span>
-                    <Badge className="ml-2 bg-primary text-white border-0 text-xs">Active</Badge>
-                  </div>
-                </div>
-
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                  <div className="w-10 h-10 rounded-full bg-primary flex items-center justify-center">
-                    <Table className="h-5 w-5 text-white" />
-                  </div>
-                  <div className="flex-1">
-                    <span className="font-medium text-foreground">Real-time Sync</span>
-                    <Badge className="ml-2 bg-primary text-white border-0 text-xs">Active</Badge>
-                  </div>
-                </div>
-
-                <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                  <div className="w-10 h-10 rounded-full bg-primary flex items-center justify-center">
-                    <Database className="h-5 w-5 text-white" />
-                  </div>
-                  <div className="flex-1">
-                    <span className="font-medium text-foreground">Smart Matching</span>
-                    <Badge className="ml-2 bg-primary text-white border-0 text-xs">Active</Badge>
-                  </div>
+          <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-foreground">Tables & Fields</h3>
+              {!schema && (
+                <Button variant="outline" size="sm" onClick={handleDiscoverTables} disabled={discoverSchema.isPending}>
+                  <Search className="h-4 w-4 mr-2" />
+                  {discoverSchema.isPending ? "Reading base..." : "Edit Mapping"}
+                </Button>
+              )}
+            </div>
+            {schema ? (
+              <div className="space-y-4">
+                <AirtableTableMapper
+                  schema={schema}
+                  value={tables}
+                  onChange={setTables}
+                  disabled={saveTables.isPending}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setSchema(null)} disabled={saveTables.isPending}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSaveTables} disabled={!isMappingValid || saveTables.isPending}>
+                    {saveTables.isPending ? "Saving..." : "Save Mapping"}
+                  </Button>
                 </div>
               </div>
-            </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                The bot reads {integrationStatus.tables?.length || 0} table(s) of this base. Edit the mapping after
+                adding tables or renaming columns in Airtable.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* FAQ Management */}
+        {integrationStatus.isIntegrated && (
+          <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
+            <h3 className="text-lg font-semibold text-foreground mb-4">FAQ Management</h3>
+            <AirtableFAQPanel businessId={businessId} tables={integrationStatus.tables} />
           </div>
         )}
 
@@ -372,7 +443,7 @@ export const AirtableForm: React.FC<AirtableFormProps> = ({ businessId, onSucces
           ) : (
             <Button
               onClick={handleSaveConfig}
-              disabled={saving}
+              disabled={saving || !isMappingValid}
               size="lg"
               className="flex-1 bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-white border-0 shadow-lg hover:shadow-xl transition-all duration-200"
             >
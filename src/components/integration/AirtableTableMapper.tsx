@@ -0,0 +1,129 @@
+import React from "react";
+import { AlertCircle, Table } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { findMissingFields, guessFieldMapping, isFieldMappingComplete } from "@/lib/airtable";
+import type {
+  AirtableFieldMapping,
+  AirtableTableConfig,
+  AirtableTableSchema,
+} from "@/lib/services/airtable-service";
+
+const NONE = "none";
+
+const MAPPING_FIELDS: { key: keyof AirtableFieldMapping; label: string; required: boolean }[] = [
+  { key: "question", label: "Question", required: true },
+  { key: "answer", label: "Answer", required: true },
+  { key: "category", label: "Category", required: false },
+  { key: "tags", label: "Tags", required: false },
+];
+
+interface AirtableTableMapperProps {
+  schema: AirtableTableSchema[];
+  value: AirtableTableConfig[];
+  onChange: (tables: AirtableTableConfig[]) => void;
+  disabled?: boolean;
+}
+
+// Pick the tables of a base the bot answers from and which field holds each part of a record
+export const AirtableTableMapper: React.FC<AirtableTableMapperProps> = ({ schema, value, onChange, disabled }) => {
+  const toggleTable = (table: AirtableTableSchema, checked: boolean) => {
+    if (checked) {
+      onChange([...value, { table_id: table.id, table_name: table.name, field_mapping: guessFieldMapping(table) }]);
+    } else {
+      onChange(value.filter((item) => item.table_id !== table.id));
+    }
+  };
+
+  const updateMapping = (tableId: string, key: keyof AirtableFieldMapping, fieldName: string) => {
+    onChange(
+      value.map((item) =>
+        item.table_id === tableId
+          ? { ...item, field_mapping: { ...item.field_mapping, [key]: fieldName === NONE ? undefined : fieldName } }
+          : item
+      )
+    );
+  };
+
+  // Mapped tables that were deleted from the base since the mapping was saved
+  const missingTables = value.filter((item) => !schema.some((table) => table.id === item.table_id));
+
+  if (!schema.length) {
+    return <div className="text-muted-foreground py-4 text-center">This base has no tables</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {missingTables.map((item) => (
+        <div key={item.table_id} className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          Table "{item.table_name}" no longer exists in this base and will be removed when you save.
+        </div>
+      ))}
+
+      {schema.map((table) => {
+        const config = value.find((item) => item.table_id === table.id);
+        const missingFields = config ? findMissingFields(config, schema) : [];
+
+        return (
+          <div key={table.id} className="rounded-lg border p-4 space-y-3">
+            <div className="flex items-center gap-3">
+              <Checkbox
+                id={`airtable-table-${table.id}`}
+                checked={!!config}
+                onCheckedChange={(checked) => toggleTable(table, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={`airtable-table-${table.id}`} className="flex items-center gap-2 font-medium">
+                <Table className="h-4 w-4 text-muted-foreground" />
+                {table.name}
+              </Label>
+              <span className="text-xs text-muted-foreground">{table.fields.length} fields</span>
+            </div>
+
+            {config && (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {MAPPING_FIELDS.map(({ key, label, required }) => (
+                    <div key={key} className="space-y-1">
+                      <Label className="text-xs">
+                        {label}
+                        {required && " *"}
+                      </Label>
+                      <Select
+                        value={config.field_mapping[key] || (required ? "" : NONE)}
+                        onValueChange={(fieldName) => updateMapping(table.id, key, fieldName)}
+                        disabled={disabled}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select field" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {!required && <SelectItem value={NONE}>None</SelectItem>}
+                          {table.fields.map((field) => (
+                            <SelectItem key={field.id} value={field.name}>
+                              {field.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+                {!isFieldMappingComplete(config.field_mapping) && (
+                  <p className="text-xs text-destructive">Choose the question and answer fields of this table.</p>
+                )}
+                {missingFields.length > 0 && (
+                  <p className="text-xs text-destructive">
+                    Mapped fields not found in this table: {missingFields.join(", ")}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from "react";
+import { ChevronRight, FileText, Folder, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useDebounce } from "@/hooks/use-api";
+import { useDriveFiles } from "@/hooks/use-google";
+import type { DriveFile } from "@/lib/services/google-service";
+
+interface DriveFilePickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  businessId: number;
+  // Drive file ids that are already knowledge sources
+  addedFileIds: string[];
+  onSelect: (files: DriveFile[]) => void;
+  isSubmitting?: boolean;
+}
+
+// Browse My Drive and tick the documents and folders the bot may answer from
+export const DriveFilePicker: React.FC<DriveFilePickerProps> = ({
+  open,
+  onOpenChange,
+  businessId,
+  addedFileIds,
+  onSelect,
+  isSubmitting,
+}) => {
+  // Folders opened from the root, the last one is shown
+  const [path, setPath] = useState<DriveFile[]>([]);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<DriveFile[]>([]);
+  const debouncedSearch = useDebounce(search.trim(), 300);
+
+  const currentFolder = path[path.length - 1];
+  const {
+    data: files = [],
+    isLoading,
+    error,
+  } = useDriveFiles(
+    businessId,
+    // A search looks through the whole Drive
+    debouncedSearch ? { q: debouncedSearch } : { folder_id: currentFolder?.id },
+    { enabled: open }
+  );
+
+  const toggleFile = (file: DriveFile, checked: boolean) =>
+    setSelected((prev) => (checked ? [...prev, file] : prev.filter((item) => item.id !== file.id)));
+
+  const openFolder = (folder: DriveFile) => {
+    setSearch("");
+    setPath((prev) => [...prev, folder]);
+  };
+
+  // Start from the root with nothing ticked every time the picker is opened
+  useEffect(() => {
+    if (!open) {
+      setPath([]);
+      setSearch("");
+      setSelected([]);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Add from Google Drive</DialogTitle>
+          <DialogDescription>
+            Select documents or whole folders. New documents added to a folder later are picked up on the next sync.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Search Drive..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+
+          {!debouncedSearch && (
+            <div className="flex flex-wrap items-center gap-1 text-sm">
+              <button
+                type="button"
+                className={path.length ? "text-primary hover:underline" : "font-medium"}
+                onClick={() => setPath([])}
+              >
+                My Drive
+              </button>
+              {path.map((folder, index) => (
+                <React.Fragment key={folder.id}>
+                  <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                  <button
+                    type="button"
+                    className={index < path.length - 1 ? "text-primary hover:underline" : "font-medium"}
+                    onClick={() => setPath((prev) => prev.slice(0, index + 1))}
+                  >
+                    {folder.name}
+                  </button>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+
+          <ScrollArea className="h-80 rounded-lg border">
+            {isLoading ? (
+              <div className="text-muted-foreground py-8 text-center">Loading files...</div>
+            ) : error ? (
+              <div className="text-destructive py-8 text-center">Error loading files: {error.message}</div>
+            ) : files.length === 0 ? (
+              <div className="text-muted-foreground py-8 text-center">
+                {debouncedSearch ? "No files match your search" : "This folder is empty"}
+              </div>
+            ) : (
+              <div className="divide-y">
+                {files.map((file) => {
+                  const isAdded = addedFileIds.includes(file.id);
+                  const Icon = file.is_folder ? Folder : FileText;
+                  return (
+                    <div key={file.id} className="flex items-center gap-3 px-3 py-2">
+                      <Checkbox
+                        checked={isAdded || selected.some((item) => item.id === file.id)}
+                        onCheckedChange={(checked) => toggleFile(file, checked === true)}
+                        disabled={isAdded}
+                      />
+                      <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      {file.is_folder ? (
+                        <button
+                          type="button"
+                          className="min-w-0 flex-1 truncate text-left text-sm hover:underline"
+                          onClick={() => openFolder(file)}
+                        >
+                          {file.name}
+                        </button>
+                      ) : (
+                        <span className="min-w-0 flex-1 truncate text-sm">{file.name}</span>
+                      )}
+                      {isAdded && <span className="text-xs text-muted-foreground">Added</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSelect(selected)} disabled={!selected.length || isSubmitting}>
+            {isSubmitting ? "Adding..." : `Add ${selected.length || ""}`.trim()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
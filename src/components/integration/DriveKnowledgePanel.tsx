@@ -0,0 +1,241 @@
+import React, { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ExternalLink, FileText, Folder, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  isKnowledgeSourceIndexing,
+  useAddKnowledgeSources,
+  useKnowledgeMatches,
+  useKnowledgeSources,
+  useRemoveKnowledgeSource,
+  useSyncKnowledgeSource,
+} from "@/hooks/use-google";
+import type { DriveFile, KnowledgeSource, KnowledgeSourceStatus } from "@/lib/services/google-service";
+import { DriveFilePicker } from "./DriveFilePicker";
+import { MatchScore } from "./MatchScore";
+
+const STATUS_BADGES: Record<KnowledgeSourceStatus, { label: string; className: string }> = {
+  pending: { label: "Queued", className: "bg-muted text-muted-foreground" },
+  indexing: { label: "Indexing", className: "bg-blue-500/10 text-blue-700 border-blue-500/20" },
+  indexed: { label: "Indexed", className: "bg-green-500/10 text-green-700 border-green-500/20" },
+  failed: { label: "Failed", className: "bg-destructive/10 text-destructive border-destructive/20" },
+};
+
+interface DriveKnowledgePanelProps {
+  businessId: number;
+}
+
+// Drive documents the bot answers from, and a tester for which passage a question would hit
+export const DriveKnowledgePanel: React.FC<DriveKnowledgePanelProps> = ({ businessId }) => {
+  const { data: sources = [], isLoading, error } = useKnowledgeSources(businessId);
+  const addSources = useAddKnowledgeSources();
+  const syncSource = useSyncKnowledgeSource();
+  const removeSource = useRemoveKnowledgeSource();
+
+  const [tab, setTab] = useState("documents");
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [sourceToRemove, setSourceToRemove] = useState<KnowledgeSource | null>(null);
+  const [testInput, setTestInput] = useState("");
+  const [testQuestion, setTestQuestion] = useState("");
+  const { data: matches = [], isFetching: matching, error: matchError } = useKnowledgeMatches(businessId, testQuestion);
+
+  const indexedCount = sources.filter((source) => source.status === "indexed").length;
+
+  const handleAdd = async (files: DriveFile[]) => {
+    try {
+      await addSources.mutateAsync({ businessId, files });
+      setPickerOpen(false);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const confirmRemove = async () => {
+    if (!sourceToRemove) return;
+    try {
+      await removeSource.mutateAsync({ businessId, sourceId: sourceToRemove.id });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+    setSourceToRemove(null);
+  };
+
+  return (
+    <Tabs value={tab} onValueChange={setTab}>
+      <TabsList>
+        <TabsTrigger value="documents">Documents ({sources.length})</TabsTrigger>
+        <TabsTrigger value="test">Test a Question</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="documents" className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            The bot only reads the documents and folders listed here, and only answers from indexed ones.
+          </p>
+          <Button size="sm" onClick={() => setPickerOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add from Drive
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="text-muted-foreground py-8 text-center">Loading documents...</div>
+        ) : error ? (
+          <div className="text-destructive py-8 text-center">Error loading documents: {error.message}</div>
+        ) : sources.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <FileText className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            <p>No documents yet. Add documents or folders from Google Drive.</p>
+          </div>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {sources.map((source) => {
+              const Icon = source.is_folder ? Folder : FileText;
+              const status = STATUS_BADGES[source.status];
+              return (
+                <div key={source.id} className="flex items-start justify-between gap-4 p-3">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium truncate">{source.name}</span>
+                        <Badge variant="outline" className={status.className}>
+                          {status.label}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {source.is_folder && source.document_count !== undefined && (
+                          <>{source.document_count} documents · </>
+                        )}
+                        {source.last_synced_at
+                          ? `Synced ${formatDistanceToNow(new Date(source.last_synced_at), { addSuffix: true })}`
+                          : "Not synced yet"}
+                      </p>
+                      {source.status === "failed" && source.error && (
+                        <p className="text-xs text-destructive">{source.error}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 gap-2">
+                    {source.web_view_link && (
+                      <Button size="sm" variant="ghost" asChild>
+                        <a href={source.web_view_link} target="_blank" rel="noopener noreferrer">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => syncSource.mutate({ businessId, sourceId: source.id })}
+                      disabled={isKnowledgeSourceIndexing(source) || syncSource.isPending}
+                    >
+                      <RefreshCw className={`h-3 w-3 mr-1 ${source.status === "indexing" ? "animate-spin" : ""}`} />
+                      Re-sync
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => setSourceToRemove(source)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </TabsContent>
+
+      <TabsContent value="test" className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setTestQuestion(testInput.trim());
+          }}
+        >
+          <Input
+            value={testInput}
+            onChange={(e) => setTestInput(e.target.value)}
+            placeholder="Type a question the way a customer would ask it..."
+          />
+          <Button type="submit" disabled={!testInput.trim() || matching || !indexedCount}>
+            {matching ? "Testing..." : "Test"}
+          </Button>
+        </form>
+
+        {!indexedCount ? (
+          <div className="text-muted-foreground py-4 text-center">No indexed documents to search yet</div>
+        ) : matchError ? (
+          <div className="text-destructive py-4 text-center">Error searching documents: {matchError.message}</div>
+        ) : testQuestion && !matching && matches.length === 0 ? (
+          <div className="text-muted-foreground py-4 text-center">No document passage matches this question</div>
+        ) : (
+          <div className="space-y-2">
+            {matches.map((match, index) => (
+              <div key={`${match.file_id}-${index}`} className="flex items-start gap-4 rounded-lg border p-3">
+                <MatchScore score={match.matchScore} />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <p className="font-medium text-sm">
+                    {index === 0 && <span className="text-primary">Best match · </span>}
+                    {match.file_name}
+                  </p>
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{match.excerpt}</p>
+                </div>
+                {match.web_view_link && (
+                  <Button size="sm" variant="outline" asChild>
+                    <a href={match.web_view_link} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-3 w-3 mr-1" />
+                      Open
+                    </a>
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </TabsContent>
+
+      <DriveFilePicker
+        open={pickerOpen}
+        onOpenChange={setPickerOpen}
+        businessId={businessId}
+        addedFileIds={sources.map((source) => source.file_id)}
+        onSelect={handleAdd}
+        isSubmitting={addSources.isPending}
+      />
+
+      <AlertDialog open={!!sourceToRemove} onOpenChange={() => setSourceToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove Document</AlertDialogTitle>
+            <AlertDialogDescription>
+              The bot will stop answering from "{sourceToRemove?.name}"
+              {sourceToRemove?.is_folder && " and the documents in it"}. The file stays in Google Drive.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmRemove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Tabs>
+  );
+};
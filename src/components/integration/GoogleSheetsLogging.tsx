@@ -0,0 +1,298 @@
+import React, { useState } from "react";
+import { Eye, FileSpreadsheet, RefreshCw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useDebounce } from "@/hooks/use-api";
+import {
+  useGoogleSpreadsheets,
+  useGoogleWorksheets,
+  usePreviewSheetsRows,
+  useSaveSheetsLogging,
+} from "@/hooks/use-google";
+import { SHEETS_COLUMN_SOURCES, SHEETS_LOG_TRIGGERS, buildColumnMappings, getSheetsConfigProblem } from "@/lib/sheets";
+import type {
+  SheetsColumnMapping,
+  SheetsColumnSource,
+  SheetsLoggingConfig,
+  SheetsLogTrigger,
+} from "@/lib/services/google-service";
+
+const EMPTY_CONFIG: Partial<SheetsLoggingConfig> = {
+  enabled: true,
+  columns: [],
+  triggers: ["lead_captured"],
+};
+
+interface GoogleSheetsLoggingProps {
+  businessId: number;
+  // Settings saved on the Google config, if any
+  value?: SheetsLoggingConfig | null;
+  onSaved?: (config: SheetsLoggingConfig) => void;
+}
+
+// Append a row to a worksheet for every new lead, with the columns mapped to conversation fields
+export const GoogleSheetsLogging: React.FC<GoogleSheetsLoggingProps> = ({ businessId, value, onSaved }) => {
+  const [draft, setDraft] = useState<Partial<SheetsLoggingConfig>>(value || EMPTY_CONFIG);
+  const [spreadsheetSearch, setSpreadsheetSearch] = useState("");
+  const debouncedSearch = useDebounce(spreadsheetSearch.trim(), 300);
+
+  const {
+    data: spreadsheets = [],
+    isLoading: spreadsheetsLoading,
+    error: spreadsheetsError,
+  } = useGoogleSpreadsheets(businessId, debouncedSearch);
+  const { data: worksheets = [], isLoading: worksheetsLoading } = useGoogleWorksheets(
+    businessId,
+    draft.spreadsheet_id || null
+  );
+  const previewRows = usePreviewSheetsRows();
+  const saveSheetsLogging = useSaveSheetsLogging();
+
+  const update = (changes: Partial<SheetsLoggingConfig>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+    previewRows.reset();
+  };
+
+  const selectSpreadsheet = (spreadsheetId: string) => {
+    const spreadsheet = spreadsheets.find((item) => item.id === spreadsheetId);
+    update({
+      spreadsheet_id: spreadsheetId,
+      spreadsheet_name: spreadsheet?.name || "",
+      worksheet_id: undefined,
+      worksheet_name: undefined,
+      columns: [],
+    });
+  };
+
+  const selectWorksheet = (worksheetId: string) => {
+    const worksheet = worksheets.find((item) => item.id === Number(worksheetId));
+    if (!worksheet) return;
+    update({
+      worksheet_id: worksheet.id,
+      worksheet_name: worksheet.title,
+      columns: buildColumnMappings(worksheet.headers, draft.columns),
+    });
+  };
+
+  const updateColumn = (index: number, changes: Partial<SheetsColumnMapping>) =>
+    update({ columns: draft.columns.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)) });
+
+  const toggleTrigger = (trigger: SheetsLogTrigger, checked: boolean) =>
+    update({
+      triggers: checked
+        ? [...(draft.triggers || []), trigger]
+        : (draft.triggers || []).filter((item) => item !== trigger),
+    });
+
+  // The header row was edited in the sheet after the mapping was saved
+  const selectedWorksheet = worksheets.find((item) => item.id === draft.worksheet_id);
+  const headersChanged =
+    !!selectedWorksheet &&
+    selectedWorksheet.headers.filter((header) => header.trim()).join("\n") !==
+      (draft.columns || []).map((mapping) => mapping.column).join("\n");
+
+  const problem = getSheetsConfigProblem(draft);
+
+  const handlePreview = async () => {
+    try {
+      await previewRows.mutateAsync({ businessId, columns: draft.columns });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const handleSave = async () => {
+    const config = draft as SheetsLoggingConfig;
+    try {
+      await saveSheetsLogging.mutateAsync({ businessId, sheetsLogging: config });
+      onSaved?.(config);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  // Spreadsheet names come from the list, but a saved one may not be in the current search results
+  const spreadsheetOptions =
+    draft.spreadsheet_id && !spreadsheets.some((item) => item.id === draft.spreadsheet_id)
+      ? [{ id: draft.spreadsheet_id, name: draft.spreadsheet_name || draft.spreadsheet_id }, ...spreadsheets]
+      : spreadsheets;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Spreadsheet</Label>
+          <Input
+            placeholder="Search spreadsheets..."
+            value={spreadsheetSearch}
+            onChange={(e) => setSpreadsheetSearch(e.target.value)}
+          />
+          <Select value={draft.spreadsheet_id || ""} onValueChange={selectSpreadsheet}>
+            <SelectTrigger>
+              <SelectValue placeholder={spreadsheetsLoading ? "Loading spreadsheets..." : "Select spreadsheet"} />
+            </SelectTrigger>
+            <SelectContent>
+              {spreadsheetOptions.map((spreadsheet) => (
+                <SelectItem key={spreadsheet.id} value={spreadsheet.id}>
+                  {spreadsheet.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {spreadsheetsError && (
+            <p className="text-xs text-destructive">Error loading spreadsheets: {spreadsheetsError.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Worksheet</Label>
+          <Select
+            value={draft.worksheet_id !== undefined ? String(draft.worksheet_id) : ""}
+            onValueChange={selectWorksheet}
+            disabled={!draft.spreadsheet_id || worksheetsLoading}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder={worksheetsLoading ? "Loading worksheets..." : "Select worksheet"} />
+            </SelectTrigger>
+            <SelectContent>
+              {worksheets.map((worksheet) => (
+                <SelectItem key={worksheet.id} value={String(worksheet.id)}>
+                  {worksheet.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">Rows are appended below the header row of this worksheet</p>
+        </div>
+      </div>
+
+      {draft.worksheet_id !== undefined && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <h4 className="font-medium">Columns</h4>
+            {headersChanged && (
+              <Button size="sm" variant="outline" onClick={() => selectWorksheet(String(draft.worksheet_id))}>
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Update from header row
+              </Button>
+            )}
+          </div>
+          {!draft.columns?.length ? (
+            <div className="text-center py-4 text-muted-foreground">
+              <FileSpreadsheet className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <p>Add a header row to the worksheet, e.g. Phone, Name, Email</p>
+            </div>
+          ) : (
+            <div className="divide-y rounded-lg border">
+              {draft.columns.map((mapping, index) => (
+                <div key={mapping.column} className="grid grid-cols-3 items-center gap-3 p-3">
+                  <span className="text-sm font-medium truncate">{mapping.column}</span>
+                  <Select
+                    value={mapping.source}
+                    onValueChange={(source) => updateColumn(index, { source: source as SheetsColumnSource })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SHEETS_COLUMN_SOURCES.map((source) => (
+                        <SelectItem key={source.value} value={source.value}>
+                          {source.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {mapping.source === "captured_field" && (
+                    <Input
+                      placeholder="Field, e.g. email"
+                      value={mapping.field || ""}
+                      onChange={(e) => updateColumn(index, { field: e.target.value })}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="font-medium">Add a row when</h4>
+        {SHEETS_LOG_TRIGGERS.map((trigger) => (
+          <div key={trigger.value} className="flex items-start gap-2">
+            <Checkbox
+              id={`sheets-trigger-${trigger.value}`}
+              className="mt-0.5"
+              checked={draft.triggers?.includes(trigger.value)}
+              onCheckedChange={(checked) => toggleTrigger(trigger.value, checked === true)}
+            />
+            <Label htmlFor={`sheets-trigger-${trigger.value}`} className="font-normal">
+              {trigger.label}
+              <span className="block text-xs text-muted-foreground">{trigger.description}</span>
+            </Label>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="sheets-enabled"
+          checked={draft.enabled}
+          onCheckedChange={(checked) => update({ enabled: checked === true })}
+        />
+        <Label htmlFor="sheets-enabled" className="font-normal">
+          Log leads to this worksheet
+        </Label>
+      </div>
+
+      {previewRows.data && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Preview</h4>
+          {previewRows.data.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No conversations yet to build sample rows from</p>
+          ) : (
+            <div className="overflow-x-auto rounded-lg border">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    {previewRows.data.headers.map((header) => (
+                      <th key={header} className="p-2 font-medium whitespace-nowrap">
+                        {header}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {previewRows.data.rows.map((row, rowIndex) => (
+                    <tr key={rowIndex} className="border-b last:border-0">
+                      {row.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="p-2 max-w-xs truncate">
+                          {cell || <span className="text-muted-foreground">—</span>}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        {problem && <p className="mr-auto text-sm text-muted-foreground">{problem}</p>}
+        <Button variant="outline" onClick={handlePreview} disabled={!draft.columns?.length || previewRows.isPending}>
+          <Eye className="h-4 w-4 mr-2" />
+          {previewRows.isPending ? "Loading..." : "Preview Rows"}
+        </Button>
+        <Button onClick={handleSave} disabled={!!problem || saveSheetsLogging.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {saveSheetsLogging.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+};
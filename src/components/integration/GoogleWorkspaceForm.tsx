@@ -4,6 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   CheckCircle,
   ExternalLink,
@@ -13,8 +14,30 @@ import {
   Calendar,
   FileSpreadsheet,
   HardDrive,
+  ShieldCheck,
 } from "lucide-react";
-import { GoogleService, type GoogleWorkspaceConfig } from "@/lib/services/google-service";
+import {
+  GoogleService,
+  type GoogleWorkspaceConfig,
+  type SheetsLoggingConfig,
+} from "@/lib/services/google-service";
+import {
+  GOOGLE_SERVICES,
+  describeGoogleScope,
+  getGoogleService,
+  getGrantedServices,
+  getScopesForServices,
+  type GoogleServiceId,
+} from "@/lib/google";
+import { GoogleSheetsLogging } from "./GoogleSheetsLogging";
+import { DriveKnowledgePanel } from "./DriveKnowledgePanel";
+
+const SERVICE_ICONS: Record<GoogleServiceId, React.ComponentType<{ className?: string }>> = {
+  gmail: Mail,
+  calendar: Calendar,
+  sheets: FileSpreadsheet,
+  drive: HardDrive,
+};
 
 // Interface for the integration status response from backend
 interface GoogleIntegrationStatus {
@@ -22,6 +45,8 @@ interface GoogleIntegrationStatus {
   isIntegrated: boolean;
   email: string;
   lastUpdated: string;
+  scopes?: string[];
+  sheets_logging?: SheetsLoggingConfig | null;
 }
 
 interface GoogleWorkspaceFormProps {
@@ -35,9 +60,14 @@ export const GoogleWorkspaceForm: React.FC<GoogleWorkspaceFormProps> = ({ busine
     isIntegrated: boolean;
     email?: string;
     lastUpdated?: string;
-    services?: Record<string, boolean>;
+    scopes?: string[];
+    sheetsLogging?: SheetsLoggingConfig | null;
   }>({ isIntegrated: false });
 
+  // Services ticked for the next consent, and the ones asked for in the last one
+  const [selectedServices, setSelectedServices] = useState<GoogleServiceId[]>([]);
+  const [requestedServices, setRequestedServices] = useState<GoogleServiceId[]>([]);
+
   const [loading, setLoading] = useState(false);
   const [disLoading, setDisLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -59,12 +89,8 @@ export const GoogleWorkspaceForm: React.FC<GoogleWorkspaceFormProps> = ({ busine
           isIntegrated: data.isIntegrated,
           email: data.email,
           lastUpdated: data.lastUpdated,
-          services: {
-            gmail: true,
-            calendar: true,
-            drive: true,
-            sheets: true,
-          },
+          scopes: data.scopes || [],
+          sheetsLogging: data.sheets_logging || null,
         };
 
         console.log("Setting integration status:", newStatus); // Debug log
@@ -82,14 +108,16 @@ export const GoogleWorkspaceForm: React.FC<GoogleWorkspaceFormProps> = ({ busine
     }
   };
 
-  const handleGoogleAuth = async () => {
+  const handleGoogleAuth = async (services: GoogleServiceId[], incremental = false) => {
     try {
       setLoading(true);
       setError(null);
 
-      // Get OAuth URL directly from the API
-      const response = await fetch(`/api/google/auth/${businessId}`);
-      const res = await response.json();
+      // Ask only for the scopes of the selected services
+      const res = await GoogleService.getAuthUrl(businessId, {
+        scopes: getScopesForServices(services),
+        incremental,
+      });
 
       if (res.success && res.data) {
         // Calculate center position
@@ -103,10 +131,13 @@ export const GoogleWorkspaceForm: React.FC<GoogleWorkspaceFormProps> = ({ busine
           `width=500,height=600,scrollbars=yes,resizable=yes,left=${left},top=${top}`
         );
 
+        setRequestedServices(services);
+
         // Listen for OAuth completion
         const checkClosed = setInterval(() => {
           if (popup?.closed) {
             clearInterval(checkClosed);
+            setSelectedServices([]);
             // Refresh integration status after OAuth completion
             fetchIntegrationStatus();
           }
@@ -146,6 +177,54 @@ export const GoogleWorkspaceForm: React.FC<GoogleWorkspaceFormProps> = ({ busine
     fetchIntegrationStatus();
   }, [businessId]);
 
+  const grantedServices = getGrantedServices(integrationStatus.scopes);
+  // Reconnecting is a fresh consent, so when the granted scopes are unknown every service is asked for again
+  const reconnectServices = integrationStatus.scopes?.length
+    ? grantedServices
+    : GOOGLE_SERVICES.map((service) => service.id);
+  // Services unticked on Google's consent screen during the last authorization
+  const deniedServices = integrationStatus.isIntegrated
+    ? requestedServices.filter((service) => !grantedServices.includes(service))
+    : [];
+
+  const toggleService = (service: GoogleServiceId, checked: boolean) =>
+    setSelectedServices((prev) => (checked ? [...prev, service] : prev.filter((item) => item !== service)));
+
+  const renderServiceOption = (service: (typeof GOOGLE_SERVICES)[number]) => {
+    const Icon = SERVICE_ICONS[service.id];
+    const isGranted = grantedServices.includes(service.id);
+
+    return (
+      <label
+        key={service.id}
+        htmlFor={`google-service-${service.id}`}
+        className={`flex items-center gap-3 p-3 rounded-lg border ${
+          isGranted ? "bg-primary/10 border-primary/20" : "border-border/50 cursor-pointer hover:bg-accent/30"
+        }`}
+      >
+        {!isGranted && (
+          <Checkbox
+            id={`google-service-${service.id}`}
+            checked={selectedServices.includes(service.id)}
+            onCheckedChange={(checked) => toggleService(service.id, checked === true)}
+          />
+        )}
+        <div
+          className={`w-10 h-10 rounded-full flex items-center justify-center ${
+            isGranted ? "bg-primary" : "bg-muted"
+          }`}
+        >
+          <Icon className={`h-5 w-5 ${isGranted ? "text-white" : "text-muted-foreground"}`} />
+        </div>
+        <div className="flex-1 text-left">
+          <span className="font-medium text-foreground">{service.name}</span>
+          {isGranted && <Badge className="ml-2 bg-primary text-white border-0 text-xs">Granted</Badge>}
+          <p className="text-xs text-muted-foreground">{service.description}</p>
+        </div>
+      </label>
+    );
+  };
+
   return (
     <Card>
       <CardHeader className="pb-6 border-b border-border/50">
@@ -214,51 +293,81 @@ export const GoogleWorkspaceForm: React.FC<GoogleWorkspaceFormProps> = ({ busine
         <div className="space-y-6">
           {integrationStatus.isIntegrated ? (
             <div className="space-y-6">
-              {/* Available Services Grid */}
+              {deniedServices.length > 0 && (
+                <Alert variant="destructive" className="border-destructive/50 bg-destructive/10">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription className="text-destructive font-medium">
+                    Google did not grant access to{" "}
+                    {deniedServices.map((id) => getGoogleService(id)?.name).join(", ")}.
+                    Select it again and keep its permission ticked on the consent screen.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {/* Services Grid */}
               <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
-                <h3 className="text-lg font-semibold text-foreground mb-4">Available Services</h3>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                    <div className="w-10 h-10 rounded-full bg-primary flex items-center justify-center">
-                      <Mail className="h-5 w-5 text-white" />
-                    </div>
-                    <div className="flex-1">
-                      <span className="font-medium text-foreground">Gmail</span>
-                      <Badge className="ml-2 bg-primary text-white border-0 text-xs">Available</Badge>
-                    </div>
+                <h3 className="text-lg font-semibold text-foreground mb-4">Services</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">{GOOGLE_SERVICES.map(renderServiceOption)}</div>
+                {grantedServices.length < GOOGLE_SERVICES.length && (
+                  <div className="flex items-center justify-between gap-4 mt-4">
+                    <p className="text-sm text-muted-foreground">
+                      Select services to add. Google only asks for the new permissions.
+                    </p>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleGoogleAuth(selectedServices, true)}
+                      disabled={loading || !selectedServices.length}
+                    >
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Grant Access
+                    </Button>
                   </div>
+                )}
+              </div>
 
-                  <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                    <div className="w-10 h-10 rounded-full bg-primary flex items-center justify-center">
-                      <Calendar className="h-5 w-5 text-white" />
-                    </div>
-                    <div className="flex-1">
-                      <span className="font-medium text-foreground">Calendar</span>
-                      <Badge className="ml-2 bg-primary text-white border-0 text-xs">Available</Badge>
-                    </div>
-                  </div>
+              {/* Sheets Lead Logging */}
+              {grantedServices.includes("sheets") && (
+                <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
+                  <h3 className="text-lg font-semibold text-foreground">Lead Logging</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Add a row to a Google Sheet for new conversations and captured leads
+                  </p>
+                  <GoogleSheetsLogging
+                    businessId={businessId}
+                    value={integrationStatus.sheetsLogging}
+                    onSaved={(sheetsLogging) => setIntegrationStatus((prev) => ({ ...prev, sheetsLogging }))}
+                  />
+                </div>
+              )}
 
-                  <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                    <div className="w-10 h-10 rounded-full bg-primary flex items-center justify-center">
-                      <FileSpreadsheet className="h-5 w-5 text-white" />
-                    </div>
-                    <div className="flex-1">
-                      <span className="font-medium text-foreground">Sheets</span>
-                      <Badge className="ml-2 bg-primary text-white border-0 text-xs">Available</Badge>
-                    </div>
-                  </div>
+              {/* Drive Knowledge Documents */}
+              {grantedServices.includes("drive") && (
+                <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
+                  <h3 className="text-lg font-semibold text-foreground">Knowledge Documents</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Google Drive documents the bot may use to answer questions
+                  </p>
+                  <DriveKnowledgePanel businessId={businessId} />
+                </div>
+              )}
 
-                  <div className="flex items-center gap-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                    <div className="w-10 h-10 rounded-full bg-primary flex items-center justify-center">
-                      <HardDrive className="h-5 w-5 text-white" />
-                    </div>
-                    <div className="flex-1">
-                      <span className="font-medium text-foreground">Drive</span>
-                      <Badge className="ml-2 bg-primary text-white border-0 text-xs">Available</Badge>
-                    </div>
-                  </div>
+              {/* Granted Scopes */}
+              {!!integrationStatus.scopes?.length && (
+                <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
+                  <h3 className="text-lg font-semibold text-foreground mb-4">Granted Permissions</h3>
+                  <ul className="space-y-2">
+                    {integrationStatus.scopes.map((scope) => (
+                      <li key={scope} className="flex items-start gap-2 text-sm">
+                        <ShieldCheck className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                        <div>
+                          <span className="text-foreground">{describeGoogleScope(scope)}</span>
+                          <p className="text-xs text-muted-foreground font-mono break-all">{scope}</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
                 </div>
-              </div>
+              )}
 
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-3">
@@ -283,7 +392,7 @@ export const GoogleWorkspaceForm: React.FC<GoogleWorkspaceFormProps> = ({ busine
                 </Button>
 
                 <Button
-                  onClick={handleGoogleAuth}
+                  onClick={() => handleGoogleAuth(reconnectServices)}
                   disabled={loading}
                   size="lg"
                   className="flex-1 bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-white border-0 shadow-lg hover:shadow-xl transition-all duration-200"
@@ -311,13 +420,18 @@ export const GoogleWorkspaceForm: React.FC<GoogleWorkspaceFormProps> = ({ busine
               <div className="space-y-2">
                 <h3 className="text-lg font-semibold text-foreground">Connect Google Workspace</h3>
                 <p className="text-muted-foreground max-w-md mx-auto">
-                  Connect your Google Workspace account to start using Gmail, Calendar, Drive, and Sheets integration.
+                  Choose the services the bot may use. Google asks you to approve only their permissions, and you can
+                  add more later.
                 </p>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-w-2xl mx-auto">
+                {GOOGLE_SERVICES.map(renderServiceOption)}
+              </div>
+
               <Button
-                onClick={handleGoogleAuth}
-                disabled={loading}
+                onClick={() => handleGoogleAuth(selectedServices)}
+                disabled={loading || !selectedServices.length}
                 size="lg"
                 className="bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-white border-0 shadow-lg hover:shadow-xl transition-all duration-200 px-8"
               >
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useHubSpotDealSettings, useHubSpotPipelines, useUpdateHubSpotDealSettings } from "@/hooks/use-hubspot";
+import { BOT_INTENTS, findDealStage } from "@/lib/hubspot";
+import type { HubSpotDealSettings as HubSpotDealSettingsData } from "@/lib/services/hubspot-service";
+import { HubSpotStagePicker } from "./HubSpotStagePicker";
+
+const CUSTOM_INTENT = "custom";
+
+const EMPTY_SETTINGS: HubSpotDealSettingsData = { intent_mappings: [] };
+
+interface HubSpotDealSettingsProps {
+  businessId: number;
+}
+
+// Default pipeline and stage for new deals, and the stage each bot intent moves a deal to
+export const HubSpotDealSettings: React.FC<HubSpotDealSettingsProps> = ({ businessId }) => {
+  const { data: pipelines = [], isLoading: pipelinesLoading, error: pipelinesError } = useHubSpotPipelines(businessId);
+  const { data: savedSettings, isLoading: settingsLoading } = useHubSpotDealSettings(businessId);
+  const updateSettings = useUpdateHubSpotDealSettings();
+  const [settings, setSettings] = useState<HubSpotDealSettingsData>(EMPTY_SETTINGS);
+  // Rows whose intent is typed rather than picked from BOT_INTENTS
+  const [customRows, setCustomRows] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    if (!savedSettings) return;
+    setSettings(savedSettings);
+    setCustomRows(
+      new Set(
+        savedSettings.intent_mappings
+          .map((mapping, index) => (BOT_INTENTS.some((item) => item.value === mapping.intent) ? -1 : index))
+          .filter((index) => index >= 0)
+      )
+    );
+  }, [savedSettings]);
+
+  const mappings = settings.intent_mappings;
+
+  const updateMapping = (index: number, changes: Partial<HubSpotDealSettingsData["intent_mappings"][number]>) =>
+    setSettings((prev) => ({
+      ...prev,
+      intent_mappings: prev.intent_mappings.map((mapping, i) => (i === index ? { ...mapping, ...changes } : mapping)),
+    }));
+
+  const addMapping = () => {
+    const unused = BOT_INTENTS.find((item) => !mappings.some((mapping) => mapping.intent === item.value));
+    setSettings((prev) => ({
+      ...prev,
+      intent_mappings: [
+        ...prev.intent_mappings,
+        {
+          intent: unused?.value || "",
+          pipeline_id: prev.default_pipeline_id || "",
+          stage_id: prev.default_stage_id || "",
+        },
+      ],
+    }));
+    if (!unused) setCustomRows((prev) => new Set(prev).add(mappings.length));
+  };
+
+  const removeMapping = (index: number) => {
+    setSettings((prev) => ({ ...prev, intent_mappings: prev.intent_mappings.filter((_, i) => i !== index) }));
+    setCustomRows(
+      (prev) => new Set([...prev].filter((row) => row !== index).map((row) => (row > index ? row - 1 : row)))
+    );
+  };
+
+  const selectIntent = (index: number, intent: string) => {
+    setCustomRows((prev) => {
+      const next = new Set(prev);
+      if (intent === CUSTOM_INTENT) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+    updateMapping(index, { intent: intent === CUSTOM_INTENT ? "" : intent });
+  };
+
+  // Saved stages that were deleted or moved in HubSpot since
+  const invalidRows = mappings
+    .map((mapping, index) => (findDealStage(pipelines, mapping.pipeline_id, mapping.stage_id) ? -1 : index))
+    .filter((index) => index >= 0);
+  const intents = mappings.map((mapping) => mapping.intent.trim());
+  const hasDuplicateIntents = new Set(intents).size !== intents.length;
+  const hasInvalidDefault =
+    !!settings.default_pipeline_id &&
+    !findDealStage(pipelines, settings.default_pipeline_id, settings.default_stage_id);
+  const canSave =
+    !invalidRows.length && !hasDuplicateIntents && !hasInvalidDefault && intents.every((intent) => !!intent);
+
+  const handleSave = async () => {
+    try {
+      await updateSettings.mutateAsync({
+        businessId,
+        settings: {
+          ...settings,
+          intent_mappings: mappings.map((mapping) => ({ ...mapping, intent: mapping.intent.trim() })),
+        },
+      });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  if (pipelinesLoading || settingsLoading) {
+    return <div className="text-muted-foreground py-4 text-center">Loading pipelines...</div>;
+  }
+
+  if (pipelinesError) {
+    return <div className="text-destructive py-4 text-center">Error loading pipelines: {pipelinesError.message}</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label>Default stage for new deals</Label>
+        <HubSpotStagePicker
+          pipelines={pipelines}
+          value={{ pipeline_id: settings.default_pipeline_id, stage_id: settings.default_stage_id }}
+          onChange={({ pipeline_id, stage_id }) =>
+            setSettings((prev) => ({ ...prev, default_pipeline_id: pipeline_id, default_stage_id: stage_id }))
+          }
+        />
+        {hasInvalidDefault && <p className="text-xs text-destructive">This stage no longer exists in HubSpot.</p>}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label>Intent mapping</Label>
+            <p className="text-xs text-muted-foreground">
+              When the bot detects an intent, the conversation's open deal moves to the mapped stage
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={addMapping}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add Intent
+          </Button>
+        </div>
+
+        {mappings.length === 0 ? (
+          <div className="text-muted-foreground py-4 text-center text-sm">No intents mapped yet</div>
+        ) : (
+          <div className="divide-y rounded-lg border">
+            {mappings.map((mapping, index) => (
+              <div key={index} className="space-y-2 p-3">
+                <div className="grid grid-cols-1 md:grid-cols-[minmax(0,1fr)_minmax(0,2fr)_auto] items-center gap-2">
+                  {customRows.has(index) ? (
+                    <Input
+                      placeholder="Intent name"
+                      value={mapping.intent}
+                      onChange={(e) => updateMapping(index, { intent: e.target.value })}
+                    />
+                  ) : (
+                    <Select value={mapping.intent} onValueChange={(intent) => selectIntent(index, intent)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select intent" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BOT_INTENTS.map((item) => (
+                          <SelectItem key={item.value} value={item.value}>
+                            {item.label}
+                          </SelectItem>
+                        ))}
+                        <SelectItem value={CUSTOM_INTENT}>Other...</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <HubSpotStagePicker
+                    pipelines={pipelines}
+                    value={{ pipeline_id: mapping.pipeline_id, stage_id: mapping.stage_id }}
+                    onChange={({ pipeline_id, stage_id }) =>
+                      updateMapping(index, { pipeline_id: pipeline_id || "", stage_id: stage_id || "" })
+                    }
+                  />
+                  <Button size="sm" variant="ghost" onClick={() => removeMapping(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                {invalidRows.includes(index) && (
+                  <p className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertCircle className="h-3 w-3" />
+                    Choose a stage that exists in the pipeline
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {hasDuplicateIntents && <p className="text-xs text-destructive">Each intent can only be mapped once.</p>}
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={!canSave || updateSettings.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {updateSettings.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+};
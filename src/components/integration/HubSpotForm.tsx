@@ -6,6 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { CheckCircle, ExternalLink, Trash2, AlertCircle, Users, Building, TrendingUp, FileText } from "lucide-react";
 import { HubSpotService, type HubSpotConfig } from "@/lib/services/hubspot-service";
+import { HubSpotSyncSettings } from "./HubSpotSyncSettings";
+import { HubSpotDealSettings } from "./HubSpotDealSettings";
 
 // Interface for the integration status response from backend
 interface HubSpotIntegrationStatus {
@@ -283,6 +285,26 @@ export const HubSpotForm: React.FC<HubSpotFormProps> = ({ businessId, onSuccess,
                 </div>
               </div>
 
+              {/* Contact Sync */}
+              <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
+                <h3 className="text-lg font-semibold text-foreground">Contact Sync</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Link WhatsApp customers to HubSpot contacts. Operators can also link a conversation by hand from
+                  Conversations.
+                </p>
+                <HubSpotSyncSettings businessId={businessId} />
+              </div>
+
+              {/* Deals */}
+              <div className="bg-gradient-to-br from-secondary/5 to-accent/5 rounded-xl p-6 border border-border/30">
+                <h3 className="text-lg font-semibold text-foreground">Deals</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Choose where new deals start in your pipelines and which stage each customer intent moves them to.
+                  Deals are created from Conversations.
+                </p>
+                <HubSpotDealSettings businessId={businessId} />
+              </div>
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row gap-3">
                 <Button
@@ -0,0 +1,64 @@
+import React from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { sortStages } from "@/lib/hubspot";
+import type { HubSpotPipeline } from "@/lib/services/hubspot-service";
+
+export interface HubSpotStageValue {
+  pipeline_id?: string;
+  stage_id?: string;
+}
+
+interface HubSpotStagePickerProps {
+  pipelines: HubSpotPipeline[];
+  value: HubSpotStageValue;
+  onChange: (value: HubSpotStageValue) => void;
+  disabled?: boolean;
+}
+
+// Pipeline and stage of the portal, so a deal can only be given a stage that exists in its pipeline
+export const HubSpotStagePicker: React.FC<HubSpotStagePickerProps> = ({ pipelines, value, onChange, disabled }) => {
+  const pipeline = pipelines.find((item) => item.id === value.pipeline_id);
+  const stages = pipeline ? sortStages(pipeline.stages) : [];
+
+  // A new pipeline starts at its first stage
+  const selectPipeline = (pipelineId: string) => {
+    const selected = pipelines.find((item) => item.id === pipelineId);
+    onChange({ pipeline_id: pipelineId, stage_id: selected ? sortStages(selected.stages)[0]?.id : undefined });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <Select value={pipeline ? pipeline.id : ""} onValueChange={selectPipeline} disabled={disabled}>
+        <SelectTrigger>
+          <SelectValue placeholder="Select pipeline" />
+        </SelectTrigger>
+        <SelectContent>
+          {pipelines.map((item) => (
+            <SelectItem key={item.id} value={item.id}>
+              {item.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={stages.some((stage) => stage.id === value.stage_id) ? value.stage_id : ""}
+        onValueChange={(stageId) => onChange({ pipeline_id: value.pipeline_id, stage_id: stageId })}
+        disabled={disabled || !pipeline}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select stage" />
+        </SelectTrigger>
+        <SelectContent>
+          {stages.map((stage) => (
+            <SelectItem key={stage.id} value={stage.id}>
+              {stage.label}
+              {stage.probability !== undefined && (
+                <span className="ml-1 text-muted-foreground">({Math.round(stage.probability * 100)}%)</span>
+              )}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from "react";
+import { Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useHubSpotSyncSettings, useUpdateHubSpotSyncSettings } from "@/hooks/use-hubspot";
+import type { HubSpotSyncSettings as HubSpotSyncSettingsData } from "@/lib/services/hubspot-service";
+
+const DEFAULT_SETTINGS: HubSpotSyncSettingsData = {
+  enabled: false,
+  trigger: "lead_captured",
+  create_missing: true,
+};
+
+const SYNC_TRIGGERS: { value: HubSpotSyncSettingsData["trigger"]; label: string }[] = [
+  { value: "new_conversation", label: "When a new conversation starts" },
+  { value: "lead_captured", label: "When the bot captured the customer's details" },
+];
+
+interface HubSpotSyncSettingsProps {
+  businessId: number;
+}
+
+// Rule for linking WhatsApp customers to HubSpot contacts without an operator
+export const HubSpotSyncSettings: React.FC<HubSpotSyncSettingsProps> = ({ businessId }) => {
+  const { data: savedSettings, isLoading, error } = useHubSpotSyncSettings(businessId);
+  const updateSettings = useUpdateHubSpotSyncSettings();
+  const [settings, setSettings] = useState<HubSpotSyncSettingsData>(DEFAULT_SETTINGS);
+
+  useEffect(() => {
+    if (savedSettings) setSettings(savedSettings);
+  }, [savedSettings]);
+
+  const handleSave = async () => {
+    try {
+      await updateSettings.mutateAsync({ businessId, settings });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-4 text-center">Loading sync settings...</div>;
+  }
+
+  if (error) {
+    return <div className="text-destructive py-4 text-center">Error loading sync settings: {error.message}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="hubspot-auto-sync"
+          checked={settings.enabled}
+          onCheckedChange={(checked) => setSettings((prev) => ({ ...prev, enabled: checked === true }))}
+        />
+        <Label htmlFor="hubspot-auto-sync" className="font-normal">
+          Sync conversations to HubSpot contacts automatically
+        </Label>
+      </div>
+
+      <fieldset disabled={!settings.enabled} className="space-y-4 pl-6 disabled:opacity-60">
+        <Select
+          value={settings.trigger}
+          onValueChange={(trigger) =>
+            setSettings((prev) => ({ ...prev, trigger: trigger as HubSpotSyncSettingsData["trigger"] }))
+          }
+          disabled={!settings.enabled}
+        >
+          <SelectTrigger className="max-w-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SYNC_TRIGGERS.map((trigger) => (
+              <SelectItem key={trigger.value} value={trigger.value}>
+                {trigger.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-start gap-2">
+          <Checkbox
+            id="hubspot-create-missing"
+            className="mt-0.5"
+            checked={settings.create_missing}
+            onCheckedChange={(checked) => setSettings((prev) => ({ ...prev, create_missing: checked === true }))}
+          />
+          <Label htmlFor="hubspot-create-missing" className="font-normal">
+            Create a contact when none has the customer's phone number
+            <span className="block text-xs text-muted-foreground">
+              Otherwise only existing contacts are linked. Contacts are matched by phone number first, so they are never
+              duplicated.
+            </span>
+          </Label>
+        </div>
+      </fieldset>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={updateSettings.isPending}>
+          <Save className="h-4 w-4 mr-2" />
+          {updateSettings.isPending ? "Saving..." : "Save"}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,14 @@
+import React from "react";
+
+// Relevance of a knowledge match (0-1), as shown by the FAQ and Drive question testers
+export const MatchScore: React.FC<{ score: number }> = ({ score }) => {
+  const percent = Math.round(score * 100);
+  return (
+    <div className="w-24 shrink-0 space-y-1">
+      <div className="h-1.5 w-full rounded-full bg-muted">
+        <div className="h-1.5 rounded-full bg-primary" style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-xs text-muted-foreground">{percent}% match</p>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import type React from "react";
+import { GoogleWorkspaceForm } from "./GoogleWorkspaceForm";
+import { HubSpotForm } from "./HubSpotForm";
+import { OdooForm } from "./OdooForm";
+import { AirtableForm } from "./AirtableForm";
+
+export interface IntegrationFormProps {
+  businessId: number;
+  onSuccess?: () => void;
+  onCancel?: () => void;
+}
+
+export interface IntegrationProvider {
+  id: string; // route segment, e.g. /businesses/:id/integrations/google
+  name: string;
+  title: string;
+  description: string;
+  initial: string;
+  component: React.ComponentType<IntegrationFormProps>;
+}
+
+export const INTEGRATION_PROVIDERS: IntegrationProvider[] = [
+  {
+    id: "google",
+    name: "Google",
+    title: "Google Workspace Integration",
+    description: "Connect your Google Workspace account",
+    initial: "G",
+    component: GoogleWorkspaceForm,
+  },
+  {
+    id: "hubspot",
+    name: "HubSpot",
+    title: "HubSpot Integration",
+    description: "Connect your HubSpot CRM",
+    initial: "H",
+    component: HubSpotForm,
+  },
+  {
+    id: "odoo",
+    name: "Odoo",
+    title: "Odoo Integration",
+    description: "Connect your Odoo ERP system",
+    initial: "O",
+    component: OdooForm,
+  },
+  {
+    id: "airtable",
+    name: "Airtable",
+    title: "Airtable Integration",
+    description: "Connect your Airtable CRM",
+    initial: "A",
+    component: AirtableForm,
+  },
+];
+
+export const getIntegrationProvider = (id?: string) => INTEGRATION_PROVIDERS.find((provider) => provider.id === id);
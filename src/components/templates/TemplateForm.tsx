@@ -0,0 +1,428 @@
+import React from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useCreateWhatsAppTemplate } from "@/hooks/use-businesses";
+import { countTemplateVariables, toTemplateName, validateTemplateVariables } from "@/lib/whatsapp";
+import type { WhatsAppTemplateButton } from "@/lib/services/business-service";
+import { TemplatePreview } from "./TemplatePreview";
+
+// Meta limits for template components
+const MAX_HEADER_LENGTH = 60;
+const MAX_BODY_LENGTH = 1024;
+const MAX_FOOTER_LENGTH = 60;
+const MAX_BUTTONS = 3;
+
+const TEMPLATE_LANGUAGES = [
+  { value: "en_US", label: "English (US)" },
+  { value: "en_GB", label: "English (UK)" },
+  { value: "es", label: "Spanish" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+  { value: "pt_BR", label: "Portuguese (BR)" },
+  { value: "ar", label: "Arabic" },
+];
+
+const TEMPLATE_CATEGORIES = [
+  { value: "UTILITY", label: "Utility", description: "Updates about an existing order, booking or account" },
+  { value: "MARKETING", label: "Marketing", description: "Promotions, offers and announcements" },
+  { value: "AUTHENTICATION", label: "Authentication", description: "One-time passcodes" },
+] as const;
+
+const buttonSchema = z
+  .object({
+    type: z.enum(["QUICK_REPLY", "URL", "PHONE_NUMBER"]),
+    text: z.string().min(1, "Button text is required").max(25, "Button text cannot exceed 25 characters"),
+    url: z.string().optional(),
+    phone_number: z.string().optional(),
+  })
+  .superRefine((button, ctx) => {
+    if (button.type === "URL" && !z.string().url().safeParse(button.url).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["url"], message: "Please enter a valid URL" });
+    }
+    if (button.type === "PHONE_NUMBER" && !/^\+?\d{7,15}$/.test(button.phone_number || "")) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["phone_number"],
+        message: "Please enter a phone number with country code",
+      });
+    }
+  });
+
+const templateSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Name is required")
+      .max(512, "Name cannot exceed 512 characters")
+      .regex(/^[a-z0-9_]+$/, "Use lowercase letters, digits and underscores only"),
+    language: z.string().min(1, "Language is required"),
+    category: z.enum(["MARKETING", "UTILITY", "AUTHENTICATION"]),
+    header_text: z.string().max(MAX_HEADER_LENGTH, `Header cannot exceed ${MAX_HEADER_LENGTH} characters`),
+    body_text: z
+      .string()
+      .min(1, "Body is required")
+      .max(MAX_BODY_LENGTH, `Body cannot exceed ${MAX_BODY_LENGTH} characters`),
+    footer_text: z.string().max(MAX_FOOTER_LENGTH, `Footer cannot exceed ${MAX_FOOTER_LENGTH} characters`),
+    buttons: z.array(buttonSchema).max(MAX_BUTTONS),
+    header_examples: z.array(z.string()),
+    body_examples: z.array(z.string()),
+  })
+  .superRefine((data, ctx) => {
+    const checks = [
+      { text: data.header_text, field: "header_text", examples: data.header_examples, examplesField: "header_examples" },
+      { text: data.body_text, field: "body_text", examples: data.body_examples, examplesField: "body_examples" },
+    ];
+
+    checks.forEach(({ text, field, examples, examplesField }) => {
+      const error = validateTemplateVariables(text);
+      if (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: error });
+        return;
+      }
+      // Meta rejects templates without a sample value for every placeholder
+      for (let index = 0; index < countTemplateVariables(text); index++) {
+        if (!examples[index]?.trim()) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [examplesField, index], message: "Sample is required" });
+        }
+      }
+    });
+
+    if (countTemplateVariables(data.header_text) > 1) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["header_text"], message: "Header allows one placeholder" });
+    }
+  });
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+interface TemplateFormProps {
+  businessId: number;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const TemplateForm: React.FC<TemplateFormProps> = ({ businessId, onSuccess, onCancel }) => {
+  const createTemplate = useCreateWhatsAppTemplate();
+
+  const form = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: {
+      name: "",
+      language: "en_US",
+      category: "UTILITY",
+      header_text: "",
+      body_text: "",
+      footer_text: "",
+      buttons: [],
+      header_examples: [],
+      body_examples: [],
+    },
+  });
+
+  const { fields: buttonFields, append: appendButton, remove: removeButton } = useFieldArray({
+    control: form.control,
+    name: "buttons",
+  });
+
+  const [headerText, bodyText, footerText, buttons, headerExamples, bodyExamples] = form.watch([
+    "header_text",
+    "body_text",
+    "footer_text",
+    "buttons",
+    "header_examples",
+    "body_examples",
+  ]);
+  const headerVariableCount = Math.min(countTemplateVariables(headerText), 1);
+  const bodyVariableCount = countTemplateVariables(bodyText);
+
+  const onSubmit = async (data: TemplateFormData) => {
+    try {
+      await createTemplate.mutateAsync({
+        businessId,
+        data: {
+          name: data.name,
+          language: data.language,
+          category: data.category,
+          header_text: data.header_text || undefined,
+          body_text: data.body_text,
+          footer_text: data.footer_text || undefined,
+          buttons: data.buttons as WhatsAppTemplateButton[],
+          header_examples: data.header_examples.slice(0, headerVariableCount),
+          body_examples: data.body_examples.slice(0, bodyVariableCount),
+        },
+      });
+      onSuccess();
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  const renderExampleFields = (name: "header_examples" | "body_examples", count: number) =>
+    count > 0 && (
+      <div className="grid grid-cols-2 gap-2">
+        {Array.from({ length: count }, (_, index) => (
+          <FormField
+            key={index}
+            control={form.control}
+            name={`${name}.${index}`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input placeholder={`Sample for {{${index + 1}}}`} {...field} value={field.value || ""} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+      </div>
+    );
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[1fr_360px]">
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name *</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="e.g. order_update"
+                    {...field}
+                    onChange={(e) => field.onChange(toTemplateName(e.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="language"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Language</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select language" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TEMPLATE_LANGUAGES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TEMPLATE_CATEGORIES.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {TEMPLATE_CATEGORIES.find((option) => option.value === field.value)?.description}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="header_text"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Header (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Your order {{1}}" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {renderExampleFields("header_examples", headerVariableCount)}
+
+          <FormField
+            control={form.control}
+            name="body_text"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Body *</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder="Hi {{1}}, your order {{2}} has shipped."
+                    className="min-h-[120px]"
+                    {...field}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Use {"{{1}}"}, {"{{2}}"}, ... for values filled in when sending. {field.value.length}/
+                  {MAX_BODY_LENGTH}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {renderExampleFields("body_examples", bodyVariableCount)}
+
+          <FormField
+            control={form.control}
+            name="footer_text"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Footer (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Reply STOP to unsubscribe" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Buttons (Optional)</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={() => appendButton({ type: "QUICK_REPLY", text: "" })}
+                disabled={buttonFields.length >= MAX_BUTTONS}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Button
+              </Button>
+            </div>
+            {buttonFields.map((buttonField, index) => {
+              const type = buttons[index]?.type;
+              return (
+                <div key={buttonField.id} className="grid grid-cols-[140px_1fr_auto] items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`buttons.${index}.type`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="QUICK_REPLY">Quick reply</SelectItem>
+                            <SelectItem value="URL">Visit website</SelectItem>
+                            <SelectItem value="PHONE_NUMBER">Call</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </FormItem>
+                    )}
+                  />
+                  <div className="space-y-2">
+                    <FormField
+                      control={form.control}
+                      name={`buttons.${index}.text`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input placeholder="Button text" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    {type === "URL" && (
+                      <FormField
+                        control={form.control}
+                        name={`buttons.${index}.url`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="https://example.com" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                    {type === "PHONE_NUMBER" && (
+                      <FormField
+                        control={form.control}
+                        name={`buttons.${index}.phone_number`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Input placeholder="+15551234567" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                  <Button type="button" size="sm" variant="ghost" className="h-10" onClick={() => removeButton(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createTemplate.isPending}>
+              {createTemplate.isPending ? "Submitting..." : "Submit for Review"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Preview</p>
+        <TemplatePreview
+          headerText={headerText}
+          bodyText={bodyText}
+          footerText={footerText}
+          buttons={buttons as WhatsAppTemplateButton[]}
+          headerValues={headerExamples}
+          bodyValues={bodyExamples}
+        />
+      </div>
+    </div>
+  );
+};
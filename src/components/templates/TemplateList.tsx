@@ -0,0 +1,176 @@
+import React, { useState } from "react";
+import { Eye, FileText, Plus, RefreshCw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useDeleteWhatsAppTemplate, useSyncWhatsAppTemplates, useWhatsAppTemplates } from "@/hooks/use-businesses";
+import type { WhatsAppTemplate, WhatsAppTemplateStatus } from "@/lib/services/business-service";
+import { TemplatePreview } from "./TemplatePreview";
+
+const STATUS_STYLES: Record<WhatsAppTemplateStatus, { label: string; className: string }> = {
+  APPROVED: { label: "Approved", className: "bg-green-500/10 text-green-700 border-green-500/20" },
+  PENDING: { label: "In review", className: "bg-amber-500/10 text-amber-700 border-amber-500/20" },
+  REJECTED: { label: "Rejected", className: "bg-destructive/10 text-destructive border-destructive/20" },
+  PAUSED: { label: "Paused", className: "bg-muted text-muted-foreground" },
+  DISABLED: { label: "Disabled", className: "bg-muted text-muted-foreground" },
+};
+
+export const TemplateStatusBadge: React.FC<{ status: WhatsAppTemplateStatus }> = ({ status }) => {
+  const style = STATUS_STYLES[status] || STATUS_STYLES.PENDING;
+  return (
+    <Badge variant="outline" className={style.className}>
+      {style.label}
+    </Badge>
+  );
+};
+
+interface TemplateListProps {
+  businessId: number;
+  onCreate: () => void;
+}
+
+export const TemplateList: React.FC<TemplateListProps> = ({ businessId, onCreate }) => {
+  const { data: templates = [], isLoading, error } = useWhatsAppTemplates(businessId);
+  const syncTemplates = useSyncWhatsAppTemplates();
+  const deleteTemplate = useDeleteWhatsAppTemplate();
+  const [previewTemplate, setPreviewTemplate] = useState<WhatsAppTemplate | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<WhatsAppTemplate | null>(null);
+
+  const confirmDelete = async () => {
+    if (!templateToDelete) return;
+    try {
+      await deleteTemplate.mutateAsync({ businessId, templateId: templateToDelete.id });
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+    setTemplateToDelete(null);
+  };
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading templates...</div>;
+  }
+
+  if (error) {
+    return <div className="text-destructive py-8 text-center">Error loading templates: {error.message}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => syncTemplates.mutate(businessId)} disabled={syncTemplates.isPending}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${syncTemplates.isPending ? "animate-spin" : ""}`} />
+          Sync Status
+        </Button>
+        <Button onClick={onCreate} className="bg-primary text-primary-foreground">
+          <Plus className="h-4 w-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      {templates.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <FileText className="w-8 h-8 mx-auto mb-2 opacity-50" />
+          <p>No templates yet</p>
+          <p className="text-xs mt-1">Templates are needed to message customers outside the 24-hour window.</p>
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b text-left text-muted-foreground">
+              <th className="py-2 font-medium">Name</th>
+              <th className="py-2 font-medium">Category</th>
+              <th className="py-2 font-medium">Language</th>
+              <th className="py-2 font-medium">Status</th>
+              <th className="py-2 font-medium text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {templates.map((template) => (
+              <tr key={template.id} className="border-b last:border-0 align-top">
+                <td className="py-3">
+                  <p className="font-medium font-mono">{template.name}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-1">{template.body_text}</p>
+                </td>
+                <td className="py-3 capitalize">{template.category.toLowerCase()}</td>
+                <td className="py-3">{template.language}</td>
+                <td className="py-3">
+                  <TemplateStatusBadge status={template.status} />
+                  {template.status === "REJECTED" && template.rejection_reason && (
+                    <p className="text-xs text-destructive mt-1">{template.rejection_reason}</p>
+                  )}
+                </td>
+                <td className="py-3">
+                  <div className="flex justify-end gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setPreviewTemplate(template)}>
+                      <Eye className="h-3 w-3 mr-1" />
+                      Preview
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => setTemplateToDelete(template)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <Dialog open={!!previewTemplate} onOpenChange={(open) => !open && setPreviewTemplate(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{previewTemplate?.name}</DialogTitle>
+            <DialogDescription>Placeholders are shown with their sample values.</DialogDescription>
+          </DialogHeader>
+          {previewTemplate && (
+            <TemplatePreview
+              headerText={previewTemplate.header_text}
+              bodyText={previewTemplate.body_text}
+              footerText={previewTemplate.footer_text}
+              buttons={previewTemplate.buttons}
+              headerValues={previewTemplate.header_examples}
+              bodyValues={previewTemplate.body_examples}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!templateToDelete} onOpenChange={() => setTemplateToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Template</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{templateToDelete?.name}"? It is also removed from your WhatsApp
+              Business account, and the name cannot be reused for 30 days.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import React from "react";
+import { ExternalLink, Phone, Reply } from "lucide-react";
+import { renderTemplateText } from "@/lib/whatsapp";
+import type { WhatsAppTemplateButton } from "@/lib/services/business-service";
+
+interface TemplatePreviewProps {
+  headerText?: string;
+  bodyText: string;
+  footerText?: string;
+  buttons?: WhatsAppTemplateButton[];
+  headerValues?: string[];
+  bodyValues?: string[];
+}
+
+const BUTTON_ICONS: Record<WhatsAppTemplateButton["type"], React.ElementType> = {
+  QUICK_REPLY: Reply,
+  URL: ExternalLink,
+  PHONE_NUMBER: Phone,
+};
+
+// Renders a template the way a customer sees it in WhatsApp
+export const TemplatePreview: React.FC<TemplatePreviewProps> = ({
+  headerText,
+  bodyText,
+  footerText,
+  buttons = [],
+  headerValues,
+  bodyValues,
+}) => (
+  <div className="rounded-lg bg-[#e5ddd5] p-4">
+    <div className="max-w-[320px] rounded-lg bg-white shadow-sm text-sm text-gray-900">
+      <div className="p-3 space-y-1">
+        {headerText && <p className="font-semibold">{renderTemplateText(headerText, headerValues)}</p>}
+        <p className="whitespace-pre-wrap break-words">
+          {bodyText ? renderTemplateText(bodyText, bodyValues) : <span className="text-gray-400">Message body</span>}
+        </p>
+        {footerText && <p className="text-xs text-gray-500">{footerText}</p>}
+      </div>
+      {buttons.map((button, index) => {
+        const Icon = BUTTON_ICONS[button.type];
+        return (
+          <div
+            key={index}
+            className="flex items-center justify-center gap-1 border-t py-2 text-sm font-medium text-sky-600"
+          >
+            <Icon className="h-3 w-3" />
+            {button.text || "Button"}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
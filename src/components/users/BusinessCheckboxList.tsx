@@ -0,0 +1,44 @@
+import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { Business } from "@/lib/services/business-service";
+
+interface BusinessCheckboxListProps {
+  businesses: Business[];
+  value: number[];
+  onChange: (businessIds: number[]) => void;
+  disabled?: boolean;
+}
+
+export const BusinessCheckboxList: React.FC<BusinessCheckboxListProps> = ({
+  businesses,
+  value,
+  onChange,
+  disabled,
+}) => {
+  const toggle = (businessId: number, checked: boolean) => {
+    onChange(checked ? [...value, businessId] : value.filter((id) => id !== businessId));
+  };
+
+  if (businesses.length === 0) {
+    return <p className="text-sm text-muted-foreground">No businesses yet.</p>;
+  }
+
+  return (
+    <div className="max-h-60 overflow-y-auto space-y-2 rounded-md border p-3">
+      {businesses.map((business) => (
+        <div key={business.id} className="flex items-center space-x-2">
+          <Checkbox
+            id={`business_${business.id}`}
+            checked={value.includes(business.id)}
+            onCheckedChange={(checked) => toggle(business.id, checked === true)}
+            disabled={disabled}
+          />
+          <Label htmlFor={`business_${business.id}`} className="font-normal">
+            {business.name}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useInviteUser } from "@/hooks/use-users";
+import { hasPermission, USER_ROLES } from "@/lib/permissions";
+import type { Business } from "@/lib/services/business-service";
+import { BusinessCheckboxList } from "./BusinessCheckboxList";
+
+const inviteSchema = z.object({
+  username: z.string().min(3, "Username must be at least 3 characters").max(50, "Username cannot exceed 50 characters"),
+  email: z.string().email("Please enter a valid email address"),
+  role: z.enum(["admin", "operator", "agent", "viewer"]),
+  business_ids: z.array(z.number()).default([]),
+});
+
+type InviteFormData = z.infer<typeof inviteSchema>;
+
+interface InviteUserFormProps {
+  businesses: Business[];
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const InviteUserForm: React.FC<InviteUserFormProps> = ({ businesses, onSuccess, onCancel }) => {
+  const inviteUser = useInviteUser();
+
+  const form = useForm<InviteFormData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: {
+      username: "",
+      email: "",
+      role: "agent",
+      business_ids: [],
+    },
+  });
+
+  const role = form.watch("role");
+  const needsAssignment = !hasPermission(role, "businesses:all");
+
+  const onSubmit = async (data: InviteFormData) => {
+    try {
+      await inviteUser.mutateAsync({
+        username: data.username,
+        email: data.email,
+        role: data.role,
+        business_ids: needsAssignment ? data.business_ids : [],
+      });
+      onSuccess();
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username *</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email *</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="Enter email address" {...field} />
+              </FormControl>
+              <FormDescription>The invitation link to set a password is sent to this address.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Role</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {USER_ROLES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>{USER_ROLES.find((option) => option.value === field.value)?.description}</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {needsAssignment && (
+          <FormField
+            control={form.control}
+            name="business_ids"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Assigned businesses</FormLabel>
+                <BusinessCheckboxList businesses={businesses} value={field.value} onChange={field.onChange} />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={inviteUser.isPending}>
+            {inviteUser.isPending ? "Sending..." : "Send Invitation"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
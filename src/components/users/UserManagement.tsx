@@ -0,0 +1,219 @@
+import React, { useState } from "react";
+import { Ban, Building, CheckCircle, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBusinesses } from "@/hooks/use-businesses";
+import { useSetUserBusinesses, useUpdateUser, useUsers } from "@/hooks/use-users";
+import { hasPermission, USER_ROLES, type UserRole } from "@/lib/permissions";
+import type { User } from "@/lib/services/auth-service";
+import { BusinessCheckboxList } from "./BusinessCheckboxList";
+import { InviteUserForm } from "./InviteUserForm";
+
+export const UserManagement: React.FC = () => {
+  const { user: currentUser } = useAuth();
+  const { data: users = [], isLoading, error } = useUsers();
+  const { data: businesses = [] } = useBusinesses();
+  const updateUser = useUpdateUser();
+  const setUserBusinesses = useSetUserBusinesses();
+
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [assignUser, setAssignUser] = useState<User | null>(null);
+  const [assignedIds, setAssignedIds] = useState<number[]>([]);
+
+  const businessName = (id: number) => businesses.find((business) => business.id === id)?.name || `#${id}`;
+
+  const openAssignment = (user: User) => {
+    setAssignUser(user);
+    setAssignedIds(user.business_ids || []);
+  };
+
+  const saveAssignment = async () => {
+    if (!assignUser) return;
+    try {
+      await setUserBusinesses.mutateAsync({ id: assignUser.id, businessIds: assignedIds });
+      setAssignUser(null);
+    } catch (error) {
+      // Error handling is done in the mutation hooks
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-muted-foreground">Loading users...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-destructive">Error loading users: {error.message}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="text-start">
+          <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+          <p className="text-muted-foreground">Invite team members and manage their roles and businesses.</p>
+        </div>
+        <Button onClick={() => setInviteOpen(true)} className="bg-primary text-primary-foreground">
+          <UserPlus className="h-4 w-4 mr-2" />
+          Invite User
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 font-medium">User</th>
+                <th className="py-2 font-medium">Role</th>
+                <th className="py-2 font-medium">Businesses</th>
+                <th className="py-2 font-medium">Status</th>
+                <th className="py-2 font-medium text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((user) => {
+                const isSelf = user.id === currentUser?.id;
+                const isDisabled = user.status === "disabled";
+                const seesAll = hasPermission(user.role, "businesses:all");
+
+                return (
+                  <tr key={user.id} className="border-b last:border-0 align-top">
+                    <td className="py-3">
+                      <p className="font-medium">
+                        {user.username}
+                        {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{user.email}</p>
+                    </td>
+                    <td className="py-3 w-40">
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => updateUser.mutate({ id: user.id, data: { role: role as UserRole } })}
+                        disabled={isSelf || updateUser.isPending}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-3">
+                      {seesAll ? (
+                        <span className="text-muted-foreground">All businesses</span>
+                      ) : user.business_ids?.length ? (
+                        <div className="flex flex-wrap gap-1">
+                          {user.business_ids.map((id) => (
+                            <Badge key={id} variant="outline">
+                              {businessName(id)}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">None assigned</span>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      <Badge variant={isDisabled ? "secondary" : "default"}>{isDisabled ? "Disabled" : "Active"}</Badge>
+                    </td>
+                    <td className="py-3">
+                      <div className="flex justify-end gap-2">
+                        {!seesAll && (
+                          <Button size="sm" variant="outline" onClick={() => openAssignment(user)}>
+                            <Building className="h-3 w-3 mr-1" />
+                            Businesses
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant={isDisabled ? "outline" : "destructive"}
+                          disabled={isSelf || updateUser.isPending}
+                          onClick={() =>
+                            updateUser.mutate({ id: user.id, data: { status: isDisabled ? "active" : "disabled" } })
+                          }
+                        >
+                          {isDisabled ? (
+                            <>
+                              <CheckCircle className="h-3 w-3 mr-1" />
+                              Enable
+                            </>
+                          ) : (
+                            <>
+                              <Ban className="h-3 w-3 mr-1" />
+                              Disable
+                            </>
+                          )}
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>The user receives an email to set their password.</DialogDescription>
+          </DialogHeader>
+          <InviteUserForm
+            businesses={businesses}
+            onSuccess={() => setInviteOpen(false)}
+            onCancel={() => setInviteOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!assignUser} onOpenChange={(open) => !open && setAssignUser(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Assigned Businesses</DialogTitle>
+            <DialogDescription>{assignUser?.username} only sees the businesses selected here.</DialogDescription>
+          </DialogHeader>
+          <BusinessCheckboxList
+            businesses={businesses}
+            value={assignedIds}
+            onChange={setAssignedIds}
+            disabled={setUserBusinesses.isPending}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAssignUser(null)} disabled={setUserBusinesses.isPending}>
+              Cancel
+            </Button>
+            <Button onClick={saveAssignment} disabled={setUserBusinesses.isPending}>
+              {setUserBusinesses.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
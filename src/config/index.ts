@@ -17,6 +17,11 @@ export const API_CONFIG = {
   ENABLE_LOGGING: isDevelopment,
   ENABLE_CACHE: isProduction,
   CACHE_DURATION: 5 * 60 * 1000, // 5 minutes
+  REALTIME_RECONNECT_DELAY: 1000,
+  REALTIME_MAX_RECONNECT_DELAY: 30 * 1000, // 30 seconds
+  SESSION_IDLE_TIMEOUT: (Number(import.meta.env.VITE_SESSION_IDLE_TIMEOUT_MINUTES) || 30) * 60 * 1000,
+  SESSION_IDLE_WARNING: 60 * 1000, // warn one minute before the idle logout
+  TOKEN_REFRESH_MARGIN: 60 * 1000, // refresh access tokens one minute before they expire
 } as const;
 
 // Helper to build full endpoint URLs
@@ -40,6 +45,13 @@ export const API_ENDPOINTS = {
     REFRESH: "/auth/refresh",
   },
 
+  USERS: {
+    LIST: "/users",
+    INVITE: "/users/invite",
+    UPDATE: (id: number) => `/users/${id}`,
+    BUSINESSES: (id: number) => `/users/${id}/businesses`,
+  },
+
   BUSINESS: {
     LIST: "/basic/businesses",
     CREATE: "/basic/businesses",
@@ -52,11 +64,58 @@ export const API_ENDPOINTS = {
     CONFIG: (businessId: number) => `/google/config/${businessId}`,
     AUTH: (businessId: number) => `/google/auth/${businessId}`,
     TEST: (businessId: number) => `/google/test/${businessId}`,
+    CALENDARS: (businessId: number) => `/google/calendar/${businessId}/calendars`,
+    BOOKING_SETTINGS: (businessId: number) => `/google/calendar/${businessId}/booking-settings`,
+    APPOINTMENTS: (businessId: number) => `/google/calendar/${businessId}/appointments`,
+    SPREADSHEETS: (businessId: number) => `/google/sheets/${businessId}/spreadsheets`,
+    WORKSHEETS: (businessId: number, spreadsheetId: string) =>
+      `/google/sheets/${businessId}/spreadsheets/${encodeURIComponent(spreadsheetId)}/worksheets`,
+    SHEETS_PREVIEW: (businessId: number) => `/google/sheets/${businessId}/preview`,
+    DRIVE_FILES: (businessId: number) => `/google/drive/${businessId}/files`,
+    KNOWLEDGE_SOURCES: (businessId: number) => `/google/drive/${businessId}/sources`,
+    KNOWLEDGE_SOURCE: (businessId: number, sourceId: number) => `/google/drive/${businessId}/sources/${sourceId}`,
+    KNOWLEDGE_SEARCH: (businessId: number) => `/google/drive/${businessId}/search`,
   },
 
   WHATSAPP: {
     WEBHOOK: "/webhook",
     CONFIG: (businessId: number) => `/basic/businesses/${businessId}/whatsapp`,
+    NUMBERS: (businessId: number) => `/basic/businesses/${businessId}/whatsapp/numbers`,
+    NUMBER: (businessId: number, numberId: number) => `/basic/businesses/${businessId}/whatsapp/numbers/${numberId}`,
+    TEST: (businessId: number) => `/basic/businesses/${businessId}/whatsapp/test`,
+    WEBHOOK_STATUS: (businessId: number) => `/basic/businesses/${businessId}/whatsapp/webhook-status`,
+    TEMPLATES: (businessId: number) => `/basic/businesses/${businessId}/whatsapp/templates`,
+    TEMPLATE: (businessId: number, templateId: number) =>
+      `/basic/businesses/${businessId}/whatsapp/templates/${templateId}`,
+    TEMPLATES_SYNC: (businessId: number) => `/basic/businesses/${businessId}/whatsapp/templates/sync`,
+  },
+
+  TONES: {
+    LIST: (businessId: number) => `/basic/businesses/${businessId}/tones`,
+    GET: (businessId: number, toneId: number) => `/basic/businesses/${businessId}/tones/${toneId}`,
+    ACTIVATE: (businessId: number, toneId: number) => `/basic/businesses/${businessId}/tones/${toneId}/activate`,
+    VERSIONS: (businessId: number, toneId: number) => `/basic/businesses/${businessId}/tones/${toneId}/versions`,
+    ROLLBACK: (businessId: number, toneId: number, versionId: number) =>
+      `/basic/businesses/${businessId}/tones/${toneId}/versions/${versionId}/rollback`,
+    PREVIEW: (businessId: number) => `/basic/businesses/${businessId}/tones/preview`,
+  },
+
+  ESCALATIONS: {
+    RULES: (businessId: number) => `/basic/businesses/${businessId}/escalation-rules`,
+    RULE: (businessId: number, ruleId: number) => `/basic/businesses/${businessId}/escalation-rules/${ruleId}`,
+    LOG: (businessId: number) => `/basic/businesses/${businessId}/escalations`,
+  },
+
+  CAMPAIGNS: {
+    LIST: (businessId: number) => `/basic/businesses/${businessId}/campaigns`,
+    GET: (businessId: number, campaignId: number) => `/basic/businesses/${businessId}/campaigns/${campaignId}`,
+    RECIPIENTS: (businessId: number, campaignId: number) =>
+      `/basic/businesses/${businessId}/campaigns/${campaignId}/recipients`,
+    AUDIENCE_PREVIEW: (businessId: number) => `/basic/businesses/${businessId}/campaigns/audience-preview`,
+  },
+
+  REALTIME: {
+    STREAM: (businessId: number) => `/realtime/businesses/${businessId}/stream`,
   },
 
   HEALTH: "/health",
@@ -1,24 +1,20 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from "react";
-import { authService } from "@/lib/services/auth-service";
-
-interface User {
-  id: number;
-  username: string;
-  email: string;
-  role: string;
-  status: string;
-  created_at: string;
-  updated_at: string;
-}
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import { authService, type User } from "@/lib/services/auth-service";
+import { apiClient, TokenManager } from "@/lib/api-client";
+import { getTokenExpiry, isTokenExpired, SessionSync } from "@/lib/session";
+import { API_CONFIG } from "@/config";
+import { hasPermission as roleHasPermission, type Permission } from "@/lib/permissions";
 
 interface AuthContextType {
   user: User | null;
   token: string | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (user: User, token: string) => void;
+  login: (user: User, token: string, refreshToken?: string) => void;
   logout: () => void;
   updateUser: (user: User) => void;
+  hasPermission: (permission: Permission) => boolean;
+  canAccessBusiness: (businessId: number) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -37,13 +33,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     const checkAuth = async () => {
       try {
         const storedToken = localStorage.getItem("auth_token");
-        if (storedToken) {
+        // An expired token without a refresh token cannot be revived
+        if (storedToken && isTokenExpired(storedToken) && !TokenManager.getRefreshToken()) {
+          TokenManager.clearTokens();
+        } else if (storedToken) {
           // Fix: Use the auth service instead of direct fetch
           try {
             const response = await authService.getProfile();
             if (response.success && response.data) {
               setUser(response.data);
-              setToken(storedToken);
+              // The profile request may have refreshed an expired token
+              setToken(TokenManager.getToken() || storedToken);
             } else {
               // Token is invalid, remove it
               localStorage.removeItem("auth_token");
@@ -64,22 +64,103 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkAuth();
   }, []);
 
-  const login = (userData: User, authToken: string) => {
+  const sessionSyncRef = useRef<SessionSync | null>(null);
+
+  // Keep the session in sync with token refreshes done by the API client and with other tabs
+  useEffect(() => {
+    const sync = new SessionSync();
+    sessionSyncRef.current = sync;
+
+    const unsubscribeSync = sync.subscribe((message) => {
+      switch (message.type) {
+        case "login":
+          setUser(message.user);
+          setToken(TokenManager.getToken());
+          break;
+        case "logout":
+          setUser(null);
+          setToken(null);
+          break;
+        case "token-refresh":
+          setToken(message.token);
+          break;
+      }
+    });
+    const unsubscribeRefresh = apiClient.onTokenRefresh((newToken) => {
+      setToken(newToken);
+      sync.post({ type: "token-refresh", token: newToken });
+    });
+    const unsubscribeFailure = apiClient.onAuthFailure(() => {
+      setUser(null);
+      setToken(null);
+      sync.post({ type: "logout" });
+    });
+
+    return () => {
+      unsubscribeSync();
+      unsubscribeRefresh();
+      unsubscribeFailure();
+      sync.close();
+      sessionSyncRef.current = null;
+    };
+  }, []);
+
+  const login = (userData: User, authToken: string, refreshToken?: string) => {
     setUser(userData);
     setToken(authToken);
-    localStorage.setItem("auth_token", authToken);
+    TokenManager.setToken(authToken);
+    if (refreshToken) {
+      TokenManager.setRefreshToken(refreshToken);
+    }
+    sessionSyncRef.current?.post({ type: "login", user: userData });
   };
 
-  const logout = () => {
+  const logout = useCallback(() => {
     setUser(null);
     setToken(null);
-    localStorage.removeItem("auth_token");
-  };
+    TokenManager.clearTokens();
+    sessionSyncRef.current?.post({ type: "logout" });
+  }, []);
+
+  // Refresh shortly before the access token expires, or end the session when it can't be refreshed
+  useEffect(() => {
+    const expiry = getTokenExpiry(token);
+    if (!expiry) return;
+
+    const canRefresh = !!TokenManager.getRefreshToken();
+    // Jitter keeps several open tabs from refreshing at the same moment
+    const margin = canRefresh ? API_CONFIG.TOKEN_REFRESH_MARGIN + Math.random() * 5000 : 0;
+    const delay = Math.min(Math.max(expiry - margin - Date.now(), 0), 2 ** 31 - 1);
+
+    const timer = setTimeout(() => {
+      // Another tab may already have refreshed it or signed out
+      const storedToken = TokenManager.getToken();
+      if (storedToken !== token) {
+        setToken(storedToken);
+        return;
+      }
+      if (canRefresh) {
+        apiClient.refreshAccessToken();
+      } else {
+        logout();
+      }
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [token, logout]);
 
   const updateUser = (userData: User) => {
     setUser(userData);
   };
 
+  const hasPermission = useCallback((permission: Permission) => roleHasPermission(user?.role, permission), [user]);
+
+  // Agents and viewers only see the businesses assigned to them
+  const canAccessBusiness = useCallback(
+    (businessId: number) => hasPermission("businesses:all") || !!user?.business_ids?.includes(businessId),
+    [user, hasPermission]
+  );
+
   const value: AuthContextType = {
     user,
     token,
@@ -88,6 +169,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     login,
     logout,
     updateUser,
+    hasPermission,
+    canAccessBusiness,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
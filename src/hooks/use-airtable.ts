@@ -0,0 +1,159 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  AirtableService,
+  type AirtableTableConfig,
+  type FAQ,
+  type FAQInput,
+} from "@/lib/services/airtable-service";
+import { businessKeys } from "./use-businesses";
+import { toast } from "sonner";
+
+// Query keys
+export const airtableKeys = {
+  all: (businessId: number) => [...businessKeys.detail(businessId), "airtable"] as const,
+  faqs: (businessId: number) => [...airtableKeys.all(businessId), "faqs"] as const,
+  matches: (businessId: number, question: string) => [...airtableKeys.all(businessId), "matches", question] as const,
+};
+
+export function useAirtableFAQs(businessId: number, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: airtableKeys.faqs(businessId),
+    queryFn: async () => {
+      const response = await AirtableService.getFAQs(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch FAQs");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && (options?.enabled ?? true),
+  });
+}
+
+export function useFAQMatches(businessId: number, question: string) {
+  return useQuery({
+    queryKey: airtableKeys.matches(businessId, question),
+    queryFn: async () => {
+      const response = await AirtableService.matchFAQs(businessId, question);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to match FAQs");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && !!question,
+    // Matches depend on the FAQ wording, which changes while tuning
+    staleTime: 0,
+  });
+}
+
+export function useCreateFAQ() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, data }: { businessId: number; data: FAQInput }) => {
+      const response = await AirtableService.createFAQ(businessId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to create FAQ");
+      }
+      return response.data;
+    },
+    onSuccess: (faq, { businessId }) => {
+      queryClient.setQueryData(airtableKeys.faqs(businessId), (old: FAQ[] = []) => [...old, faq]);
+      queryClient.invalidateQueries({ queryKey: [...airtableKeys.all(businessId), "matches"] });
+      toast.success("FAQ added to Airtable");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create FAQ");
+    },
+  });
+}
+
+export function useUpdateFAQ() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, faqId, data }: { businessId: number; faqId: string; data: FAQInput }) => {
+      const response = await AirtableService.updateFAQ(businessId, faqId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update FAQ");
+      }
+      return response.data;
+    },
+    onSuccess: (faq, { businessId, faqId }) => {
+      queryClient.setQueryData(airtableKeys.faqs(businessId), (old: FAQ[] = []) =>
+        old.map((item) => (item.id === faqId ? faq : item))
+      );
+      queryClient.invalidateQueries({ queryKey: [...airtableKeys.all(businessId), "matches"] });
+      toast.success("FAQ updated in Airtable");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update FAQ");
+    },
+  });
+}
+
+export function useDeleteFAQ() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, faqId }: { businessId: number; faqId: string }) => {
+      const response = await AirtableService.deleteFAQ(businessId, faqId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to delete FAQ");
+      }
+      return faqId;
+    },
+    onSuccess: (faqId, { businessId }) => {
+      queryClient.setQueryData(airtableKeys.faqs(businessId), (old: FAQ[] = []) =>
+        old.filter((item) => item.id !== faqId)
+      );
+      queryClient.invalidateQueries({ queryKey: [...airtableKeys.all(businessId), "matches"] });
+      toast.success("FAQ deleted from Airtable");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete FAQ");
+    },
+  });
+}
+
+export function useDiscoverAirtableSchema() {
+  return useMutation({
+    mutationFn: async ({
+      businessId,
+      credentials,
+    }: {
+      businessId: number;
+      credentials?: { access_token: string; base_id: string };
+    }) => {
+      const response = await AirtableService.discoverSchema(businessId, credentials);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to read the Airtable base");
+      }
+      return response.data || [];
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to read the Airtable base");
+    },
+  });
+}
+
+export function useSaveAirtableTables() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, tables }: { businessId: number; tables: AirtableTableConfig[] }) => {
+      const response = await AirtableService.saveTables(businessId, tables);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to save table mapping");
+      }
+      return response.data;
+    },
+    onSuccess: (_, { businessId }) => {
+      // FAQs are read through the mapping, so every cached record may have changed
+      queryClient.invalidateQueries({ queryKey: airtableKeys.all(businessId) });
+      toast.success("Table mapping saved");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save table mapping");
+    },
+  });
+}
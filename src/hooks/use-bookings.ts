@@ -0,0 +1,79 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BookingService, type BookingSettings } from "@/lib/services/booking-service";
+import { businessKeys } from "./use-businesses";
+import { toast } from "sonner";
+
+// Query keys
+export const bookingKeys = {
+  all: (businessId: number) => [...businessKeys.detail(businessId), "bookings"] as const,
+  settings: (businessId: number) => [...bookingKeys.all(businessId), "settings"] as const,
+  calendars: (businessId: number) => [...bookingKeys.all(businessId), "calendars"] as const,
+  appointments: (businessId: number, params: Record<string, unknown>) =>
+    [...bookingKeys.all(businessId), "appointments", params] as const,
+};
+
+export function useBookingSettings(businessId: number) {
+  return useQuery({
+    queryKey: bookingKeys.settings(businessId),
+    queryFn: async () => {
+      const response = await BookingService.getBookingSettings(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch booking settings");
+      }
+      return response.data || null;
+    },
+    enabled: !!businessId,
+  });
+}
+
+export function useGoogleCalendars(businessId: number) {
+  return useQuery({
+    queryKey: bookingKeys.calendars(businessId),
+    queryFn: async () => {
+      const response = await BookingService.getCalendars(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch calendars");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId,
+    retry: false,
+  });
+}
+
+export function useUpdateBookingSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, data }: { businessId: number; data: Omit<BookingSettings, "updated_at"> }) => {
+      const response = await BookingService.updateBookingSettings(businessId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to save booking settings");
+      }
+      return response.data;
+    },
+    onSuccess: (settings, { businessId }) => {
+      queryClient.setQueryData(bookingKeys.settings(businessId), settings);
+      toast.success("Booking settings saved");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save booking settings");
+    },
+  });
+}
+
+export function useAppointments(businessId: number, params: { days?: number; include_cancelled?: boolean } = {}) {
+  return useQuery({
+    queryKey: bookingKeys.appointments(businessId, params),
+    queryFn: async () => {
+      const response = await BookingService.getAppointments(businessId, params);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch appointments");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId,
+    // New bookings arrive from conversations in the background
+    refetchInterval: 60 * 1000,
+  });
+}
@@ -0,0 +1,28 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { businessKeys, useBusiness } from "./use-businesses";
+
+// Business addressed by the current /businesses/:businessId/* route
+export function useBusinessRoute() {
+  const { businessId: businessIdParam } = useParams<{ businessId: string }>();
+  const businessId = Number(businessIdParam) || 0;
+  const { data: business, isLoading, error } = useBusiness(businessId);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const basePath = `/businesses/${businessId}`;
+
+  // Refresh the business list after a config form was saved and leave the form
+  const handleFormSuccess = (redirectTo: string = basePath) => {
+    queryClient.invalidateQueries({ queryKey: businessKeys.lists() });
+    navigate(redirectTo);
+  };
+
+  return {
+    businessId,
+    business,
+    isLoading,
+    error,
+    basePath,
+    handleFormSuccess,
+  };
+}
@@ -1,10 +1,31 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  useQuery,
+  useQueries,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
 import {
   BusinessService,
   type Business,
   type CreateBusinessData,
   type UpdateBusinessData,
+  type Conversation,
+  type Message,
+  type SendMessageData,
+  type ConversationFilters,
+  type MessageSearchParams,
+  type WhatsAppNumber,
+  type WhatsAppNumberData,
+  type WhatsAppTemplate,
+  type CreateWhatsAppTemplateData,
+  type BusinessTone,
+  type CreateBusinessToneData,
+  type TonePreviewRequest,
 } from "@/lib/services/business-service";
+import { defaultTonePreviewer, type TonePreviewer } from "@/lib/tones";
 import { useApi, useMutation as useApiMutation } from "./use-api";
 import { toast } from "sonner";
 
@@ -17,8 +38,19 @@ export const businessKeys = {
   detail: (id: number) => [...businessKeys.details(), id] as const,
   stats: (id: number) => [...businessKeys.detail(id), "stats"] as const,
   conversations: (id: number) => [...businessKeys.detail(id), "conversations"] as const,
+  conversation: (id: number, conversationId: number) =>
+    [...businessKeys.conversations(id), "detail", conversationId] as const,
+  conversationTags: (id: number) => [...businessKeys.detail(id), "conversation-tags"] as const,
+  messages: (id: number, conversationId: number) =>
+    [...businessKeys.conversations(id), "messages", conversationId] as const,
+  messageSearch: (id: number, params: MessageSearchParams) =>
+    [...businessKeys.detail(id), "message-search", params] as const,
   whatsapp: (id: number) => [...businessKeys.detail(id), "whatsapp"] as const,
+  whatsappNumbers: (id: number) => [...businessKeys.whatsapp(id), "numbers"] as const,
+  whatsappWebhook: (id: number) => [...businessKeys.whatsapp(id), "webhook-status"] as const,
+  whatsappTemplates: (id: number) => [...businessKeys.whatsapp(id), "templates"] as const,
   tones: (id: number) => [...businessKeys.detail(id), "tones"] as const,
+  toneVersions: (id: number, toneId: number) => [...businessKeys.tones(id), toneId, "versions"] as const,
 };
 
 // Get all businesses
@@ -266,18 +298,232 @@ export function useUpdateWhatsAppConfig() {
   });
 }
 
-// Update the business tone hooks to handle single tone
+// WhatsApp number hooks
+export function useWhatsAppNumbers(businessId: number) {
+  return useQuery({
+    queryKey: businessKeys.whatsappNumbers(businessId),
+    queryFn: async () => {
+      const response = await BusinessService.getWhatsAppNumbers(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch WhatsApp numbers");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+export function useCreateWhatsAppNumber() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, data }: { businessId: number; data: WhatsAppNumberData }) => {
+      const response = await BusinessService.createWhatsAppNumber(businessId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to add WhatsApp number");
+      }
+      return response.data;
+    },
+    onSuccess: (newNumber, { businessId }) => {
+      queryClient.setQueryData(businessKeys.whatsappNumbers(businessId), (old: WhatsAppNumber[] = []) => [
+        ...old,
+        newNumber,
+      ]);
+      queryClient.invalidateQueries({ queryKey: businessKeys.whatsapp(businessId) });
+      toast.success("WhatsApp number added successfully");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to add WhatsApp number");
+    },
+  });
+}
+
+export function useUpdateWhatsAppNumber() {
+  const queryClient = useQueryClient();
 
-// Business tone hooks - updated for single tone
-export function useBusinessTone(businessId: number, options?: { enabled?: boolean }) {
+  return useMutation({
+    mutationFn: async ({
+      businessId,
+      numberId,
+      data,
+    }: {
+      businessId: number;
+      numberId: number;
+      data: Partial<WhatsAppNumberData>;
+    }) => {
+      const response = await BusinessService.updateWhatsAppNumber(businessId, numberId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update WhatsApp number");
+      }
+      return response.data;
+    },
+    onSuccess: (updatedNumber, { businessId, numberId }) => {
+      queryClient.setQueryData(businessKeys.whatsappNumbers(businessId), (old: WhatsAppNumber[] = []) =>
+        old.map((number) => (number.id === numberId ? updatedNumber : number))
+      );
+      toast.success("WhatsApp number updated successfully");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update WhatsApp number");
+    },
+  });
+}
+
+export function useDeleteWhatsAppNumber() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, numberId }: { businessId: number; numberId: number }) => {
+      const response = await BusinessService.deleteWhatsAppNumber(businessId, numberId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to remove WhatsApp number");
+      }
+      return numberId;
+    },
+    onSuccess: (numberId, { businessId }) => {
+      queryClient.setQueryData(businessKeys.whatsappNumbers(businessId), (old: WhatsAppNumber[] = []) =>
+        old.filter((number) => number.id !== numberId)
+      );
+      toast.success("WhatsApp number removed successfully");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to remove WhatsApp number");
+    },
+  });
+}
+
+export function useTestWhatsAppConfig() {
+  return useMutation({
+    mutationFn: async ({
+      businessId,
+      data,
+    }: {
+      businessId: number;
+      data: { phone_number_id: string; access_token: string };
+    }) => {
+      const response = await BusinessService.testWhatsAppConfig(businessId, data);
+      if (!response.success || !response.data) {
+        throw new Error(response.error || "Failed to test WhatsApp credentials");
+      }
+      return response.data;
+    },
+  });
+}
+
+// Webhook verification and the last event received from Meta, polled while the setup is open
+export function useWhatsAppWebhookStatus(
+  businessId: number,
+  options: { enabled?: boolean; refetchInterval?: number } = {}
+) {
+  return useQuery({
+    queryKey: businessKeys.whatsappWebhook(businessId),
+    queryFn: async () => {
+      const response = await BusinessService.getWhatsAppWebhookStatus(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch webhook status");
+      }
+      return response.data;
+    },
+    enabled: !!businessId && options.enabled !== false,
+    refetchInterval: options.refetchInterval,
+  });
+}
+
+// WhatsApp template hooks
+export function useWhatsAppTemplates(businessId: number, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: businessKeys.whatsappTemplates(businessId),
+    queryFn: async () => {
+      const response = await BusinessService.getWhatsAppTemplates(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch WhatsApp templates");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && options?.enabled !== false,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+  });
+}
+
+export function useCreateWhatsAppTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, data }: { businessId: number; data: CreateWhatsAppTemplateData }) => {
+      const response = await BusinessService.createWhatsAppTemplate(businessId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to create WhatsApp template");
+      }
+      return response.data;
+    },
+    onSuccess: (newTemplate, { businessId }) => {
+      queryClient.setQueryData(businessKeys.whatsappTemplates(businessId), (old: WhatsAppTemplate[] = []) => [
+        ...old,
+        newTemplate,
+      ]);
+      toast.success("Template submitted for review");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create WhatsApp template");
+    },
+  });
+}
+
+export function useDeleteWhatsAppTemplate() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, templateId }: { businessId: number; templateId: number }) => {
+      const response = await BusinessService.deleteWhatsAppTemplate(businessId, templateId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to delete WhatsApp template");
+      }
+      return templateId;
+    },
+    onSuccess: (templateId, { businessId }) => {
+      queryClient.setQueryData(businessKeys.whatsappTemplates(businessId), (old: WhatsAppTemplate[] = []) =>
+        old.filter((template) => template.id !== templateId)
+      );
+      toast.success("Template deleted successfully");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete WhatsApp template");
+    },
+  });
+}
+
+export function useSyncWhatsAppTemplates() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (businessId: number) => {
+      const response = await BusinessService.syncWhatsAppTemplates(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to sync WhatsApp templates");
+      }
+      return response.data || [];
+    },
+    onSuccess: (templates, businessId) => {
+      queryClient.setQueryData(businessKeys.whatsappTemplates(businessId), templates);
+      toast.success("Template statuses updated from WhatsApp");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to sync WhatsApp templates");
+    },
+  });
+}
+
+// Business tone hooks
+export function useBusinessTones(businessId: number, options?: { enabled?: boolean }) {
   return useQuery({
     queryKey: businessKeys.tones(businessId),
     queryFn: async () => {
-      const response = await BusinessService.getBusinessTone(businessId);
+      const response = await BusinessService.getBusinessTones(businessId);
       if (!response.success) {
-        throw new Error(response.error || "Failed to fetch business tone");
+        throw new Error(response.error || "Failed to fetch business tones");
       }
-      return response.data; // Single tone object or null
+      return response.data || [];
     },
     enabled: !!businessId && options?.enabled !== false,
     staleTime: 5 * 60 * 1000,
@@ -288,15 +534,15 @@ export function useCreateBusinessTone() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ businessId, data }: { businessId: number; data: any }) => {
+    mutationFn: async ({ businessId, data }: { businessId: number; data: CreateBusinessToneData }) => {
       const response = await BusinessService.createBusinessTone(businessId, data);
       if (!response.success) {
         throw new Error(response.error || "Failed to create business tone");
       }
       return response.data;
     },
-    onSuccess: (_, { businessId }) => {
-      queryClient.invalidateQueries({ queryKey: businessKeys.tones(businessId) });
+    onSuccess: (tone, { businessId }) => {
+      queryClient.setQueryData(businessKeys.tones(businessId), (old: BusinessTone[] = []) => [...old, tone]);
       toast.success("Business tone created successfully");
     },
     onError: (error) => {
@@ -309,15 +555,26 @@ export function useUpdateBusinessTone() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ businessId, toneId, data }: { businessId: number; toneId: number; data: any }) => {
+    mutationFn: async ({
+      businessId,
+      toneId,
+      data,
+    }: {
+      businessId: number;
+      toneId: number;
+      data: Partial<CreateBusinessToneData>;
+    }) => {
       const response = await BusinessService.updateBusinessTone(businessId, toneId, data);
       if (!response.success) {
         throw new Error(response.error || "Failed to update business tone");
       }
       return response.data;
     },
-    onSuccess: (_, { businessId }) => {
-      queryClient.invalidateQueries({ queryKey: businessKeys.tones(businessId) });
+    onSuccess: (tone, { businessId, toneId }) => {
+      queryClient.setQueryData(businessKeys.tones(businessId), (old: BusinessTone[] = []) =>
+        old.map((item) => (item.id === toneId ? tone : item))
+      );
+      queryClient.invalidateQueries({ queryKey: businessKeys.toneVersions(businessId, toneId) });
       toast.success("Business tone updated successfully");
     },
     onError: (error) => {
@@ -337,8 +594,10 @@ export function useDeleteBusinessTone() {
       }
       return { businessId, toneId };
     },
-    onSuccess: ({ businessId }) => {
-      queryClient.invalidateQueries({ queryKey: businessKeys.tones(businessId) });
+    onSuccess: ({ businessId, toneId }) => {
+      queryClient.setQueryData(businessKeys.tones(businessId), (old: BusinessTone[] = []) =>
+        old.filter((item) => item.id !== toneId)
+      );
       toast.success("Business tone deleted successfully");
     },
     onError: (error) => {
@@ -347,6 +606,88 @@ export function useDeleteBusinessTone() {
   });
 }
 
+export function useActivateBusinessTone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, toneId }: { businessId: number; toneId: number }) => {
+      const response = await BusinessService.activateBusinessTone(businessId, toneId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to activate business tone");
+      }
+      return response.data;
+    },
+    onSuccess: (tones, { businessId }) => {
+      // The backend returns every tone, as activating one deactivates the previous
+      if (tones) {
+        queryClient.setQueryData(businessKeys.tones(businessId), tones);
+      } else {
+        queryClient.invalidateQueries({ queryKey: businessKeys.tones(businessId) });
+      }
+      toast.success("Active tone changed");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to activate business tone");
+    },
+  });
+}
+
+export function useBusinessToneVersions(businessId: number, toneId: number) {
+  return useQuery({
+    queryKey: businessKeys.toneVersions(businessId, toneId),
+    queryFn: async () => {
+      const response = await BusinessService.getBusinessToneVersions(businessId, toneId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch tone history");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && !!toneId,
+  });
+}
+
+export function useRollbackBusinessTone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      businessId,
+      toneId,
+      versionId,
+    }: {
+      businessId: number;
+      toneId: number;
+      versionId: number;
+    }) => {
+      const response = await BusinessService.rollbackBusinessTone(businessId, toneId, versionId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to restore tone version");
+      }
+      return response.data;
+    },
+    onSuccess: (tone, { businessId, toneId }) => {
+      queryClient.setQueryData(businessKeys.tones(businessId), (old: BusinessTone[] = []) =>
+        old.map((item) => (item.id === toneId ? tone : item))
+      );
+      queryClient.invalidateQueries({ queryKey: businessKeys.toneVersions(businessId, toneId) });
+      toast.success(`Restored as version ${tone.version}`);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to restore tone version");
+    },
+  });
+}
+
+// Bot replies for the tone playground; nothing is cached, every sample message is a fresh request
+export function useTonePreview(options?: { previewer?: TonePreviewer }) {
+  const previewer = options?.previewer || defaultTonePreviewer;
+
+  return useMutation({
+    mutationFn: ({ businessId, request }: { businessId: number; request: TonePreviewRequest }) =>
+      previewer(businessId, request),
+  });
+}
+
 // Business stats hook
 export function useBusinessStats(
   businessId: number,
@@ -369,13 +710,35 @@ export function useBusinessStats(
   });
 }
 
+// Stats for several businesses at once, e.g. for the admin overview
+export function useBusinessesStats(
+  businessIds: number[],
+  params?: {
+    startDate?: string;
+    endDate?: string;
+  }
+) {
+  return useQueries({
+    queries: businessIds.map((businessId) => ({
+      queryKey: [...businessKeys.stats(businessId), params],
+      queryFn: async () => {
+        const response = await BusinessService.getBusinessStats(businessId, params);
+        if (!response.success) {
+          throw new Error(response.error || "Failed to fetch business stats");
+        }
+        return response.data;
+      },
+      staleTime: 1 * 60 * 1000,
+    })),
+  });
+}
+
 // Conversations hook
 export function useConversations(
   businessId: number,
-  params?: {
+  params?: ConversationFilters & {
     page?: number;
     limit?: number;
-    status?: "active" | "archived";
   }
 ) {
   return useQuery({
@@ -391,3 +754,221 @@ export function useConversations(
     staleTime: 30 * 1000, // 30 seconds
   });
 }
+
+// A single conversation, for one that is not in the loaded page of the list
+export function useConversation(businessId: number, conversationId: number | null, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: businessKeys.conversation(businessId, conversationId ?? 0),
+    queryFn: async () => {
+      const response = await BusinessService.getConversation(conversationId as number);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch conversation");
+      }
+      return response.data;
+    },
+    enabled: !!businessId && !!conversationId && options?.enabled !== false,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+export function useConversationTags(businessId: number) {
+  return useQuery({
+    queryKey: businessKeys.conversationTags(businessId),
+    queryFn: async () => {
+      const response = await BusinessService.getConversationTags(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch conversation tags");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+// Message search hook
+export function useMessageSearch(businessId: number, params: MessageSearchParams, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: businessKeys.messageSearch(businessId, params),
+    queryFn: async () => {
+      const response = await BusinessService.searchMessages(businessId, params);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to search messages");
+      }
+      return response.data;
+    },
+    enabled: !!businessId && options?.enabled !== false,
+    staleTime: 30 * 1000,
+    placeholderData: (previous) => previous,
+  });
+}
+
+// Conversation messages, loaded newest page first; older pages are fetched as "next" pages
+export type MessagesPage = { messages: Message[]; total: number; page: number; limit: number };
+
+const sortMessagesByDate = (messages: Message[]) =>
+  [...messages].sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+// Flatten loaded pages into one chronological list; pages can overlap when new messages shift offsets
+const flattenMessagePages = (pages: MessagesPage[]) => {
+  const seen = new Set<string>();
+  return sortMessagesByDate(pages.flatMap((page) => page.messages)).filter((message) => {
+    if (seen.has(message.message_id)) return false;
+    seen.add(message.message_id);
+    return true;
+  });
+};
+
+export function useConversationMessages(
+  businessId: number,
+  conversationId: number | null,
+  params?: {
+    limit?: number;
+  }
+) {
+  const limit = params?.limit || 50;
+
+  return useInfiniteQuery({
+    queryKey: businessKeys.messages(businessId, conversationId || 0),
+    queryFn: async ({ pageParam }) => {
+      const response = await BusinessService.getConversationMessages(conversationId, { page: pageParam, limit });
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch messages");
+      }
+      return response.data;
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage: MessagesPage) =>
+      lastPage && lastPage.page * lastPage.limit < lastPage.total ? lastPage.page + 1 : undefined,
+    select: (data) => ({
+      ...data,
+      messages: flattenMessagePages(data.pages),
+      total: data.pages[0]?.total ?? 0,
+    }),
+    enabled: !!businessId && !!conversationId,
+    // Kept fresh by the realtime stream
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+// Insert or merge a message into the newest loaded page; returns true when it was not cached yet
+export function upsertCachedMessage(
+  queryClient: QueryClient,
+  businessId: number,
+  conversationId: number,
+  message: Message
+): boolean {
+  let isNew = true;
+
+  queryClient.setQueryData<InfiniteData<MessagesPage>>(businessKeys.messages(businessId, conversationId), (old) => {
+    if (!old?.pages.length) return old;
+
+    isNew = !old.pages.some((page) => page.messages.some((m) => m.message_id === message.message_id));
+    const pages = old.pages.map((page, index) => {
+      if (!isNew) {
+        return {
+          ...page,
+          messages: page.messages.map((m) => (m.message_id === message.message_id ? { ...m, ...message } : m)),
+        };
+      }
+      return index === 0
+        ? { ...page, messages: [...page.messages, message], total: page.total + 1 }
+        : { ...page, total: page.total + 1 };
+    });
+
+    return { ...old, pages };
+  });
+
+  return isNew;
+}
+
+// Update messages across every loaded page of a conversation
+export function mapCachedMessages(
+  queryClient: QueryClient,
+  businessId: number,
+  conversationId: number,
+  fn: (message: Message) => Message
+) {
+  queryClient.setQueryData<InfiniteData<MessagesPage>>(businessKeys.messages(businessId, conversationId), (old) => {
+    if (!old) return old;
+    return {
+      ...old,
+      pages: old.pages.map((page) => ({ ...page, messages: page.messages.map(fn) })),
+    };
+  });
+}
+
+// Send a manual reply from a staff member
+export function useSendMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      conversationId,
+      data,
+    }: {
+      businessId: number;
+      conversationId: number;
+      data: SendMessageData;
+    }) => {
+      const response = await BusinessService.sendMessage(conversationId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to send message");
+      }
+      return response.data;
+    },
+    onSuccess: (message, { businessId, conversationId }) => {
+      // The realtime stream may deliver the same message, upsert dedupes by message_id
+      if (message) {
+        upsertCachedMessage(queryClient, businessId, conversationId, message);
+      }
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to send message");
+    },
+  });
+}
+
+// Pause the bot while a human handles the conversation, or hand it back
+export function useSetConversationBotPaused() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      conversationId,
+      botPaused,
+    }: {
+      businessId: number;
+      conversationId: number;
+      botPaused: boolean;
+    }) => {
+      const response = await BusinessService.setConversationBotPaused(conversationId, botPaused);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update conversation");
+      }
+      return response.data;
+    },
+    onSuccess: (conversation, { businessId, conversationId, botPaused }) => {
+      queryClient.setQueriesData(
+        { queryKey: businessKeys.conversations(businessId) },
+        (old: { conversations?: Conversation[] } | undefined) => {
+          if (!old?.conversations) return old;
+          return {
+            ...old,
+            conversations: old.conversations.map((c) =>
+              c.id === conversationId ? { ...c, ...conversation, bot_paused: botPaused } : c
+            ),
+          };
+        }
+      );
+      queryClient.setQueryData(businessKeys.conversation(businessId, conversationId), (old: Conversation | undefined) =>
+        old ? { ...old, ...conversation, bot_paused: botPaused } : old
+      );
+
+      toast.success(botPaused ? "You are now handling this conversation" : "Conversation handed back to the bot");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update conversation");
+    },
+  });
+}
@@ -0,0 +1,178 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import {
+  CampaignService,
+  type Campaign,
+  type CampaignAction,
+  type CampaignAudience,
+  type CampaignRecipientStatus,
+  type CreateCampaignData,
+} from "@/lib/services/campaign-service";
+import { businessKeys } from "./use-businesses";
+import { toast } from "sonner";
+
+// While a campaign is going out its stats change continuously
+const ACTIVE_REFETCH_INTERVAL = 5000;
+
+// Query keys
+export const campaignKeys = {
+  all: (businessId: number) => [...businessKeys.detail(businessId), "campaigns"] as const,
+  detail: (businessId: number, campaignId: number) => [...campaignKeys.all(businessId), campaignId] as const,
+  recipients: (businessId: number, campaignId: number, params: Record<string, unknown>) =>
+    [...campaignKeys.detail(businessId, campaignId), "recipients", params] as const,
+  audience: (businessId: number, audience: CampaignAudience) =>
+    [...campaignKeys.all(businessId), "audience", audience] as const,
+};
+
+export const isCampaignActive = (campaign?: Pick<Campaign, "status"> | null) =>
+  campaign?.status === "sending" || campaign?.status === "scheduled";
+
+const replaceCampaign = (campaigns: Campaign[] = [], updated: Campaign) =>
+  campaigns.map((campaign) => (campaign.id === updated.id ? updated : campaign));
+
+export function useCampaigns(businessId: number) {
+  return useQuery({
+    queryKey: campaignKeys.all(businessId),
+    queryFn: async () => {
+      const response = await CampaignService.getCampaigns(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch campaigns");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId,
+    refetchInterval: (query) => (query.state.data?.some(isCampaignActive) ? ACTIVE_REFETCH_INTERVAL : false),
+  });
+}
+
+export function useCampaign(businessId: number, campaignId: number) {
+  return useQuery({
+    queryKey: campaignKeys.detail(businessId, campaignId),
+    queryFn: async () => {
+      const response = await CampaignService.getCampaign(businessId, campaignId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch campaign");
+      }
+      return response.data;
+    },
+    enabled: !!businessId && !!campaignId,
+    refetchInterval: (query) => (isCampaignActive(query.state.data) ? ACTIVE_REFETCH_INTERVAL : false),
+  });
+}
+
+export function useCampaignRecipients(
+  businessId: number,
+  campaignId: number,
+  params: { status?: CampaignRecipientStatus; page: number; limit: number },
+  options?: { refetchInterval?: number | false }
+) {
+  return useQuery({
+    queryKey: campaignKeys.recipients(businessId, campaignId, params),
+    queryFn: async () => {
+      const response = await CampaignService.getCampaignRecipients(businessId, campaignId, params);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch campaign recipients");
+      }
+      return response.data;
+    },
+    enabled: !!businessId && !!campaignId,
+    placeholderData: keepPreviousData,
+    refetchInterval: options?.refetchInterval,
+  });
+}
+
+export function useAudiencePreview(businessId: number, audience: CampaignAudience, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: campaignKeys.audience(businessId, audience),
+    queryFn: async () => {
+      const response = await CampaignService.previewAudience(businessId, audience);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to preview audience");
+      }
+      return response.data;
+    },
+    enabled: !!businessId && options?.enabled !== false,
+    placeholderData: keepPreviousData,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useCreateCampaign() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, data }: { businessId: number; data: CreateCampaignData }) => {
+      const response = await CampaignService.createCampaign(businessId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to create campaign");
+      }
+      return response.data;
+    },
+    onSuccess: (campaign, { businessId }) => {
+      queryClient.setQueryData(campaignKeys.all(businessId), (old: Campaign[] = []) => [campaign, ...old]);
+      toast.success(campaign.scheduled_at ? "Campaign scheduled" : "Campaign started");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create campaign");
+    },
+  });
+}
+
+const ACTION_MESSAGES: Record<CampaignAction, string> = {
+  pause: "Campaign paused",
+  resume: "Campaign resumed",
+  cancel: "Campaign cancelled",
+};
+
+// Pause, resume or cancel a scheduled or running campaign
+export function useUpdateCampaignStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      businessId,
+      campaignId,
+      action,
+    }: {
+      businessId: number;
+      campaignId: number;
+      action: CampaignAction;
+    }) => {
+      const response = await CampaignService.updateCampaignStatus(businessId, campaignId, action);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update campaign");
+      }
+      return response.data;
+    },
+    onSuccess: (campaign, { businessId, campaignId, action }) => {
+      queryClient.setQueryData(campaignKeys.detail(businessId, campaignId), campaign);
+      queryClient.setQueryData(campaignKeys.all(businessId), (old: Campaign[] = []) => replaceCampaign(old, campaign));
+      toast.success(ACTION_MESSAGES[action]);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update campaign");
+    },
+  });
+}
+
+export function useDeleteCampaign() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, campaignId }: { businessId: number; campaignId: number }) => {
+      const response = await CampaignService.deleteCampaign(businessId, campaignId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to delete campaign");
+      }
+      return campaignId;
+    },
+    onSuccess: (campaignId, { businessId }) => {
+      queryClient.setQueryData(campaignKeys.all(businessId), (old: Campaign[] = []) =>
+        old.filter((campaign) => campaign.id !== campaignId)
+      );
+      toast.success("Campaign deleted successfully");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete campaign");
+    },
+  });
+}
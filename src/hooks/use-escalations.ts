@@ -0,0 +1,121 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { EscalationService, type EscalationRule, type EscalationRuleData } from "@/lib/services/escalation-service";
+import { businessKeys } from "./use-businesses";
+import { toast } from "sonner";
+
+// Query keys
+export const escalationKeys = {
+  all: (businessId: number) => [...businessKeys.detail(businessId), "escalations"] as const,
+  rules: (businessId: number) => [...escalationKeys.all(businessId), "rules"] as const,
+  log: (businessId: number, params: Record<string, unknown>) =>
+    [...escalationKeys.all(businessId), "log", params] as const,
+};
+
+export function useEscalationRules(businessId: number) {
+  return useQuery({
+    queryKey: escalationKeys.rules(businessId),
+    queryFn: async () => {
+      const response = await EscalationService.getRules(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch escalation rules");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId,
+  });
+}
+
+export function useEscalations(
+  businessId: number,
+  params: { conversation_id?: number; page?: number; limit?: number },
+  // keepPreviousPage shows the last page while the next one loads; only for paging through the same log
+  options?: { enabled?: boolean; keepPreviousPage?: boolean }
+) {
+  return useQuery({
+    queryKey: escalationKeys.log(businessId, params),
+    queryFn: async () => {
+      const response = await EscalationService.getEscalations(businessId, params);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch escalations");
+      }
+      return response.data;
+    },
+    enabled: !!businessId && (options?.enabled ?? true),
+    placeholderData: options?.keepPreviousPage ? keepPreviousData : undefined,
+  });
+}
+
+export function useCreateEscalationRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, data }: { businessId: number; data: EscalationRuleData }) => {
+      const response = await EscalationService.createRule(businessId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to create escalation rule");
+      }
+      return response.data;
+    },
+    onSuccess: (rule, { businessId }) => {
+      queryClient.setQueryData(escalationKeys.rules(businessId), (old: EscalationRule[] = []) => [...old, rule]);
+      toast.success("Escalation rule created");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create escalation rule");
+    },
+  });
+}
+
+export function useUpdateEscalationRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      businessId,
+      ruleId,
+      data,
+    }: {
+      businessId: number;
+      ruleId: number;
+      data: Partial<EscalationRuleData>;
+    }) => {
+      const response = await EscalationService.updateRule(businessId, ruleId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update escalation rule");
+      }
+      return response.data;
+    },
+    onSuccess: (rule, { businessId, ruleId }) => {
+      queryClient.setQueryData(escalationKeys.rules(businessId), (old: EscalationRule[] = []) =>
+        old.map((item) => (item.id === ruleId ? rule : item))
+      );
+      toast.success("Escalation rule updated");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update escalation rule");
+    },
+  });
+}
+
+export function useDeleteEscalationRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, ruleId }: { businessId: number; ruleId: number }) => {
+      const response = await EscalationService.deleteRule(businessId, ruleId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to delete escalation rule");
+      }
+      return ruleId;
+    },
+    onSuccess: (ruleId, { businessId }) => {
+      queryClient.setQueryData(escalationKeys.rules(businessId), (old: EscalationRule[] = []) =>
+        old.filter((item) => item.id !== ruleId)
+      );
+      toast.success("Escalation rule deleted");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete escalation rule");
+    },
+  });
+}
@@ -0,0 +1,219 @@
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import {
+  GoogleService,
+  type DriveFile,
+  type KnowledgeSource,
+  type SheetsColumnMapping,
+  type SheetsLoggingConfig,
+} from "@/lib/services/google-service";
+import { businessKeys } from "./use-businesses";
+import { toast } from "sonner";
+
+// Documents are indexed in the background after they were added or re-synced
+const INDEXING_REFETCH_INTERVAL = 5000;
+
+export const isKnowledgeSourceIndexing = (source: Pick<KnowledgeSource, "status">) =>
+  source.status === "pending" || source.status === "indexing";
+
+const replaceKnowledgeSource = (sources: KnowledgeSource[] = [], updated: KnowledgeSource) =>
+  sources.map((source) => (source.id === updated.id ? updated : source));
+
+// Query keys
+export const googleKeys = {
+  all: (businessId: number) => [...businessKeys.detail(businessId), "google"] as const,
+  spreadsheets: (businessId: number, search: string) =>
+    [...googleKeys.all(businessId), "spreadsheets", search] as const,
+  worksheets: (businessId: number, spreadsheetId: string) =>
+    [...googleKeys.all(businessId), "worksheets", spreadsheetId] as const,
+  driveFiles: (businessId: number, params: Record<string, unknown>) =>
+    [...googleKeys.all(businessId), "drive-files", params] as const,
+  knowledgeSources: (businessId: number) => [...googleKeys.all(businessId), "knowledge-sources"] as const,
+  knowledgeMatches: (businessId: number, question: string) =>
+    [...googleKeys.knowledgeSources(businessId), "matches", question] as const,
+};
+
+export function useGoogleSpreadsheets(businessId: number, search = "", options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: googleKeys.spreadsheets(businessId, search),
+    queryFn: async () => {
+      const response = await GoogleService.getSpreadsheets(businessId, search || undefined);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch spreadsheets");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && (options?.enabled ?? true),
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+}
+
+export function useGoogleWorksheets(businessId: number, spreadsheetId: string | null) {
+  return useQuery({
+    queryKey: googleKeys.worksheets(businessId, spreadsheetId || ""),
+    queryFn: async () => {
+      const response = await GoogleService.getWorksheets(businessId, spreadsheetId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch worksheets");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && !!spreadsheetId,
+    retry: false,
+  });
+}
+
+export function usePreviewSheetsRows() {
+  return useMutation({
+    mutationFn: async ({ businessId, columns }: { businessId: number; columns: SheetsColumnMapping[] }) => {
+      const response = await GoogleService.previewSheetsRows(businessId, { columns, limit: 3 });
+      if (!response.success) {
+        throw new Error(response.error || "Failed to preview rows");
+      }
+      return response.data;
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to preview rows");
+    },
+  });
+}
+
+// Saved on the Google integration config, next to the OAuth credentials
+export function useSaveSheetsLogging() {
+  return useMutation({
+    mutationFn: async ({ businessId, sheetsLogging }: { businessId: number; sheetsLogging: SheetsLoggingConfig }) => {
+      const response = await GoogleService.updateGoogleConfig(businessId, { sheets_logging: sheetsLogging });
+      if (!response.success) {
+        throw new Error(response.error || "Failed to save lead logging settings");
+      }
+      return sheetsLogging;
+    },
+    onSuccess: () => {
+      toast.success("Lead logging settings saved");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save lead logging settings");
+    },
+  });
+}
+
+export function useDriveFiles(
+  businessId: number,
+  params: { folder_id?: string; q?: string },
+  options?: { enabled?: boolean }
+) {
+  return useQuery({
+    queryKey: googleKeys.driveFiles(businessId, params),
+    queryFn: async () => {
+      const response = await GoogleService.getDriveFiles(businessId, params);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch Drive files");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && (options?.enabled ?? true),
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+}
+
+export function useKnowledgeSources(businessId: number) {
+  return useQuery({
+    queryKey: googleKeys.knowledgeSources(businessId),
+    queryFn: async () => {
+      const response = await GoogleService.getKnowledgeSources(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch knowledge documents");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId,
+    refetchInterval: (query) => (query.state.data?.some(isKnowledgeSourceIndexing) ? INDEXING_REFETCH_INTERVAL : false),
+  });
+}
+
+export function useKnowledgeMatches(businessId: number, question: string) {
+  return useQuery({
+    queryKey: googleKeys.knowledgeMatches(businessId, question),
+    queryFn: async () => {
+      const response = await GoogleService.searchKnowledge(businessId, question);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to search documents");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && !!question,
+    // Matches change whenever a document is re-indexed
+    staleTime: 0,
+  });
+}
+
+export function useAddKnowledgeSources() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, files }: { businessId: number; files: DriveFile[] }) => {
+      const response = await GoogleService.addKnowledgeSources(businessId, files);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to add documents");
+      }
+      return response.data || [];
+    },
+    onSuccess: (sources, { businessId }) => {
+      queryClient.setQueryData(googleKeys.knowledgeSources(businessId), (old: KnowledgeSource[] = []) => [
+        ...old,
+        ...sources,
+      ]);
+      toast.success(sources.length === 1 ? "Document added" : `${sources.length} documents added`);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to add documents");
+    },
+  });
+}
+
+export function useSyncKnowledgeSource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, sourceId }: { businessId: number; sourceId: number }) => {
+      const response = await GoogleService.syncKnowledgeSource(businessId, sourceId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to re-sync document");
+      }
+      return response.data;
+    },
+    onSuccess: (source, { businessId }) => {
+      queryClient.setQueryData(googleKeys.knowledgeSources(businessId), (old: KnowledgeSource[]) =>
+        replaceKnowledgeSource(old, source)
+      );
+      toast.success("Re-sync started");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to re-sync document");
+    },
+  });
+}
+
+export function useRemoveKnowledgeSource() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, sourceId }: { businessId: number; sourceId: number }) => {
+      const response = await GoogleService.removeKnowledgeSource(businessId, sourceId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to remove document");
+      }
+      return sourceId;
+    },
+    onSuccess: (sourceId, { businessId }) => {
+      queryClient.setQueryData(googleKeys.knowledgeSources(businessId), (old: KnowledgeSource[] = []) =>
+        old.filter((source) => source.id !== sourceId)
+      );
+      toast.success("Document removed");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to remove document");
+    },
+  });
+}
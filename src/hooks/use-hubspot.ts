@@ -0,0 +1,259 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  HubSpotService,
+  type ConversationDealData,
+  type HubSpotContact,
+  type HubSpotContactLink,
+  type HubSpotDealSettings,
+  type HubSpotSyncSettings,
+} from "@/lib/services/hubspot-service";
+import type { Conversation } from "@/lib/services/business-service";
+import { businessKeys } from "./use-businesses";
+import { toast } from "sonner";
+
+// Query keys
+export const hubspotKeys = {
+  all: (businessId: number) => [...businessKeys.detail(businessId), "hubspot"] as const,
+  status: (businessId: number) => [...hubspotKeys.all(businessId), "status"] as const,
+  syncSettings: (businessId: number) => [...hubspotKeys.all(businessId), "sync-settings"] as const,
+  pipelines: (businessId: number) => [...hubspotKeys.all(businessId), "pipelines"] as const,
+  dealSettings: (businessId: number) => [...hubspotKeys.all(businessId), "deal-settings"] as const,
+  contactSearch: (businessId: number, searchTerm: string) =>
+    [...hubspotKeys.all(businessId), "contacts", searchTerm] as const,
+};
+
+// Set the linked contact on every cached conversation list and on the conversation itself
+const setConversationContact = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  businessId: number,
+  conversationId: number,
+  link: HubSpotContactLink | null
+) => {
+  queryClient.setQueriesData(
+    { queryKey: businessKeys.conversations(businessId) },
+    (old: { conversations?: Conversation[] } | undefined) => {
+      if (!old?.conversations) return old;
+      return {
+        ...old,
+        conversations: old.conversations.map((c) => (c.id === conversationId ? { ...c, hubspot_contact: link } : c)),
+      };
+    }
+  );
+  queryClient.setQueryData(businessKeys.conversation(businessId, conversationId), (old: Conversation | undefined) =>
+    old ? { ...old, hubspot_contact: link } : old
+  );
+};
+
+export function useHubSpotStatus(businessId: number) {
+  return useQuery({
+    queryKey: hubspotKeys.status(businessId),
+    queryFn: async () => {
+      const response = await HubSpotService.getConfig(businessId);
+      if (!response.success) {
+        throw new Error(response.error || response.error_message || "Failed to fetch HubSpot status");
+      }
+      return response;
+    },
+    enabled: !!businessId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+}
+
+export function useHubSpotSyncSettings(businessId: number) {
+  return useQuery({
+    queryKey: hubspotKeys.syncSettings(businessId),
+    queryFn: async () => {
+      const response = await HubSpotService.getSyncSettings(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch HubSpot sync settings");
+      }
+      return response.data || null;
+    },
+    enabled: !!businessId,
+  });
+}
+
+export function useUpdateHubSpotSyncSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, settings }: { businessId: number; settings: HubSpotSyncSettings }) => {
+      const response = await HubSpotService.updateSyncSettings(businessId, settings);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to save HubSpot sync settings");
+      }
+      return response.data;
+    },
+    onSuccess: (settings, { businessId }) => {
+      queryClient.setQueryData(hubspotKeys.syncSettings(businessId), settings);
+      toast.success("HubSpot sync settings saved");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save HubSpot sync settings");
+    },
+  });
+}
+
+export function useHubSpotContactSearch(businessId: number, searchTerm: string, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: hubspotKeys.contactSearch(businessId, searchTerm),
+    queryFn: async () => {
+      const response = await HubSpotService.searchContacts(businessId, searchTerm);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to search HubSpot contacts");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && !!searchTerm && (options?.enabled ?? true),
+    retry: false,
+  });
+}
+
+export function useCreateHubSpotContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, data }: { businessId: number; data: HubSpotContact }) => {
+      const response = await HubSpotService.createContact(businessId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to create HubSpot contact");
+      }
+      return response.data;
+    },
+    onSuccess: (_contact, { businessId }) => {
+      // Searches made before may now have one more match
+      queryClient.invalidateQueries({ queryKey: [...hubspotKeys.all(businessId), "contacts"] });
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create HubSpot contact");
+    },
+  });
+}
+
+export function useLinkConversationContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      businessId,
+      conversationId,
+      contactId,
+    }: {
+      businessId: number;
+      conversationId: number;
+      contactId: string;
+    }) => {
+      const response = await HubSpotService.linkConversationContact(businessId, conversationId, contactId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to link HubSpot contact");
+      }
+      return response.data;
+    },
+    onSuccess: (link, { businessId, conversationId }) => {
+      setConversationContact(queryClient, businessId, conversationId, link);
+      toast.success("Conversation linked to HubSpot contact");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to link HubSpot contact");
+    },
+  });
+}
+
+export function useUnlinkConversationContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, conversationId }: { businessId: number; conversationId: number }) => {
+      const response = await HubSpotService.unlinkConversationContact(businessId, conversationId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to unlink HubSpot contact");
+      }
+      return conversationId;
+    },
+    onSuccess: (conversationId, { businessId }) => {
+      setConversationContact(queryClient, businessId, conversationId, null);
+      toast.success("HubSpot contact unlinked");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to unlink HubSpot contact");
+    },
+  });
+}
+
+export function useHubSpotPipelines(businessId: number, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: hubspotKeys.pipelines(businessId),
+    queryFn: async () => {
+      const response = await HubSpotService.getPipelines(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch HubSpot pipelines");
+      }
+      return response.data || [];
+    },
+    enabled: !!businessId && (options?.enabled ?? true),
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+}
+
+export function useHubSpotDealSettings(businessId: number, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: hubspotKeys.dealSettings(businessId),
+    queryFn: async () => {
+      const response = await HubSpotService.getDealSettings(businessId);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch HubSpot deal settings");
+      }
+      return response.data || null;
+    },
+    enabled: !!businessId && (options?.enabled ?? true),
+  });
+}
+
+export function useUpdateHubSpotDealSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ businessId, settings }: { businessId: number; settings: HubSpotDealSettings }) => {
+      const response = await HubSpotService.updateDealSettings(businessId, settings);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to save HubSpot deal settings");
+      }
+      return response.data;
+    },
+    onSuccess: (settings, { businessId }) => {
+      queryClient.setQueryData(hubspotKeys.dealSettings(businessId), settings);
+      toast.success("HubSpot deal settings saved");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to save HubSpot deal settings");
+    },
+  });
+}
+
+export function useCreateConversationDeal() {
+  return useMutation({
+    mutationFn: async ({
+      businessId,
+      conversationId,
+      data,
+    }: {
+      businessId: number;
+      conversationId: number;
+      data: ConversationDealData;
+    }) => {
+      const response = await HubSpotService.createConversationDeal(businessId, conversationId, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to create HubSpot deal");
+      }
+      return response.data;
+    },
+    onSuccess: (deal) => {
+      toast.success(`Deal "${deal.name}" created in HubSpot`);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create HubSpot deal");
+    },
+  });
+}
@@ -0,0 +1,73 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+// Shared through localStorage so activity in any tab keeps every tab alive
+const LAST_ACTIVITY_KEY = "last_activity_at";
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "scroll", "touchstart", "wheel"] as const;
+const ACTIVITY_THROTTLE = 5 * 1000;
+const CHECK_INTERVAL = 1000;
+
+interface UseIdleTimeoutOptions {
+  timeout: number; // ms of inactivity before onIdle fires
+  warningTime: number; // ms before the timeout at which the warning starts
+  enabled?: boolean;
+  onIdle: () => void;
+}
+
+const readLastActivity = () => Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || Date.now();
+
+export function useIdleTimeout({ timeout, warningTime, enabled = true, onIdle }: UseIdleTimeoutOptions) {
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const lastWriteRef = useRef(0);
+  const warningRef = useRef(false);
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  // Record activity, throttled to keep localStorage writes cheap
+  const markActive = useCallback((force = false) => {
+    const now = Date.now();
+    if (!force && now - lastWriteRef.current < ACTIVITY_THROTTLE) return;
+    lastWriteRef.current = now;
+    localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+  }, []);
+
+  const reset = useCallback(() => {
+    markActive(true);
+    warningRef.current = false;
+    setRemaining(null);
+  }, [markActive]);
+
+  useEffect(() => {
+    if (!enabled) {
+      warningRef.current = false;
+      setRemaining(null);
+      return;
+    }
+
+    markActive(true);
+    // Once the warning shows, only an explicit reset() keeps the session alive
+    const handleActivity = () => !warningRef.current && markActive();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+
+    const interval = setInterval(() => {
+      const left = readLastActivity() + timeout - Date.now();
+      warningRef.current = left > 0 && left <= warningTime;
+      if (left <= 0) {
+        setRemaining(null);
+        onIdleRef.current();
+      } else {
+        setRemaining(warningRef.current ? left : null);
+      }
+    }, CHECK_INTERVAL);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+      clearInterval(interval);
+    };
+  }, [enabled, timeout, warningTime, markActive]);
+
+  return {
+    isWarning: remaining !== null,
+    remaining,
+    reset,
+  };
+}
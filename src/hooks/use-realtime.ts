@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { API_ENDPOINTS, getEndpoint } from "@/config";
+import {
+  RealtimeClient,
+  type EventSourceFactory,
+  type RealtimeConnectionState,
+  type RealtimeEvent,
+} from "@/lib/realtime-client";
+import type { Conversation, Message } from "@/lib/services/business-service";
+import { businessKeys, mapCachedMessages, upsertCachedMessage } from "./use-businesses";
+
+type ConversationsData = { conversations: Conversation[]; total: number; page: number; limit: number };
+
+// Delivery statuses only move forward; late events must not downgrade a message.
+// A message that was read cannot have failed, so a late "failed" does not override "read"
+const STATUS_ORDER: Record<Message["status"], number> = {
+  sent: 0,
+  delivered: 1,
+  failed: 2,
+  read: 3,
+};
+
+const isConversationsData = (data: unknown): data is ConversationsData =>
+  !!data && Array.isArray((data as ConversationsData).conversations);
+
+const sortByLastMessage = (conversations: Conversation[]) =>
+  [...conversations].sort(
+    (a, b) => new Date(b.last_message_at).getTime() - new Date(a.last_message_at).getTime()
+  );
+
+// Apply a single stream event to the react-query cache of a business
+export function applyRealtimeEvent(queryClient: QueryClient, businessId: number, event: RealtimeEvent) {
+  switch (event.type) {
+    case "message.created": {
+      const { message, conversation_id } = event;
+      const isNew = upsertCachedMessage(queryClient, businessId, conversation_id, message);
+
+      queryClient.setQueriesData<ConversationsData>({ queryKey: businessKeys.conversations(businessId) }, (old) => {
+        if (!isConversationsData(old)) return old;
+
+        const existing = old.conversations.find((c) => c.id === conversation_id);
+        if (!existing) {
+          if (!event.conversation) return old;
+          return {
+            ...old,
+            conversations: sortByLastMessage([event.conversation, ...old.conversations]),
+            total: old.total + 1,
+          };
+        }
+
+        const updated: Conversation = event.conversation || {
+          ...existing,
+          last_message_at: message.created_at,
+          message_count: existing.message_count + (isNew ? 1 : 0),
+        };
+        return {
+          ...old,
+          conversations: sortByLastMessage(old.conversations.map((c) => (c.id === conversation_id ? updated : c))),
+        };
+      });
+
+      // A brand new conversation we have no summary for: refetch the lists
+      if (!event.conversation) {
+        const lists = queryClient.getQueriesData<ConversationsData>({ queryKey: businessKeys.conversations(businessId) });
+        const known = lists.some(
+          ([, data]) => isConversationsData(data) && data.conversations.some((c) => c.id === conversation_id)
+        );
+        if (!known) {
+          queryClient.invalidateQueries({ queryKey: businessKeys.conversations(businessId) });
+        }
+      }
+      break;
+    }
+
+    case "message.status": {
+      mapCachedMessages(queryClient, businessId, event.conversation_id, (m) =>
+        m.message_id === event.message_id && STATUS_ORDER[event.status] > STATUS_ORDER[m.status]
+          ? { ...m, status: event.status }
+          : m
+      );
+      break;
+    }
+
+    case "conversation.updated": {
+      queryClient.setQueriesData<ConversationsData>({ queryKey: businessKeys.conversations(businessId) }, (old) => {
+        if (!isConversationsData(old)) return old;
+        return {
+          ...old,
+          conversations: sortByLastMessage(
+            old.conversations.map((c) => (c.id === event.conversation.id ? { ...c, ...event.conversation } : c))
+          ),
+        };
+      });
+      queryClient.setQueryData<Conversation>(
+        businessKeys.conversation(businessId, event.conversation.id),
+        (old) => old && { ...old, ...event.conversation }
+      );
+      break;
+    }
+
+    default:
+      break;
+  }
+}
+
+// Live conversation updates for a business
+export function useConversationStream(
+  businessId: number,
+  options?: { enabled?: boolean; eventSourceFactory?: EventSourceFactory }
+) {
+  const queryClient = useQueryClient();
+  const [connectionState, setConnectionState] = useState<RealtimeConnectionState>("idle");
+  const hasConnectedRef = useRef(false);
+
+  const enabled = !!businessId && options?.enabled !== false;
+  const eventSourceFactory = options?.eventSourceFactory;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const client = new RealtimeClient(getEndpoint(API_ENDPOINTS.REALTIME.STREAM(businessId)), {
+      eventSourceFactory,
+    });
+    hasConnectedRef.current = false;
+
+    const unsubscribeEvents = client.subscribe((event) => applyRealtimeEvent(queryClient, businessId, event));
+    const unsubscribeState = client.onStateChange((state) => {
+      setConnectionState(state);
+
+      if (state === "open") {
+        // Events may have been missed while disconnected, resync from the API
+        if (hasConnectedRef.current) {
+          queryClient.invalidateQueries({ queryKey: businessKeys.conversations(businessId) });
+        }
+        hasConnectedRef.current = true;
+      }
+    });
+
+    client.connect();
+
+    return () => {
+      unsubscribeEvents();
+      unsubscribeState();
+      client.close();
+    };
+  }, [businessId, enabled, eventSourceFactory, queryClient]);
+
+  return {
+    connectionState,
+    isLive: connectionState === "open",
+  };
+}
@@ -0,0 +1,95 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { userService, type InviteUserData, type UpdateUserData } from "@/lib/services/user-service";
+import type { User } from "@/lib/services/auth-service";
+import { toast } from "sonner";
+
+// Query keys
+export const userKeys = {
+  all: ["users"] as const,
+  lists: () => [...userKeys.all, "list"] as const,
+};
+
+const replaceUser = (users: User[] = [], updated: User) =>
+  users.map((user) => (user.id === updated.id ? updated : user));
+
+// Get all users
+export function useUsers(options: { enabled?: boolean } = {}) {
+  return useQuery({
+    queryKey: userKeys.lists(),
+    queryFn: async () => {
+      const response = await userService.getUsers();
+      if (!response.success) {
+        throw new Error(response.error || "Failed to fetch users");
+      }
+      return response.data || [];
+    },
+    enabled: options.enabled ?? true,
+    staleTime: 60 * 1000,
+  });
+}
+
+// Invite user mutation
+export function useInviteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (data: InviteUserData) => {
+      const response = await userService.inviteUser(data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to invite user");
+      }
+      return response.data;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(userKeys.lists(), (old: User[] = []) => [...old, user]);
+      toast.success(`Invitation sent to ${user.email}`);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to invite user");
+    },
+  });
+}
+
+// Change role or enable/disable a user
+export function useUpdateUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: UpdateUserData }) => {
+      const response = await userService.updateUser(id, data);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update user");
+      }
+      return response.data;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(userKeys.lists(), (old: User[] = []) => replaceUser(old, user));
+      toast.success("User updated successfully");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update user");
+    },
+  });
+}
+
+// Assign businesses to a user
+export function useSetUserBusinesses() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, businessIds }: { id: number; businessIds: number[] }) => {
+      const response = await userService.setUserBusinesses(id, businessIds);
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update business assignment");
+      }
+      return response.data;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(userKeys.lists(), (old: User[] = []) => replaceUser(old, user));
+      toast.success("Business assignment updated");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update business assignment");
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import type { AirtableFieldMapping, AirtableTableConfig, AirtableTableSchema } from "@/lib/services/airtable-service";
+
+// Column names customers commonly use for each part of a record, in order of preference
+const FIELD_NAME_HINTS: Record<keyof AirtableFieldMapping, string[]> = {
+  question: ["question", "questions", "faq", "title", "name", "product", "day", "topic"],
+  answer: ["answer", "answers", "response", "description", "details", "hours", "opening hours", "price"],
+  category: ["category", "categories", "type", "section", "group"],
+  tags: ["tags", "tag", "keywords", "labels"],
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/[_-]+/g, " ");
+
+// Best-effort mapping from field names, so most tables only need a quick check
+export function guessFieldMapping(table: AirtableTableSchema): AirtableFieldMapping {
+  const used = new Set<string>();
+  const pick = (key: keyof AirtableFieldMapping) => {
+    for (const hint of FIELD_NAME_HINTS[key]) {
+      const field = table.fields.find((item) => !used.has(item.name) && normalizeName(item.name) === hint);
+      if (field) {
+        used.add(field.name);
+        return field.name;
+      }
+    }
+    return undefined;
+  };
+
+  const question = pick("question");
+  const answer = pick("answer");
+  return {
+    question: question || "",
+    answer: answer || "",
+    category: pick("category"),
+    tags: pick("tags"),
+  };
+}
+
+export const isFieldMappingComplete = (mapping: AirtableFieldMapping) => !!mapping.question && !!mapping.answer;
+
+// Mapped fields that no longer exist in the discovered schema, e.g. after a column was renamed
+export function findMissingFields(config: AirtableTableConfig, schema: AirtableTableSchema[]): string[] {
+  const table = schema.find((item) => item.id === config.table_id);
+  if (!table) return [];
+  const names = new Set(table.fields.map((field) => field.name));
+  return Object.values(config.field_mapping).filter((name): name is string => !!name && !names.has(name));
+}
@@ -0,0 +1,59 @@
+import { differenceInCalendarDays, eachDayOfInterval, format, parseISO, subDays } from "date-fns";
+
+export interface DateRange {
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+}
+
+export const DATE_RANGE_PRESETS = [
+  { value: "7", label: "Last 7 days" },
+  { value: "30", label: "Last 30 days" },
+  { value: "90", label: "Last 90 days" },
+] as const;
+
+export const CHART_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(199, 89%, 48%)",
+  "hsl(142, 71%, 45%)",
+  "hsl(38, 92%, 50%)",
+  "hsl(0, 84%, 60%)",
+];
+
+const toDateString = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Range ending today and covering `days` calendar days
+export function lastDaysRange(days: number): DateRange {
+  const today = new Date();
+  return {
+    startDate: toDateString(subDays(today, days - 1)),
+    endDate: toDateString(today),
+  };
+}
+
+// The equally long period immediately before `range`, used for period-over-period comparison
+export function previousPeriod(range: DateRange): DateRange {
+  const start = parseISO(range.startDate);
+  const length = differenceInCalendarDays(parseISO(range.endDate), start) + 1;
+  return {
+    startDate: toDateString(subDays(start, length)),
+    endDate: toDateString(subDays(start, 1)),
+  };
+}
+
+// Percentage change from `previous` to `current`; null when there is no baseline
+export function percentChange(current: number, previous: number): number | null {
+  if (!previous) return current ? null : 0;
+  return ((current - previous) / previous) * 100;
+}
+
+// Fill days without conversations so the chart has a continuous axis
+export function fillDailySeries(
+  series: Array<{ date: string; count: number }> = [],
+  range: DateRange
+): Array<{ date: string; count: number }> {
+  const counts = new Map(series.map((point) => [point.date.slice(0, 10), point.count]));
+  return eachDayOfInterval({ start: parseISO(range.startDate), end: parseISO(range.endDate) }).map((day) => {
+    const date = toDateString(day);
+    return { date, count: counts.get(date) || 0 };
+  });
+}
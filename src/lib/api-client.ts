@@ -1,4 +1,5 @@
-import { API_CONFIG, API_ERRORS, HTTP_STATUS, type ApiErrorType } from "@/config";
+import { API_CONFIG, API_ENDPOINTS, API_ERRORS, HTTP_STATUS, type ApiErrorType } from "@/config";
+import { withRefreshLock } from "@/lib/session";
 
 // Enhanced API response interface
 export interface ApiResponse<T = any> {
@@ -32,6 +33,25 @@ interface RequestConfig extends RequestInit {
   retries?: number;
   retryDelay?: number;
   skipAuth?: boolean;
+  skipAuthRefresh?: boolean; // set on replayed requests so a second 401 is not refreshed again
+  sentToken?: string | null; // access token the request went out with, set by the auth interceptor
+}
+
+// Request details handed to response interceptors
+interface ResponseInterceptorContext {
+  url: string;
+  config: RequestConfig;
+  timeout: number;
+}
+
+type ResponseInterceptor = (
+  response: Response,
+  context: ResponseInterceptorContext
+) => Response | Promise<Response>;
+
+interface RefreshResponse {
+  token: string;
+  refresh_token?: string;
 }
 
 // Token management
@@ -66,7 +86,11 @@ export class ApiClient {
   private readonly baseURL: string;
   private readonly defaultTimeout: number;
   private requestInterceptors: Array<(config: RequestConfig) => RequestConfig> = [];
-  private responseInterceptors: Array<(response: Response) => Response | Promise<Response>> = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+  // In-flight refresh shared by every request that hits a 401 meanwhile
+  private refreshPromise: Promise<string | null> | null = null;
+  private tokenRefreshListeners = new Set<(token: string) => void>();
+  private authFailureListeners = new Set<() => void>();
 
   constructor(baseURL: string, timeout: number = API_CONFIG.TIMEOUT) {
     this.baseURL = baseURL;
@@ -76,6 +100,7 @@ export class ApiClient {
     this.addRequestInterceptor((config) => {
       if (!config.skipAuth) {
         const token = TokenManager.getToken();
+        config.sentToken = token;
         if (token) {
           config.headers = {
             ...config.headers,
@@ -85,6 +110,32 @@ export class ApiClient {
       }
       return config;
     });
+
+    // Refresh the access token on 401 and replay the request once
+    this.addResponseInterceptor(async (response, { url, config, timeout }) => {
+      if (response.status !== HTTP_STATUS.UNAUTHORIZED || config.skipAuth || config.skipAuthRefresh) {
+        return response;
+      }
+
+      // Another request already refreshed since this one was sent, so its token is reused rather than
+      // spending the (rotating) refresh token a second time
+      const currentToken = TokenManager.getToken();
+      const token =
+        currentToken && currentToken !== config.sentToken ? currentToken : await this.refreshAccessToken();
+      if (!token) {
+        return response;
+      }
+
+      return this.fetchWithTimeout(
+        url,
+        {
+          ...config,
+          skipAuthRefresh: true,
+          headers: { ...config.headers, Authorization: `Bearer ${token}` },
+        },
+        timeout
+      );
+    });
   }
 
   // Add request interceptor
@@ -93,10 +144,103 @@ export class ApiClient {
   }
 
   // Add response interceptor
-  addResponseInterceptor(interceptor: (response: Response) => Response | Promise<Response>): void {
+  addResponseInterceptor(interceptor: ResponseInterceptor): void {
     this.responseInterceptors.push(interceptor);
   }
 
+  // Notified with the new access token after a successful refresh
+  onTokenRefresh(listener: (token: string) => void): () => void {
+    this.tokenRefreshListeners.add(listener);
+    return () => this.tokenRefreshListeners.delete(listener);
+  }
+
+  // Notified when the session cannot be refreshed and the user has to sign in again
+  onAuthFailure(listener: () => void): () => void {
+    this.authFailureListeners.add(listener);
+    return () => this.authFailureListeners.delete(listener);
+  }
+
+  // Single-flight refresh: concurrent callers share one /auth/refresh request
+  refreshAccessToken(): Promise<string | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private performRefresh(): Promise<string | null> {
+    const accessToken = TokenManager.getToken();
+    const refreshToken = TokenManager.getRefreshToken();
+
+    return withRefreshLock(async () => {
+      // Another tab refreshed or signed out while this one waited for the lock; its result is already stored
+      if (this.tokensChangedSince(accessToken, refreshToken)) {
+        return TokenManager.getToken();
+      }
+
+      return this.refreshWith(refreshToken);
+    });
+  }
+
+  private tokensChangedSince(accessToken: string | null, refreshToken: string | null): boolean {
+    return TokenManager.getToken() !== accessToken || TokenManager.getRefreshToken() !== refreshToken;
+  }
+
+  private async refreshWith(refreshToken: string | null): Promise<string | null> {
+    const accessToken = TokenManager.getToken();
+
+    try {
+      if (!refreshToken) {
+        throw new ApiError("No refresh token", HTTP_STATUS.UNAUTHORIZED, API_ERRORS.AUTHENTICATION_ERROR);
+      }
+
+      const response = await this.post<RefreshResponse>(
+        API_ENDPOINTS.AUTH.REFRESH,
+        { refresh_token: refreshToken },
+        { skipAuth: true, retries: 0 }
+      );
+      if (!response.success || !response.data?.token) {
+        throw new ApiError(
+          response.error || "Token refresh failed",
+          HTTP_STATUS.UNAUTHORIZED,
+          API_ERRORS.AUTHENTICATION_ERROR
+        );
+      }
+
+      TokenManager.setToken(response.data.token);
+      if (response.data.refresh_token) {
+        TokenManager.setRefreshToken(response.data.refresh_token);
+      }
+      this.tokenRefreshListeners.forEach((listener) => listener(response.data.token));
+      return response.data.token;
+    } catch (error) {
+      if (API_CONFIG.ENABLE_LOGGING) {
+        console.log("Token refresh failed:", error);
+      }
+      // A rotated refresh token is rejected when another tab refreshed first; keep the session it stored
+      if (this.tokensChangedSince(accessToken, refreshToken)) {
+        return TokenManager.getToken();
+      }
+
+      TokenManager.clearTokens();
+      this.authFailureListeners.forEach((listener) => listener());
+      return null;
+    }
+  }
+
+  private async fetchWithTimeout(url: string, config: RequestConfig, timeout: number): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    try {
+      return await fetch(url, { ...config, signal: controller.signal });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   // Sleep utility for retry delays
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
@@ -113,28 +257,30 @@ export class ApiClient {
 
     const url = `${this.baseURL}${endpoint}`;
 
+    // Queue behind an in-flight refresh so the request goes out with the new token
+    if (this.refreshPromise && !requestConfig.skipAuth) {
+      await this.refreshPromise;
+    }
+
     // Apply request interceptors
     let finalConfig = { ...requestConfig };
     for (const interceptor of this.requestInterceptors) {
       finalConfig = interceptor(finalConfig);
     }
 
-    // Set default headers
-    finalConfig.headers = {
-      "Content-Type": "application/json",
-      ...finalConfig.headers,
-    };
+    // Set default headers (multipart bodies need the browser to set their own boundary)
+    finalConfig.headers =
+      finalConfig.body instanceof FormData
+        ? { ...finalConfig.headers }
+        : {
+            "Content-Type": "application/json",
+            ...finalConfig.headers,
+          };
 
     let lastError: Error;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
-        // Create abort controller for timeout
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-        finalConfig.signal = controller.signal;
-
         if (API_CONFIG.ENABLE_LOGGING) {
           console.log(`API Request [Attempt ${attempt + 1}]:`, {
             method: finalConfig.method || "GET",
@@ -143,12 +289,11 @@ export class ApiClient {
           });
         }
 
-        let response = await fetch(url, finalConfig);
-        clearTimeout(timeoutId);
+        let response = await this.fetchWithTimeout(url, finalConfig, timeout);
 
         // Apply response interceptors
         for (const interceptor of this.responseInterceptors) {
-          response = await interceptor(response);
+          response = await interceptor(response, { url, config: finalConfig, timeout });
         }
 
         const data = await response.json();
@@ -230,6 +375,15 @@ export class ApiClient {
     });
   }
 
+  // Multipart upload, e.g. for media attachments
+  async upload<T>(endpoint: string, formData: FormData, config?: RequestConfig): Promise<ApiResponse<T>> {
+    return this.makeRequest<T>(endpoint, {
+      ...config,
+      method: "POST",
+      body: formData,
+    });
+  }
+
   async put<T>(endpoint: string, data?: any, config?: RequestConfig): Promise<ApiResponse<T>> {
     return this.makeRequest<T>(endpoint, {
       ...config,
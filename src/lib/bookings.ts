@@ -0,0 +1,70 @@
+import type { BookingSettings, BookingWorkingHours } from "@/lib/services/booking-service";
+
+export const CONFIRMATION_PLACEHOLDERS = ["{{name}}", "{{date}}", "{{time}}"];
+
+export const DEFAULT_CONFIRMATION_TEMPLATE =
+  "Thanks {{name}}, your appointment is booked for {{date}} at {{time}}. Reply here if you need to change it.";
+
+// Monday to Friday, 9 to 5
+export const DEFAULT_WORKING_HOURS: BookingWorkingHours[] = [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+  day,
+  enabled: day >= 1 && day <= 5,
+  start: "09:00",
+  end: "17:00",
+}));
+
+export const DEFAULT_BOOKING_SETTINGS: Omit<BookingSettings, "calendar_id" | "updated_at"> = {
+  enabled: false,
+  working_hours: DEFAULT_WORKING_HOURS,
+  slot_minutes: 30,
+  buffer_before_minutes: 0,
+  buffer_after_minutes: 0,
+  max_days_ahead: 30,
+  blackout_dates: [],
+  confirmation_template: DEFAULT_CONFIRMATION_TEMPLATE,
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Appointments that fit into one day's working hours, with the buffers kept free between them
+export function countDailySlots(
+  hours: Pick<BookingWorkingHours, "enabled" | "start" | "end">,
+  slotMinutes: number,
+  bufferBefore = 0,
+  bufferAfter = 0
+): number {
+  if (!hours.enabled || slotMinutes <= 0) return 0;
+  const available = toMinutes(hours.end) - toMinutes(hours.start);
+  const perSlot = slotMinutes + bufferBefore + bufferAfter;
+  return available > 0 ? Math.floor((available + bufferBefore + bufferAfter) / perSlot) : 0;
+}
+
+export const isValidTimeRange = (start: string, end: string) => !!start && !!end && toMinutes(end) > toMinutes(start);
+
+export const renderConfirmationMessage = (template: string, values: Record<"name" | "date" | "time", string>) =>
+  template.replace(/\{\{\s*(name|date|time)\s*\}\}/g, (_, key: keyof typeof values) => values[key]);
+
+// Appointment times in the calendar's time zone, the zone working hours are defined in.
+// Without one they fall back to the browser's zone.
+export const formatAppointmentTime = (date: string | Date, timeZone?: string) =>
+  new Intl.DateTimeFormat(undefined, { hour: "numeric", minute: "2-digit", timeZone }).format(new Date(date));
+
+export const formatAppointmentDay = (date: string | Date, timeZone?: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    weekday: "long",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    timeZone,
+  }).format(new Date(date));
+
+// yyyy-mm-dd of the date in the time zone, to group appointments by the calendar's day
+export const getAppointmentDayKey = (date: string | Date, timeZone?: string) =>
+  new Intl.DateTimeFormat("en-CA", { year: "numeric", month: "2-digit", day: "2-digit", timeZone }).format(
+    new Date(date)
+  );
+
+export const getBrowserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
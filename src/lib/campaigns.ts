@@ -0,0 +1,50 @@
+export interface ParsedPhoneList {
+  phoneNumbers: string[]; // normalized, unique
+  invalid: string[]; // raw values that are not phone numbers
+}
+
+const PHONE_HEADERS = ["phone", "phone_number", "phone number", "number", "mobile", "whatsapp"];
+
+// Digits only, as WhatsApp expects them (country code, no leading + or 00)
+export function normalizePhoneNumber(value: string): string | null {
+  const digits = value.replace(/[\s().-]/g, "").replace(/^(\+|00)/, "");
+  return /^\d{7,15}$/.test(digits) ? digits : null;
+}
+
+const splitCsvLine = (line: string) =>
+  line.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"(.*)"$/, "$1").trim());
+
+// Reads phone numbers from a CSV export. Uses the column with a phone-like header,
+// or the first column when the file has no header row.
+export function parsePhoneNumberCsv(text: string): ParsedPhoneList {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map(splitCsvLine);
+  if (!rows.length) return { phoneNumbers: [], invalid: [] };
+
+  const headerIndex = rows[0].findIndex((cell) => PHONE_HEADERS.includes(cell.toLowerCase()));
+  const hasHeader = headerIndex !== -1 || !normalizePhoneNumber(rows[0][0] || "");
+  const column = Math.max(headerIndex, 0);
+
+  const phoneNumbers = new Set<string>();
+  const invalid: string[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((row) => {
+    const value = row[column] || "";
+    const normalized = normalizePhoneNumber(value);
+    if (normalized) {
+      phoneNumbers.add(normalized);
+    } else if (value) {
+      invalid.push(value);
+    }
+  });
+
+  return { phoneNumbers: Array.from(phoneNumbers), invalid };
+}
+
+// Minutes a campaign needs at the given throttle
+export function estimateSendMinutes(recipients: number, perMinute: number): number {
+  if (!recipients || perMinute <= 0) return 0;
+  return Math.ceil(recipients / perMinute);
+}
@@ -0,0 +1,303 @@
+import { BusinessService, type Conversation, type Message } from "@/lib/services/business-service";
+
+export type ExportFormat = "csv" | "json" | "print";
+
+export interface ExportDateRange {
+  startDate?: string; // yyyy-mm-dd, inclusive
+  endDate?: string; // yyyy-mm-dd, inclusive
+}
+
+export interface ConversationTranscript {
+  conversation: Conversation;
+  messages: Message[];
+}
+
+export interface ExportProgress {
+  conversationsDone: number;
+  conversationsTotal: number;
+  messagesLoaded: number;
+}
+
+const EXPORT_PAGE_SIZE = 100;
+
+const CSV_COLUMNS = [
+  "conversation_id",
+  "phone_number",
+  "contact_name",
+  "message_id",
+  "created_at",
+  "direction",
+  "sent_by",
+  "message_type",
+  "status",
+  "content",
+  "file_name",
+  "media_url",
+] as const;
+
+// Date range check on local calendar days, both ends inclusive
+const isWithinRange = (dateString: string, range: ExportDateRange) => {
+  const time = new Date(dateString).getTime();
+  if (range.startDate && time < new Date(`${range.startDate}T00:00:00`).getTime()) return false;
+  if (range.endDate && time > new Date(`${range.endDate}T23:59:59.999`).getTime()) return false;
+  return true;
+};
+
+// Load every message of a conversation through the paged messages endpoint
+export async function fetchAllConversationMessages(
+  conversationId: number,
+  range: ExportDateRange = {},
+  onPage?: (loaded: number) => void
+): Promise<Message[]> {
+  const messages: Message[] = [];
+  const seen = new Set<string>();
+  let page = 1;
+  let total = Infinity;
+
+  while ((page - 1) * EXPORT_PAGE_SIZE < total) {
+    const response = await BusinessService.getConversationMessages(conversationId, { page, limit: EXPORT_PAGE_SIZE });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || "Failed to fetch messages");
+    }
+
+    total = response.data.total;
+    response.data.messages.forEach((message) => {
+      if (seen.has(message.message_id)) return;
+      seen.add(message.message_id);
+      messages.push(message);
+    });
+    onPage?.(messages.length);
+
+    if (response.data.messages.length === 0) break;
+    page += 1;
+  }
+
+  return messages
+    .filter((message) => isWithinRange(message.created_at, range))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+}
+
+// Load every conversation of a business with activity in the date range
+export async function fetchBusinessConversations(
+  businessId: number,
+  range: ExportDateRange = {}
+): Promise<Conversation[]> {
+  const conversations: Conversation[] = [];
+  let page = 1;
+  let total = Infinity;
+
+  while ((page - 1) * EXPORT_PAGE_SIZE < total) {
+    const response = await BusinessService.getConversations(businessId, {
+      page,
+      limit: EXPORT_PAGE_SIZE,
+      start_date: range.startDate,
+      end_date: range.endDate,
+    });
+    if (!response.success || !response.data) {
+      throw new Error(response.error || "Failed to fetch conversations");
+    }
+
+    total = response.data.total;
+    conversations.push(...response.data.conversations);
+
+    if (response.data.conversations.length === 0) break;
+    page += 1;
+  }
+
+  return conversations;
+}
+
+// Build transcripts for the given conversations, skipping ones without messages in range
+export async function buildTranscripts(
+  conversations: Conversation[],
+  range: ExportDateRange = {},
+  onProgress?: (progress: ExportProgress) => void
+): Promise<ConversationTranscript[]> {
+  const transcripts: ConversationTranscript[] = [];
+  let messagesLoaded = 0;
+
+  for (const [index, conversation] of conversations.entries()) {
+    const messages = await fetchAllConversationMessages(conversation.id, range, (loaded) =>
+      onProgress?.({
+        conversationsDone: index,
+        conversationsTotal: conversations.length,
+        messagesLoaded: messagesLoaded + loaded,
+      })
+    );
+    messagesLoaded += messages.length;
+
+    if (messages.length > 0) {
+      transcripts.push({ conversation, messages });
+    }
+    onProgress?.({ conversationsDone: index + 1, conversationsTotal: conversations.length, messagesLoaded });
+  }
+
+  return transcripts;
+}
+
+const escapeCsvValue = (value: unknown) => {
+  if (value === undefined || value === null) return "";
+  // Spreadsheet apps run customer text starting with these as a formula, so it is prefixed to stay text
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function transcriptsToCsv(transcripts: ConversationTranscript[]): string {
+  const rows = transcripts.flatMap(({ conversation, messages }) =>
+    messages.map((message) =>
+      [
+        conversation.id,
+        conversation.phone_number,
+        conversation.contact_name,
+        message.message_id,
+        message.created_at,
+        message.direction,
+        message.sent_by,
+        message.message_type,
+        message.status,
+        message.content,
+        message.file_name,
+        message.media_url,
+      ]
+        .map(escapeCsvValue)
+        .join(",")
+    )
+  );
+
+  // BOM so spreadsheet apps detect UTF-8
+  return "\uFEFF" + [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+export function transcriptsToJson(
+  transcripts: ConversationTranscript[],
+  meta: { businessName: string; range: ExportDateRange }
+): string {
+  return JSON.stringify(
+    {
+      business: meta.businessName,
+      exported_at: new Date().toISOString(),
+      range: { start_date: meta.range.startDate || null, end_date: meta.range.endDate || null },
+      conversations: transcripts.map(({ conversation, messages }) => ({ ...conversation, messages })),
+    },
+    null,
+    2
+  );
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export function transcriptsToPrintableHtml(
+  transcripts: ConversationTranscript[],
+  meta: { businessName: string; range: ExportDateRange }
+): string {
+  const rangeLabel =
+    meta.range.startDate || meta.range.endDate
+      ? `${meta.range.startDate || "…"} – ${meta.range.endDate || "…"}`
+      : "All time";
+
+  const sections = transcripts
+    .map(({ conversation, messages }) => {
+      const rows = messages
+        .map((message) => {
+          const sender =
+            message.direction === "inbound" ? "Customer" : message.sent_by === "agent" ? "Agent" : "Bot";
+          const media = message.media_url
+            ? `<div class="media">${escapeHtml(message.file_name || message.message_type)}: <a href="${escapeHtml(
+                message.media_url
+              )}">${escapeHtml(message.media_url)}</a></div>`
+            : "";
+          return `<tr class="${message.direction}">
+  <td class="time">${escapeHtml(new Date(message.created_at).toLocaleString())}</td>
+  <td class="sender">${sender}</td>
+  <td>${escapeHtml(message.content || "")}${media}</td>
+  <td class="status">${message.direction === "outbound" ? escapeHtml(message.status) : ""}</td>
+</tr>`;
+        })
+        .join("\n");
+
+      return `<section>
+  <h2>${escapeHtml(conversation.contact_name || conversation.phone_number)}</h2>
+  <p class="meta">${escapeHtml(conversation.phone_number)} · ${messages.length} messages · ${escapeHtml(
+        conversation.status
+      )}</p>
+  <table>
+    <thead><tr><th>Time</th><th>From</th><th>Message</th><th>Status</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(meta.businessName)} – Conversation transcript</title>
+<style>
+  body { font-family: system-ui, sans-serif; font-size: 12px; color: #111; margin: 24px; }
+  h1 { font-size: 18px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 2px; }
+  .meta { color: #555; margin: 0 0 8px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 4px 6px; border-bottom: 1px solid #ddd; }
+  td.time { white-space: nowrap; width: 1%; }
+  td.sender, td.status { white-space: nowrap; width: 1%; }
+  tr.outbound td { background: #f5f7fb; }
+  .media { color: #555; word-break: break-all; }
+  section { page-break-inside: auto; }
+  section + section { page-break-before: always; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(meta.businessName)}</h1>
+<p class="meta">Conversation transcript · ${escapeHtml(rangeLabel)} · exported ${escapeHtml(
+    new Date().toLocaleString()
+  )}</p>
+${sections || "<p>No messages in the selected range.</p>"}
+</body>
+</html>`;
+}
+
+export function downloadFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Opens the print window with a loading message. Call it straight from the click handler:
+// pop-up blockers only allow window.open while the click's user activation lasts
+export function openPrintWindow(): Window | null {
+  const printWindow = window.open("", "_blank");
+  if (!printWindow) return null;
+
+  printWindow.document.open();
+  printWindow.document.write(
+    "<!DOCTYPE html><html><head><title>Preparing transcript...</title></head>" +
+      '<body style="font-family: sans-serif; color: #666; padding: 2rem;">Preparing transcript...</body></html>'
+  );
+  printWindow.document.close();
+  return printWindow;
+}
+
+// Writes the transcript into a window from openPrintWindow and triggers the print dialog (Save as PDF)
+export function writePrintableTranscript(printWindow: Window, html: string) {
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  // Give the new document a moment to lay out before printing
+  setTimeout(() => printWindow.print(), 250);
+}
@@ -0,0 +1,44 @@
+import type { EscalationTrigger } from "@/lib/services/escalation-service";
+
+export const ESCALATION_TRIGGERS: { value: EscalationTrigger; label: string; description: string }[] = [
+  {
+    value: "human_request",
+    label: "Asks for a human",
+    description: 'The customer asks to talk to a person, e.g. "can I speak to someone?"',
+  },
+  {
+    value: "negative_sentiment",
+    label: "Negative sentiment",
+    description: "The customer sounds upset or frustrated",
+  },
+  {
+    value: "unanswered_faq",
+    label: "Unanswered question",
+    description: "The bot found no FAQ or knowledge answer for the question",
+  },
+  {
+    value: "keyword",
+    label: "Keyword",
+    description: "A customer message contains one of the keywords",
+  },
+];
+
+export const getTriggerLabel = (trigger: EscalationTrigger) =>
+  ESCALATION_TRIGGERS.find((item) => item.value === trigger)?.label || trigger;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const isValidEmail = (value: string) => EMAIL_PATTERN.test(value);
+
+// Addresses separated by commas, semicolons or new lines
+export function parseEmailList(text: string): { emails: string[]; invalid: string[] } {
+  const values = Array.from(
+    new Set(
+      text
+        .split(/[,;\n]/)
+        .map((value) => value.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+  return { emails: values.filter(isValidEmail), invalid: values.filter((value) => !isValidEmail(value)) };
+}
@@ -0,0 +1,69 @@
+export type GoogleServiceId = "gmail" | "calendar" | "sheets" | "drive";
+
+export interface GoogleServiceDefinition {
+  id: GoogleServiceId;
+  name: string;
+  description: string; // what the bot does with it
+  scopes: string[];
+}
+
+const SCOPE_PREFIX = "https://www.googleapis.com/auth/";
+
+// Always requested, to show which account is connected
+export const GOOGLE_BASE_SCOPES = ["openid", `${SCOPE_PREFIX}userinfo.email`];
+
+// Narrowest scopes each feature needs
+export const GOOGLE_SERVICES: GoogleServiceDefinition[] = [
+  {
+    id: "gmail",
+    name: "Gmail",
+    description: "Send escalation emails to your team",
+    scopes: [`${SCOPE_PREFIX}gmail.send`],
+  },
+  {
+    id: "calendar",
+    name: "Calendar",
+    description: "Check availability and book appointments",
+    scopes: [`${SCOPE_PREFIX}calendar.events`],
+  },
+  {
+    id: "sheets",
+    name: "Sheets",
+    description: "Log leads to a spreadsheet",
+    scopes: [`${SCOPE_PREFIX}spreadsheets`],
+  },
+  {
+    id: "drive",
+    name: "Drive",
+    description: "Answer from documents you share with the bot",
+    scopes: [`${SCOPE_PREFIX}drive.readonly`],
+  },
+];
+
+const SCOPE_LABELS: Record<string, string> = {
+  openid: "Sign in with Google",
+  [`${SCOPE_PREFIX}userinfo.email`]: "See your email address",
+  [`${SCOPE_PREFIX}gmail.send`]: "Send email on your behalf",
+  [`${SCOPE_PREFIX}calendar.events`]: "View and edit events on your calendars",
+  [`${SCOPE_PREFIX}spreadsheets`]: "View and edit your spreadsheets",
+  [`${SCOPE_PREFIX}drive.readonly`]: "View your Google Drive files",
+};
+
+export const getGoogleService = (id: GoogleServiceId) => GOOGLE_SERVICES.find((service) => service.id === id);
+
+export function getScopesForServices(services: GoogleServiceId[]): string[] {
+  const scopes = services.flatMap((id) => getGoogleService(id)?.scopes || []);
+  return Array.from(new Set([...GOOGLE_BASE_SCOPES, ...scopes]));
+}
+
+// Google lets users untick individual scopes on the consent screen, so a service
+// only counts as available when every scope it needs was granted
+export function getGrantedServices(grantedScopes: string[] = []): GoogleServiceId[] {
+  const granted = new Set(grantedScopes);
+  return GOOGLE_SERVICES.filter((service) => service.scopes.every((scope) => granted.has(scope))).map(
+    (service) => service.id
+  );
+}
+
+export const describeGoogleScope = (scope: string) =>
+  SCOPE_LABELS[scope] || scope.replace(SCOPE_PREFIX, "");
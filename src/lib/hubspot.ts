@@ -0,0 +1,53 @@
+import type {
+  HubSpotContact,
+  HubSpotContactRecord,
+  HubSpotDealStage,
+  HubSpotPipeline,
+} from "@/lib/services/hubspot-service";
+
+// Digits only, so "+1 (555) 010-2030" and "15550102030" compare equal
+export const normalizePhone = (phone = "") => phone.replace(/\D/g, "");
+
+// HubSpot stores phone numbers as typed, with or without the country code
+export function isSamePhone(a?: string, b?: string): boolean {
+  const left = normalizePhone(a);
+  const right = normalizePhone(b);
+  if (!left || !right) return false;
+  const shorter = left.length < right.length ? left : right;
+  const longer = left.length < right.length ? right : left;
+  return shorter.length >= 7 && longer.endsWith(shorter);
+}
+
+// WhatsApp only has a display name; the last word becomes the last name
+export function splitContactName(name = ""): Pick<HubSpotContact, "firstName" | "lastName"> {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length < 2) return { firstName: parts[0] || "", lastName: "" };
+  return { firstName: parts.slice(0, -1).join(" "), lastName: parts[parts.length - 1] };
+}
+
+export function getContactDisplayName(contact: Pick<HubSpotContact, "firstName" | "lastName" | "email" | "phone">) {
+  const name = [contact.firstName, contact.lastName].filter(Boolean).join(" ");
+  return name || contact.email || contact.phone || "Unnamed contact";
+}
+
+// Existing contacts with the conversation's phone number, to link instead of creating a duplicate
+export const findContactsByPhone = (contacts: HubSpotContactRecord[], phone: string) =>
+  contacts.filter((contact) => isSamePhone(contact.phone, phone));
+
+// Intents the bot reports; operators can map others by name
+export const BOT_INTENTS: { value: string; label: string }[] = [
+  { value: "requested_quote", label: "Requested a quote" },
+  { value: "asked_pricing", label: "Asked about pricing" },
+  { value: "booked_demo", label: "Booked a demo" },
+  { value: "booked_appointment", label: "Booked an appointment" },
+  { value: "ready_to_buy", label: "Ready to buy" },
+  { value: "not_interested", label: "Not interested" },
+];
+
+export const getIntentLabel = (intent: string) => BOT_INTENTS.find((item) => item.value === intent)?.label || intent;
+
+// Stage of a pipeline, or undefined when either no longer exists in the portal
+export const findDealStage = (pipelines: HubSpotPipeline[], pipelineId?: string, stageId?: string) =>
+  pipelines.find((pipeline) => pipeline.id === pipelineId)?.stages.find((stage) => stage.id === stageId);
+
+export const sortStages = (stages: HubSpotDealStage[]) => [...stages].sort((a, b) => a.display_order - b.display_order);
@@ -0,0 +1,68 @@
+export type UserRole = "admin" | "operator" | "agent" | "viewer";
+
+export type Permission =
+  | "businesses:create"
+  | "businesses:edit"
+  | "businesses:delete"
+  | "businesses:all" // see every business regardless of assignment
+  | "whatsapp:edit"
+  | "tone:edit"
+  | "integrations:edit"
+  | "conversations:view"
+  | "conversations:reply"
+  | "conversations:delete"
+  | "campaigns:manage"
+  | "analytics:view"
+  | "analytics:overview"
+  | "users:manage";
+
+export const USER_ROLES: Array<{ value: UserRole; label: string; description: string }> = [
+  { value: "admin", label: "Admin", description: "Full access, including user management" },
+  { value: "operator", label: "Operator", description: "Configures businesses and integrations" },
+  { value: "agent", label: "Agent", description: "Handles conversations of assigned businesses" },
+  { value: "viewer", label: "Viewer", description: "Read-only access to assigned businesses" },
+];
+
+// Permission map shared by route guards and UI controls
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    "businesses:create",
+    "businesses:edit",
+    "businesses:delete",
+    "businesses:all",
+    "whatsapp:edit",
+    "tone:edit",
+    "integrations:edit",
+    "conversations:view",
+    "conversations:reply",
+    "conversations:delete",
+    "campaigns:manage",
+    "analytics:view",
+    "analytics:overview",
+    "users:manage",
+  ],
+  operator: [
+    "businesses:create",
+    "businesses:edit",
+    "businesses:all",
+    "whatsapp:edit",
+    "tone:edit",
+    "integrations:edit",
+    "conversations:view",
+    "conversations:reply",
+    "conversations:delete",
+    "campaigns:manage",
+    "analytics:view",
+    "analytics:overview",
+  ],
+  agent: ["conversations:view", "conversations:reply", "analytics:view"],
+  viewer: ["conversations:view", "analytics:view"],
+};
+
+export const isUserRole = (role: string): role is UserRole => role in ROLE_PERMISSIONS;
+
+// Unknown roles get no permissions
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  if (!role || !isUserRole(role)) return false;
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -0,0 +1,188 @@
+import { API_CONFIG } from "@/config";
+import { TokenManager } from "@/lib/api-client";
+import type { Conversation, Message } from "@/lib/services/business-service";
+
+// Events pushed by the backend message stream
+export type RealtimeEvent =
+  | {
+      type: "message.created";
+      conversation_id: number;
+      message: Message;
+      conversation?: Conversation;
+    }
+  | {
+      type: "message.status";
+      conversation_id: number;
+      message_id: string;
+      status: Message["status"];
+    }
+  | {
+      type: "conversation.updated";
+      conversation: Conversation;
+    };
+
+export type RealtimeConnectionState = "idle" | "connecting" | "open" | "reconnecting" | "closed";
+
+// Minimal EventSource surface, so another transport can stand in for the browser implementation
+export interface RealtimeEventSource {
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+export type EventSourceFactory = (url: string) => RealtimeEventSource;
+
+export interface RealtimeClientOptions {
+  eventSourceFactory?: EventSourceFactory;
+  reconnectDelay?: number;
+  maxReconnectDelay?: number;
+  skipAuth?: boolean;
+}
+
+type EventListener = (event: RealtimeEvent) => void;
+type StateListener = (state: RealtimeConnectionState) => void;
+
+const defaultEventSourceFactory: EventSourceFactory = (url) => new EventSource(url);
+
+// Server-Sent Events client with exponential reconnect backoff
+export class RealtimeClient {
+  private readonly url: string;
+  private readonly eventSourceFactory: EventSourceFactory;
+  private readonly reconnectDelay: number;
+  private readonly maxReconnectDelay: number;
+  private readonly skipAuth: boolean;
+
+  private source: RealtimeEventSource | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+  private state: RealtimeConnectionState = "idle";
+  private eventListeners = new Set<EventListener>();
+  private stateListeners = new Set<StateListener>();
+
+  constructor(url: string, options: RealtimeClientOptions = {}) {
+    this.url = url;
+    this.eventSourceFactory = options.eventSourceFactory || defaultEventSourceFactory;
+    this.reconnectDelay = options.reconnectDelay ?? API_CONFIG.REALTIME_RECONNECT_DELAY;
+    this.maxReconnectDelay = options.maxReconnectDelay ?? API_CONFIG.REALTIME_MAX_RECONNECT_DELAY;
+    this.skipAuth = options.skipAuth ?? false;
+  }
+
+  get connectionState(): RealtimeConnectionState {
+    return this.state;
+  }
+
+  // Subscribe to stream events, returns an unsubscribe function
+  subscribe(listener: EventListener): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  // Subscribe to connection state changes, returns an unsubscribe function
+  onStateChange(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  }
+
+  connect(): void {
+    if (this.source) return;
+
+    this.clearReconnectTimer();
+    this.setState(this.reconnectAttempt > 0 ? "reconnecting" : "connecting");
+
+    // EventSource cannot send headers, so the token travels as a query parameter
+    const source = this.eventSourceFactory(this.buildUrl());
+    this.source = source;
+
+    source.onopen = () => {
+      this.reconnectAttempt = 0;
+      this.setState("open");
+    };
+
+    source.onmessage = (event) => {
+      this.handleMessage(event);
+    };
+
+    source.onerror = () => {
+      // Take over reconnection from the browser so we control the backoff
+      source.close();
+      if (this.source === source) {
+        this.source = null;
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  close(): void {
+    this.clearReconnectTimer();
+    this.reconnectAttempt = 0;
+
+    if (this.source) {
+      this.source.close();
+      this.source = null;
+    }
+
+    this.setState("closed");
+  }
+
+  private buildUrl(): string {
+    const token = this.skipAuth ? null : TokenManager.getToken();
+    if (!token) return this.url;
+
+    const separator = this.url.includes("?") ? "&" : "?";
+    return `${this.url}${separator}token=${encodeURIComponent(token)}`;
+  }
+
+  private handleMessage(event: MessageEvent): void {
+    let payload: RealtimeEvent;
+
+    try {
+      payload = JSON.parse(event.data);
+    } catch (error) {
+      console.warn("Ignoring malformed realtime event:", event.data);
+      return;
+    }
+
+    if (!payload || typeof payload.type !== "string") return;
+
+    this.eventListeners.forEach((listener) => listener(payload));
+  }
+
+  private scheduleReconnect(): void {
+    const delay = this.getReconnectDelay(this.reconnectAttempt);
+    this.reconnectAttempt += 1;
+    this.setState("reconnecting");
+
+    if (API_CONFIG.ENABLE_LOGGING) {
+      console.log(`Realtime stream lost, reconnecting in ${delay}ms...`);
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, delay);
+  }
+
+  // Exponential backoff with jitter, capped at maxReconnectDelay
+  private getReconnectDelay(attempt: number): number {
+    const exponential = Math.min(this.reconnectDelay * Math.pow(2, attempt), this.maxReconnectDelay);
+    return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setState(state: RealtimeConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach((listener) => listener(state));
+  }
+}
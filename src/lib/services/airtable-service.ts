@@ -1,11 +1,40 @@
 import { apiClient, ApiResponse } from '../api-client';
 
+// Field of an Airtable table, as reported by the base schema
+export interface AirtableField {
+  id: string;
+  name: string;
+  type: string; // Airtable field type, e.g. singleLineText, multipleSelects
+}
+
+export interface AirtableTableSchema {
+  id: string;
+  name: string;
+  fields: AirtableField[];
+}
+
+// Names of the fields holding each part of a record
+export interface AirtableFieldMapping {
+  question: string;
+  answer: string;
+  category?: string;
+  tags?: string;
+}
+
+// A table the bot reads answers from
+export interface AirtableTableConfig {
+  table_id: string;
+  table_name: string;
+  field_mapping: AirtableFieldMapping;
+}
+
 export interface AirtableConfig {
   id?: number;
   business_id: number;
   access_token: string;
   base_id: string;
-  table_name: string;
+  table_name: string; // first mapped table, kept for configs saved before multi-table support
+  tables?: AirtableTableConfig[];
   created_at?: string;
   updated_at?: string;
 }
@@ -14,6 +43,10 @@ export interface FAQ {
   id: string;
   question: string;
   answer: string;
+  category?: string;
+  tags?: string[];
+  table_id?: string;
+  table_name?: string;
   [key: string]: any; // For additional Airtable fields
 }
 
@@ -21,10 +54,16 @@ export interface FAQSearchResult {
   id: string;
   question: string;
   answer: string;
-  matchScore: number;
+  matchScore: number; // 0-1, how closely the question matches the FAQ
   [key: string]: any;
 }
 
+export interface FAQInput {
+  question: string;
+  answer: string;
+  table_id?: string; // defaults to the first mapped table
+}
+
 // Airtable Service
 export class AirtableService {
   // Configuration Management
@@ -43,6 +82,19 @@ export class AirtableService {
     return apiClient.delete<void>(`/airtable/config/${businessId}`);
   }
 
+  // Lists the tables and fields of a base. Pass credentials to inspect a base before saving it,
+  // otherwise the saved ones are used.
+  static async discoverSchema(
+    businessId: number,
+    credentials?: { access_token: string; base_id: string }
+  ): Promise<ApiResponse<AirtableTableSchema[]>> {
+    return apiClient.post<AirtableTableSchema[]>(`/airtable/schema/${businessId}`, credentials);
+  }
+
+  static async saveTables(businessId: number, tables: AirtableTableConfig[]): Promise<ApiResponse<AirtableConfig>> {
+    return apiClient.put<AirtableConfig>(`/airtable/config/${businessId}/tables`, { tables });
+  }
+
   static async testConnection(businessId: number): Promise<ApiResponse<{ success: boolean; message?: string; error?: string }>> {
     return apiClient.post<{ success: boolean; message?: string; error?: string }>(`/airtable/test/${businessId}`);
   }
@@ -52,9 +104,27 @@ export class AirtableService {
     return apiClient.get<FAQ[]>(`/airtable/faqs/${businessId}`);
   }
 
+  // Create, update and delete write straight through to the Airtable table
+  static async createFAQ(businessId: number, data: FAQInput): Promise<ApiResponse<FAQ>> {
+    return apiClient.post<FAQ>(`/airtable/faqs/${businessId}`, data);
+  }
+
+  static async updateFAQ(businessId: number, faqId: string, data: FAQInput): Promise<ApiResponse<FAQ>> {
+    return apiClient.put<FAQ>(`/airtable/faqs/${businessId}/${faqId}`, data);
+  }
+
+  static async deleteFAQ(businessId: number, faqId: string): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(`/airtable/faqs/${businessId}/${faqId}`);
+  }
+
   static async searchFAQs(businessId: number, question: string): Promise<ApiResponse<FAQSearchResult | null>> {
     return apiClient.post<FAQSearchResult | null>(`/airtable/search/${businessId}`, { question });
   }
+
+  // Best matches for a question, highest matchScore first, including ones below the answer threshold
+  static async matchFAQs(businessId: number, question: string, limit = 5): Promise<ApiResponse<FAQSearchResult[]>> {
+    return apiClient.post<FAQSearchResult[]>(`/airtable/match/${businessId}`, { question, limit });
+  }
 }
 
 // Export singleton instance
@@ -1,13 +1,16 @@
 import { apiClient, type ApiResponse } from "@/lib/api-client";
 import { API_ENDPOINTS } from "@/config";
+import type { UserRole } from "@/lib/permissions";
 
 // Auth interfaces
 export interface User {
   id: number;
   username: string;
   email: string;
-  role: string;
+  role: UserRole;
   status: string;
+  business_ids?: number[]; // businesses assigned to agents and viewers
+  last_login_at?: string;
   created_at: string;
   updated_at: string;
 }
@@ -32,6 +35,7 @@ export interface ProfileUpdateData {
 export interface AuthResponse {
   user: User;
   token: string;
+  refresh_token?: string;
 }
 
 export interface AdminExistsResponse {
@@ -0,0 +1,82 @@
+import { apiClient, type ApiResponse } from "@/lib/api-client";
+import { API_ENDPOINTS } from "@/config";
+
+// Calendar of the connected Google account
+export interface GoogleCalendar {
+  id: string;
+  summary: string;
+  primary?: boolean;
+  time_zone: string;
+}
+
+// Bookable hours of one weekday (0 = Sunday), local time of the calendar
+export interface BookingWorkingHours {
+  day: number;
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+// How the bot offers and books appointments in Google Calendar
+export interface BookingSettings {
+  enabled: boolean;
+  calendar_id: string;
+  working_hours: BookingWorkingHours[];
+  slot_minutes: number;
+  buffer_before_minutes: number;
+  buffer_after_minutes: number;
+  max_days_ahead: number;
+  blackout_dates: string[]; // yyyy-mm-dd
+  confirmation_template: string; // supports {{name}}, {{date}} and {{time}}
+  updated_at?: string;
+}
+
+export type AppointmentStatus = "confirmed" | "cancelled";
+
+// Calendar event booked by the bot
+export interface Appointment {
+  id: number;
+  event_id: string;
+  summary: string;
+  start: string;
+  end: string;
+  status: AppointmentStatus;
+  contact_name?: string;
+  phone_number: string;
+  conversation_id?: number;
+  html_link?: string; // event in Google Calendar
+  created_at: string;
+}
+
+export class BookingService {
+  static async getCalendars(businessId: number): Promise<ApiResponse<GoogleCalendar[]>> {
+    return apiClient.get<GoogleCalendar[]>(API_ENDPOINTS.GOOGLE.CALENDARS(businessId));
+  }
+
+  // Resolves to null data when booking was never configured
+  static async getBookingSettings(businessId: number): Promise<ApiResponse<BookingSettings | null>> {
+    return apiClient.get<BookingSettings | null>(API_ENDPOINTS.GOOGLE.BOOKING_SETTINGS(businessId));
+  }
+
+  static async updateBookingSettings(
+    businessId: number,
+    data: Omit<BookingSettings, "updated_at">
+  ): Promise<ApiResponse<BookingSettings>> {
+    return apiClient.put<BookingSettings>(API_ENDPOINTS.GOOGLE.BOOKING_SETTINGS(businessId), data);
+  }
+
+  // Appointments starting from now, soonest first
+  static async getAppointments(
+    businessId: number,
+    params?: { days?: number; include_cancelled?: boolean }
+  ): Promise<ApiResponse<Appointment[]>> {
+    const queryParams = new URLSearchParams();
+    if (params?.days) queryParams.append("days", params.days.toString());
+    if (params?.include_cancelled) queryParams.append("include_cancelled", "true");
+
+    const query = queryParams.toString() ? `?${queryParams.toString()}` : "";
+    return apiClient.get<Appointment[]>(`${API_ENDPOINTS.GOOGLE.APPOINTMENTS(businessId)}${query}`);
+  }
+}
+
+export const bookingService = new BookingService();
@@ -1,5 +1,6 @@
 import { apiClient, type ApiResponse } from "@/lib/api-client";
 import { API_ENDPOINTS } from "@/config";
+import type { HubSpotContactLink } from "@/lib/services/hubspot-service";
 
 // Business interfaces
 export interface Business {
@@ -29,12 +30,114 @@ export interface WhatsAppConfig {
   status: "active" | "inactive";
 }
 
+// One of possibly several WhatsApp numbers of a business, e.g. sales and support
+export interface WhatsAppNumber extends WhatsAppConfig {
+  id: number;
+  label: string;
+  display_phone_number?: string; // as shown to customers, filled in by the backend
+  tone_instructions?: string | null; // overrides the business tone for this number
+  created_at: string;
+  updated_at: string;
+}
+
+export type WhatsAppNumberData = Pick<
+  WhatsAppNumber,
+  "label" | "phone_number_id" | "access_token" | "verify_token" | "webhook_url" | "tone_instructions" | "status"
+>;
+
+export type WhatsAppNumberSummary = Pick<WhatsAppNumber, "id" | "label" | "display_phone_number">;
+
+export interface WhatsAppTestResult {
+  valid: boolean;
+  display_phone_number?: string;
+  verified_name?: string;
+  quality_rating?: string;
+  error?: string;
+}
+
+export interface WhatsAppWebhookEvent {
+  received_at: string;
+  type: string; // e.g. "message", "status"
+  phone_number_id?: string; // receiving number
+  from?: string;
+  summary?: string;
+}
+
+export interface WhatsAppWebhookStatus {
+  verified: boolean; // Meta completed the verify_token handshake
+  verified_at?: string;
+  last_event?: WhatsAppWebhookEvent | null;
+}
+
+export type WhatsAppTemplateCategory = "MARKETING" | "UTILITY" | "AUTHENTICATION";
+
+// Review state of a template at Meta; only approved templates can be sent
+export type WhatsAppTemplateStatus = "APPROVED" | "PENDING" | "REJECTED" | "PAUSED" | "DISABLED";
+
+export interface WhatsAppTemplateButton {
+  type: "QUICK_REPLY" | "URL" | "PHONE_NUMBER";
+  text: string;
+  url?: string;
+  phone_number?: string;
+}
+
+// Header, body and footer may contain {{1}}, {{2}}, ... placeholders
+export interface WhatsAppTemplate {
+  id: number;
+  business_id: number;
+  name: string;
+  language: string; // e.g. "en_US"
+  category: WhatsAppTemplateCategory;
+  status: WhatsAppTemplateStatus;
+  rejection_reason?: string;
+  header_text?: string;
+  body_text: string;
+  footer_text?: string;
+  buttons: WhatsAppTemplateButton[];
+  // Sample values Meta reviews the placeholders with
+  header_examples?: string[];
+  body_examples?: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateWhatsAppTemplateData = Pick<
+  WhatsAppTemplate,
+  | "name"
+  | "language"
+  | "category"
+  | "header_text"
+  | "body_text"
+  | "footer_text"
+  | "buttons"
+  | "header_examples"
+  | "body_examples"
+>;
+
+// Placeholder values of a template being sent, in placeholder order
+export interface SendTemplateData {
+  template_id: number;
+  header_params?: string[];
+  body_params?: string[];
+}
+
+// Date range (inclusive, yyyy-mm-dd) in which a tone takes over from the active one,
+// optionally limited to some weekdays (0 = Sunday)
+export interface ToneScheduleRule {
+  start_date: string;
+  end_date: string;
+  days_of_week?: number[];
+}
+
 export interface BusinessTone {
   id: number;
   business_id: number;
   name: string;
   description?: string;
   tone_instructions: string;
+  is_active: boolean; // the default tone; only one per business
+  version: number; // current version of tone_instructions
+  schedule_rules?: ToneScheduleRule[];
   created_at: string;
   updated_at: string;
 }
@@ -43,6 +146,32 @@ export interface CreateBusinessToneData {
   name: string;
   description?: string;
   tone_instructions: string;
+  schedule_rules?: ToneScheduleRule[];
+}
+
+// Snapshot saved every time the instructions of a tone change
+export interface BusinessToneVersion {
+  id: number;
+  tone_id: number;
+  version: number;
+  tone_instructions: string;
+  created_by?: string; // username
+  created_at: string;
+}
+
+// One turn of a playground conversation sent to the tone preview endpoint
+export interface TonePreviewMessage {
+  role: "customer" | "assistant";
+  content: string;
+}
+
+export interface TonePreviewRequest {
+  tone_instructions: string | null; // null previews the bot's default style
+  messages: TonePreviewMessage[]; // ends with the customer message to answer
+}
+
+export interface TonePreviewResult {
+  reply: string;
 }
 
 export interface Conversation {
@@ -53,6 +182,12 @@ export interface Conversation {
   last_message_at: string;
   message_count: number;
   status: "active" | "archived";
+  bot_paused?: boolean; // true while a staff member is handling the conversation
+  bot_paused_at?: string;
+  whatsapp_number_id?: number; // number the customer wrote to
+  whatsapp_number?: WhatsAppNumberSummary;
+  tags?: string[];
+  hubspot_contact?: HubSpotContactLink | null; // CRM contact the customer is linked to
   created_at: string;
   updated_at: string;
 }
@@ -62,13 +197,47 @@ export interface Message {
   conversation_id: number;
   message_id: string;
   direction: "inbound" | "outbound";
-  message_type: "text" | "image" | "audio" | "document";
-  content?: string;
+  message_type: "text" | "image" | "audio" | "document" | "template";
+  content?: string; // for templates, the rendered text
   media_url?: string;
   file_name?: string;
   file_type?: string;
   created_at: string;
   status: "sent" | "delivered" | "read" | "failed";
+  sent_by?: "bot" | "agent";
+}
+
+export interface ConversationFilters {
+  status?: "active" | "archived";
+  search?: string; // Matches contact name or phone number
+  start_date?: string;
+  end_date?: string;
+  whatsapp_number_id?: number;
+  tags?: string[]; // conversations carrying any of the tags
+}
+
+export interface MessageSearchParams {
+  q?: string;
+  contact_name?: string;
+  phone_number?: string;
+  direction?: Message["direction"];
+  message_type?: Message["message_type"];
+  start_date?: string;
+  end_date?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  message: Message;
+  conversation: Pick<Conversation, "id" | "phone_number" | "contact_name" | "status">;
+}
+
+export interface SendMessageData {
+  message_type: "text" | "image" | "document" | "template";
+  content?: string; // Text body, or caption for media
+  file?: File;
+  template?: SendTemplateData;
 }
 
 // Enhanced Business Service
@@ -136,43 +305,135 @@ export class BusinessService {
     return apiClient.delete<void>(`/basic/businesses/${businessId}/whatsapp`);
   }
 
+  // WhatsApp numbers
+  static async getWhatsAppNumbers(businessId: number): Promise<ApiResponse<WhatsAppNumber[]>> {
+    return apiClient.get<WhatsAppNumber[]>(API_ENDPOINTS.WHATSAPP.NUMBERS(businessId));
+  }
+
+  static async createWhatsAppNumber(
+    businessId: number,
+    data: WhatsAppNumberData
+  ): Promise<ApiResponse<WhatsAppNumber>> {
+    return apiClient.post<WhatsAppNumber>(API_ENDPOINTS.WHATSAPP.NUMBERS(businessId), data);
+  }
+
+  static async updateWhatsAppNumber(
+    businessId: number,
+    numberId: number,
+    data: Partial<WhatsAppNumberData>
+  ): Promise<ApiResponse<WhatsAppNumber>> {
+    return apiClient.put<WhatsAppNumber>(API_ENDPOINTS.WHATSAPP.NUMBER(businessId, numberId), data);
+  }
+
+  static async deleteWhatsAppNumber(businessId: number, numberId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(API_ENDPOINTS.WHATSAPP.NUMBER(businessId, numberId));
+  }
+
+  // Checks the credentials against the WhatsApp Cloud API without saving them
+  static async testWhatsAppConfig(
+    businessId: number,
+    data: Pick<WhatsAppConfig, "phone_number_id" | "access_token">
+  ): Promise<ApiResponse<WhatsAppTestResult>> {
+    return apiClient.post<WhatsAppTestResult>(API_ENDPOINTS.WHATSAPP.TEST(businessId), data);
+  }
+
+  static async getWhatsAppWebhookStatus(businessId: number): Promise<ApiResponse<WhatsAppWebhookStatus>> {
+    return apiClient.get<WhatsAppWebhookStatus>(API_ENDPOINTS.WHATSAPP.WEBHOOK_STATUS(businessId));
+  }
+
+  // WhatsApp message templates
+  static async getWhatsAppTemplates(businessId: number): Promise<ApiResponse<WhatsAppTemplate[]>> {
+    return apiClient.get<WhatsAppTemplate[]>(API_ENDPOINTS.WHATSAPP.TEMPLATES(businessId));
+  }
+
+  // Submits the template to Meta for review; it starts out as PENDING
+  static async createWhatsAppTemplate(
+    businessId: number,
+    data: CreateWhatsAppTemplateData
+  ): Promise<ApiResponse<WhatsAppTemplate>> {
+    return apiClient.post<WhatsAppTemplate>(API_ENDPOINTS.WHATSAPP.TEMPLATES(businessId), data);
+  }
+
+  static async deleteWhatsAppTemplate(businessId: number, templateId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(API_ENDPOINTS.WHATSAPP.TEMPLATE(businessId, templateId));
+  }
+
+  // Pulls the current review status of every template from Meta
+  static async syncWhatsAppTemplates(businessId: number): Promise<ApiResponse<WhatsAppTemplate[]>> {
+    return apiClient.post<WhatsAppTemplate[]>(API_ENDPOINTS.WHATSAPP.TEMPLATES_SYNC(businessId));
+  }
+
   // Business tones
-  static async getBusinessTone(businessId: number): Promise<ApiResponse<BusinessTone | null>> {
-    return apiClient.get<BusinessTone>(`/basic/businesses/${businessId}/tone`);
+  static async getBusinessTones(businessId: number): Promise<ApiResponse<BusinessTone[]>> {
+    return apiClient.get<BusinessTone[]>(API_ENDPOINTS.TONES.LIST(businessId));
   }
 
   static async createBusinessTone(
     businessId: number,
     data: CreateBusinessToneData
   ): Promise<ApiResponse<BusinessTone>> {
-    return apiClient.post<BusinessTone>(`/basic/businesses/${businessId}/tone`, data);
+    return apiClient.post<BusinessTone>(API_ENDPOINTS.TONES.LIST(businessId), data);
   }
 
+  // Changed instructions are stored as a new version, the previous ones stay in the history
   static async updateBusinessTone(
     businessId: number,
     toneId: number,
     data: Partial<CreateBusinessToneData>
   ): Promise<ApiResponse<BusinessTone>> {
-    return apiClient.put<BusinessTone>(`/basic/businesses/${businessId}/tone/${toneId}`, data);
+    return apiClient.put<BusinessTone>(API_ENDPOINTS.TONES.GET(businessId, toneId), data);
   }
 
   static async deleteBusinessTone(businessId: number, toneId: number): Promise<ApiResponse<void>> {
-    return apiClient.delete<void>(`/basic/businesses/${businessId}/tone`);
+    return apiClient.delete<void>(API_ENDPOINTS.TONES.GET(businessId, toneId));
+  }
+
+  // Makes the tone the default and deactivates the previous one
+  static async activateBusinessTone(businessId: number, toneId: number): Promise<ApiResponse<BusinessTone[]>> {
+    return apiClient.post<BusinessTone[]>(API_ENDPOINTS.TONES.ACTIVATE(businessId, toneId));
+  }
+
+  static async getBusinessToneVersions(
+    businessId: number,
+    toneId: number
+  ): Promise<ApiResponse<BusinessToneVersion[]>> {
+    return apiClient.get<BusinessToneVersion[]>(API_ENDPOINTS.TONES.VERSIONS(businessId, toneId));
+  }
+
+  // Restores the instructions of an old version as a new version
+  static async rollbackBusinessTone(
+    businessId: number,
+    toneId: number,
+    versionId: number
+  ): Promise<ApiResponse<BusinessTone>> {
+    return apiClient.post<BusinessTone>(API_ENDPOINTS.TONES.ROLLBACK(businessId, toneId, versionId));
+  }
+
+  // Generates a bot reply with the given instructions without saving anything
+  static async previewBusinessTone(
+    businessId: number,
+    data: TonePreviewRequest
+  ): Promise<ApiResponse<TonePreviewResult>> {
+    return apiClient.post<TonePreviewResult>(API_ENDPOINTS.TONES.PREVIEW(businessId), data);
   }
 
   // Conversations and messages
   static async getConversations(
     businessId: number,
-    params?: {
+    params?: ConversationFilters & {
       page?: number;
       limit?: number;
-      status?: "active" | "archived";
     }
   ): Promise<ApiResponse<{ conversations: Conversation[]; total: number; page: number; limit: number }>> {
     const queryParams = new URLSearchParams();
     if (params?.page) queryParams.append("page", params.page.toString());
     if (params?.limit) queryParams.append("limit", params.limit.toString());
     if (params?.status) queryParams.append("status", params.status);
+    if (params?.search) queryParams.append("search", params.search);
+    if (params?.start_date) queryParams.append("start_date", params.start_date);
+    if (params?.end_date) queryParams.append("end_date", params.end_date);
+    if (params?.whatsapp_number_id) queryParams.append("whatsapp_number_id", params.whatsapp_number_id.toString());
+    if (params?.tags?.length) queryParams.append("tags", params.tags.join(","));
 
     const query = queryParams.toString() ? `?${queryParams.toString()}` : "";
 
@@ -180,6 +441,15 @@ export class BusinessService {
     return apiClient.get<{ conversations: Conversation[]; total: number; page: number; limit: number }>(`/basic/businesses/${businessId}/conversations${query}`);
   }
 
+  static async getConversation(conversationId: number): Promise<ApiResponse<Conversation>> {
+    return apiClient.get<Conversation>(`/basic/conversations/${conversationId}`);
+  }
+
+  // Every tag used on the conversations of a business
+  static async getConversationTags(businessId: number): Promise<ApiResponse<string[]>> {
+    return apiClient.get<string[]>(`/basic/businesses/${businessId}/conversations/tags`);
+  }
+
   static async getConversationMessages(
     conversationId: number,
     params?: {
@@ -197,6 +467,44 @@ export class BusinessService {
     );
   }
 
+  static async searchMessages(
+    businessId: number,
+    params: MessageSearchParams
+  ): Promise<ApiResponse<{ results: MessageSearchResult[]; total: number; page: number; limit: number }>> {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") queryParams.append(key, String(value));
+    });
+
+    const query = queryParams.toString() ? `?${queryParams.toString()}` : "";
+    return apiClient.get<{ results: MessageSearchResult[]; total: number; page: number; limit: number }>(
+      `/basic/businesses/${businessId}/messages/search${query}`
+    );
+  }
+
+  static async sendMessage(conversationId: number, data: SendMessageData): Promise<ApiResponse<Message>> {
+    if (data.file) {
+      const formData = new FormData();
+      formData.append("message_type", data.message_type);
+      if (data.content) formData.append("content", data.content);
+      formData.append("file", data.file, data.file.name);
+      return apiClient.upload<Message>(`/basic/conversations/${conversationId}/messages`, formData);
+    }
+
+    return apiClient.post<Message>(`/basic/conversations/${conversationId}/messages`, {
+      message_type: data.message_type,
+      content: data.content,
+      template: data.template,
+    });
+  }
+
+  static async setConversationBotPaused(conversationId: number, botPaused: boolean): Promise<ApiResponse<Conversation>> {
+    return apiClient.patch<Conversation>(`/basic/conversations/${conversationId}`, {
+      action: "update_bot_status",
+      bot_paused: botPaused,
+    });
+  }
+
   static async archiveConversation(conversationId: number): Promise<ApiResponse<void>> {
     return apiClient.patch<void>(`/basic/conversations/${conversationId}`, { 
       action: "update_status", 
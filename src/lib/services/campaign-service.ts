@@ -0,0 +1,122 @@
+import { apiClient, type ApiResponse } from "@/lib/api-client";
+import { API_ENDPOINTS } from "@/config";
+import type { Conversation, Message } from "@/lib/services/business-service";
+
+export type CampaignStatus = "draft" | "scheduled" | "sending" | "paused" | "completed" | "cancelled" | "failed";
+
+// Recipients share the delivery states of Message, plus "pending" until they are sent
+export type CampaignRecipientStatus = "pending" | Message["status"];
+
+// Who receives the campaign: either conversations matching the filters, or an uploaded list of numbers
+export interface CampaignAudience {
+  source: "conversations" | "csv";
+  last_message_after?: string; // yyyy-mm-dd, inclusive
+  last_message_before?: string; // yyyy-mm-dd, inclusive
+  status?: Conversation["status"];
+  tags?: string[];
+  phone_numbers?: string[]; // csv source only
+}
+
+export type CampaignStats = Record<CampaignRecipientStatus, number> & { total: number };
+
+export interface Campaign {
+  id: number;
+  business_id: number;
+  name: string;
+  template_id: number;
+  template_name?: string;
+  whatsapp_number_id?: number;
+  header_params?: string[];
+  body_params?: string[];
+  audience: CampaignAudience;
+  scheduled_at: string | null; // null sends immediately
+  throttle_per_minute: number;
+  status: CampaignStatus;
+  stats: CampaignStats;
+  started_at?: string;
+  completed_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateCampaignData = Pick<
+  Campaign,
+  | "name"
+  | "template_id"
+  | "whatsapp_number_id"
+  | "header_params"
+  | "body_params"
+  | "audience"
+  | "scheduled_at"
+  | "throttle_per_minute"
+>;
+
+export interface CampaignRecipient {
+  id: number;
+  phone_number: string;
+  contact_name?: string;
+  conversation_id?: number;
+  status: CampaignRecipientStatus;
+  error?: string; // reason reported by WhatsApp for failed sends
+  sent_at?: string;
+  delivered_at?: string;
+  read_at?: string;
+}
+
+export interface AudiencePreview {
+  count: number;
+  sample: Array<Pick<Conversation, "phone_number" | "contact_name">>;
+}
+
+export type CampaignAction = "pause" | "resume" | "cancel";
+
+// Broadcast campaigns
+export class CampaignService {
+  static async getCampaigns(businessId: number): Promise<ApiResponse<Campaign[]>> {
+    return apiClient.get<Campaign[]>(API_ENDPOINTS.CAMPAIGNS.LIST(businessId));
+  }
+
+  static async getCampaign(businessId: number, campaignId: number): Promise<ApiResponse<Campaign>> {
+    return apiClient.get<Campaign>(API_ENDPOINTS.CAMPAIGNS.GET(businessId, campaignId));
+  }
+
+  static async createCampaign(businessId: number, data: CreateCampaignData): Promise<ApiResponse<Campaign>> {
+    return apiClient.post<Campaign>(API_ENDPOINTS.CAMPAIGNS.LIST(businessId), data);
+  }
+
+  static async updateCampaignStatus(
+    businessId: number,
+    campaignId: number,
+    action: CampaignAction
+  ): Promise<ApiResponse<Campaign>> {
+    return apiClient.patch<Campaign>(API_ENDPOINTS.CAMPAIGNS.GET(businessId, campaignId), { action });
+  }
+
+  static async deleteCampaign(businessId: number, campaignId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(API_ENDPOINTS.CAMPAIGNS.GET(businessId, campaignId));
+  }
+
+  static async getCampaignRecipients(
+    businessId: number,
+    campaignId: number,
+    params?: { status?: CampaignRecipientStatus; page?: number; limit?: number }
+  ): Promise<ApiResponse<{ recipients: CampaignRecipient[]; total: number; page: number; limit: number }>> {
+    const queryParams = new URLSearchParams();
+    if (params?.status) queryParams.append("status", params.status);
+    if (params?.page) queryParams.append("page", params.page.toString());
+    if (params?.limit) queryParams.append("limit", params.limit.toString());
+
+    const query = queryParams.toString() ? `?${queryParams.toString()}` : "";
+    return apiClient.get<{ recipients: CampaignRecipient[]; total: number; page: number; limit: number }>(
+      `${API_ENDPOINTS.CAMPAIGNS.RECIPIENTS(businessId, campaignId)}${query}`
+    );
+  }
+
+  // Number of recipients an audience resolves to, with a few examples
+  static async previewAudience(businessId: number, audience: CampaignAudience): Promise<ApiResponse<AudiencePreview>> {
+    return apiClient.post<AudiencePreview>(API_ENDPOINTS.CAMPAIGNS.AUDIENCE_PREVIEW(businessId), audience);
+  }
+}
+
+// Export singleton instance
+export const campaignService = new CampaignService();
@@ -0,0 +1,79 @@
+import { apiClient, type ApiResponse } from "@/lib/api-client";
+import { API_ENDPOINTS } from "@/config";
+
+// What makes the bot hand a conversation to a human
+export type EscalationTrigger = "keyword" | "negative_sentiment" | "unanswered_faq" | "human_request";
+
+export interface EscalationRule {
+  id: number;
+  business_id: number;
+  name: string;
+  trigger: EscalationTrigger;
+  keywords?: string[]; // keyword trigger only, matched case-insensitively
+  recipients: string[]; // email addresses
+  include_transcript: boolean; // attach the recent messages, otherwise only the summary
+  pause_bot: boolean; // hand the conversation over to a human after escalating
+  cooldown_minutes: number; // don't escalate the same conversation again within this time
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type EscalationRuleData = Omit<EscalationRule, "id" | "business_id" | "created_at" | "updated_at">;
+
+// Email sent through the Gmail account of the Google integration
+export interface Escalation {
+  id: number;
+  rule_id: number;
+  rule_name: string;
+  trigger: EscalationTrigger;
+  conversation_id: number;
+  contact_name?: string;
+  phone_number: string;
+  recipients: string[];
+  summary: string;
+  matched_text?: string; // customer message that triggered the rule
+  status: "sent" | "failed";
+  error?: string;
+  created_at: string;
+}
+
+export class EscalationService {
+  static async getRules(businessId: number): Promise<ApiResponse<EscalationRule[]>> {
+    return apiClient.get<EscalationRule[]>(API_ENDPOINTS.ESCALATIONS.RULES(businessId));
+  }
+
+  static async createRule(businessId: number, data: EscalationRuleData): Promise<ApiResponse<EscalationRule>> {
+    return apiClient.post<EscalationRule>(API_ENDPOINTS.ESCALATIONS.RULES(businessId), data);
+  }
+
+  static async updateRule(
+    businessId: number,
+    ruleId: number,
+    data: Partial<EscalationRuleData>
+  ): Promise<ApiResponse<EscalationRule>> {
+    return apiClient.put<EscalationRule>(API_ENDPOINTS.ESCALATIONS.RULE(businessId, ruleId), data);
+  }
+
+  static async deleteRule(businessId: number, ruleId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(API_ENDPOINTS.ESCALATIONS.RULE(businessId, ruleId));
+  }
+
+  // Sent escalations, newest first
+  static async getEscalations(
+    businessId: number,
+    params?: { conversation_id?: number; page?: number; limit?: number }
+  ): Promise<ApiResponse<{ escalations: Escalation[]; total: number; page: number; limit: number }>> {
+    const queryParams = new URLSearchParams();
+    if (params?.conversation_id) queryParams.append("conversation_id", params.conversation_id.toString());
+    if (params?.page) queryParams.append("page", params.page.toString());
+    if (params?.limit) queryParams.append("limit", params.limit.toString());
+
+    const query = queryParams.toString() ? `?${queryParams.toString()}` : "";
+    return apiClient.get<{ escalations: Escalation[]; total: number; page: number; limit: number }>(
+      `${API_ENDPOINTS.ESCALATIONS.LOG(businessId)}${query}`
+    );
+  }
+}
+
+export const escalationService = new EscalationService();
@@ -1,3 +1,4 @@
+import { API_ENDPOINTS } from "@/config";
 import { apiClient, type ApiResponse } from "@/lib/api-client";
 
 // Google Workspace Configuration
@@ -6,6 +7,52 @@ export interface GoogleIntegrationStatus {
   isIntegrated: boolean;
   email: string;
   lastUpdated: string;
+  scopes?: string[]; // scopes actually granted on the consent screen
+  sheets_logging?: SheetsLoggingConfig | null;
+}
+
+// Google Sheets lead logging
+export type SheetsLogTrigger = "new_conversation" | "lead_captured" | "conversation_archived";
+
+export type SheetsColumnSource =
+  | "phone_number"
+  | "contact_name"
+  | "first_message"
+  | "last_message_at"
+  | "captured_field";
+
+export interface SheetsColumnMapping {
+  column: string; // header in the first row of the worksheet
+  source: SheetsColumnSource;
+  field?: string; // key of the captured field, for the "captured_field" source
+}
+
+export interface SheetsLoggingConfig {
+  enabled: boolean;
+  spreadsheet_id: string;
+  spreadsheet_name: string;
+  worksheet_id: number;
+  worksheet_name: string;
+  columns: SheetsColumnMapping[];
+  triggers: SheetsLogTrigger[];
+}
+
+export interface GoogleSpreadsheet {
+  id: string;
+  name: string;
+  modified_time?: string;
+}
+
+export interface GoogleWorksheet {
+  id: number;
+  title: string;
+  headers: string[]; // values of the first row
+}
+
+// Rows as they would be appended, rendered from recent conversations
+export interface SheetsPreview {
+  headers: string[];
+  rows: string[][];
 }
 
 export interface GoogleWorkspaceConfig {
@@ -20,6 +67,43 @@ export interface GoogleWorkspaceConfig {
   status: "active" | "inactive" | "error";
   last_sync?: string;
   error_message?: string;
+  sheets_logging?: SheetsLoggingConfig | null;
+}
+
+// Google Drive knowledge documents
+export interface DriveFile {
+  id: string;
+  name: string;
+  mime_type: string;
+  is_folder: boolean;
+  modified_time?: string;
+  web_view_link?: string;
+}
+
+export type KnowledgeSourceStatus = "pending" | "indexing" | "indexed" | "failed";
+
+// A Drive document or folder the bot may answer from; folders include the documents inside them
+export interface KnowledgeSource {
+  id: number;
+  file_id: string;
+  name: string;
+  mime_type: string;
+  is_folder: boolean;
+  status: KnowledgeSourceStatus;
+  document_count?: number; // documents indexed, for folders
+  error?: string;
+  last_synced_at?: string;
+  web_view_link?: string;
+  created_at: string;
+}
+
+export interface KnowledgeSearchResult {
+  source_id: number;
+  file_id: string;
+  file_name: string;
+  excerpt: string; // passage of the document the answer would come from
+  matchScore: number; // 0-1, how closely the question matches the passage
+  web_view_link?: string;
 }
 
 // Google Service
@@ -47,9 +131,77 @@ export class GoogleService {
     return apiClient.delete<void>(`/google/config/${businessId}`);
   }
 
-  // OAuth Integration
-  static async getAuthUrl(businessId: number): Promise<ApiResponse<{ authUrl: string }>> {
-    return apiClient.get<{ authUrl: string }>(`/google/auth/${businessId}`);
+  // OAuth Integration. With `incremental`, Google keeps the scopes granted earlier
+  // (include_granted_scopes), so only the new ones are shown on the consent screen.
+  static async getAuthUrl(
+    businessId: number,
+    options?: { scopes?: string[]; incremental?: boolean }
+  ): Promise<ApiResponse<{ authUrl: string }>> {
+    const queryParams = new URLSearchParams();
+    if (options?.scopes?.length) queryParams.append("scopes", options.scopes.join(" "));
+    if (options?.incremental) queryParams.append("incremental", "true");
+
+    const query = queryParams.toString() ? `?${queryParams.toString()}` : "";
+    return apiClient.get<{ authUrl: string }>(`/google/auth/${businessId}${query}`);
+  }
+
+  // Google Sheets. The lead logging settings are saved with updateGoogleConfig.
+  static async getSpreadsheets(businessId: number, search?: string): Promise<ApiResponse<GoogleSpreadsheet[]>> {
+    const query = search ? `?${new URLSearchParams({ q: search }).toString()}` : "";
+    return apiClient.get<GoogleSpreadsheet[]>(`${API_ENDPOINTS.GOOGLE.SPREADSHEETS(businessId)}${query}`);
+  }
+
+  static async getWorksheets(businessId: number, spreadsheetId: string): Promise<ApiResponse<GoogleWorksheet[]>> {
+    return apiClient.get<GoogleWorksheet[]>(API_ENDPOINTS.GOOGLE.WORKSHEETS(businessId, spreadsheetId));
+  }
+
+  static async previewSheetsRows(
+    businessId: number,
+    data: { columns: SheetsColumnMapping[]; limit?: number }
+  ): Promise<ApiResponse<SheetsPreview>> {
+    return apiClient.post<SheetsPreview>(API_ENDPOINTS.GOOGLE.SHEETS_PREVIEW(businessId), data);
+  }
+
+  // Google Drive. Lists the root of My Drive when no folder is given.
+  static async getDriveFiles(
+    businessId: number,
+    params?: { folder_id?: string; q?: string }
+  ): Promise<ApiResponse<DriveFile[]>> {
+    const queryParams = new URLSearchParams();
+    if (params?.folder_id) queryParams.append("folder_id", params.folder_id);
+    if (params?.q) queryParams.append("q", params.q);
+
+    const query = queryParams.toString() ? `?${queryParams.toString()}` : "";
+    return apiClient.get<DriveFile[]>(`${API_ENDPOINTS.GOOGLE.DRIVE_FILES(businessId)}${query}`);
+  }
+
+  static async getKnowledgeSources(businessId: number): Promise<ApiResponse<KnowledgeSource[]>> {
+    return apiClient.get<KnowledgeSource[]>(API_ENDPOINTS.GOOGLE.KNOWLEDGE_SOURCES(businessId));
+  }
+
+  // Adds the files and starts indexing them
+  static async addKnowledgeSources(
+    businessId: number,
+    files: Pick<DriveFile, "id" | "name" | "mime_type" | "is_folder">[]
+  ): Promise<ApiResponse<KnowledgeSource[]>> {
+    return apiClient.post<KnowledgeSource[]>(API_ENDPOINTS.GOOGLE.KNOWLEDGE_SOURCES(businessId), { files });
+  }
+
+  static async syncKnowledgeSource(businessId: number, sourceId: number): Promise<ApiResponse<KnowledgeSource>> {
+    return apiClient.post<KnowledgeSource>(`${API_ENDPOINTS.GOOGLE.KNOWLEDGE_SOURCE(businessId, sourceId)}/sync`);
+  }
+
+  static async removeKnowledgeSource(businessId: number, sourceId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(API_ENDPOINTS.GOOGLE.KNOWLEDGE_SOURCE(businessId, sourceId));
+  }
+
+  // Best passages for a question, highest matchScore first, like AirtableService.matchFAQs
+  static async searchKnowledge(
+    businessId: number,
+    question: string,
+    limit = 5
+  ): Promise<ApiResponse<KnowledgeSearchResult[]>> {
+    return apiClient.post<KnowledgeSearchResult[]>(API_ENDPOINTS.GOOGLE.KNOWLEDGE_SEARCH(businessId), { question, limit });
   }
 }
 
@@ -22,7 +22,7 @@ export interface HubSpotConfig {
 }
 
 export interface HubSpotContact {
-  email: string;
+  email?: string; // WhatsApp contacts are often created from the phone number alone
   firstName?: string;
   lastName?: string;
   phone?: string;
@@ -30,6 +30,28 @@ export interface HubSpotContact {
   jobTitle?: string;
 }
 
+// Contact as stored in HubSpot, returned by createContact and searchContacts
+export interface HubSpotContactRecord extends HubSpotContact {
+  id: string;
+  url?: string; // contact page in the HubSpot app
+}
+
+// HubSpot contact a conversation is linked to
+export interface HubSpotContactLink {
+  contact_id: string;
+  name?: string;
+  url?: string;
+  synced_by: 'manual' | 'auto';
+  synced_at: string;
+}
+
+// Rule for creating or linking contacts without an operator
+export interface HubSpotSyncSettings {
+  enabled: boolean;
+  trigger: 'new_conversation' | 'lead_captured';
+  create_missing: boolean; // create a contact when no contact has the phone number, otherwise only link
+}
+
 export interface HubSpotCompany {
   name: string;
   domain?: string;
@@ -44,16 +66,55 @@ export interface HubSpotCompany {
 export interface HubSpotDeal {
   name: string;
   amount?: number;
-  stage?: string;
+  stage?: string; // stage id from getPipelines, must belong to the pipeline
   closeDate?: string;
   description?: string;
-  pipeline?: string;
+  pipeline?: string; // pipeline id from getPipelines
+}
+
+export interface HubSpotDealStage {
+  id: string;
+  label: string;
+  display_order: number;
+  probability?: number; // 0-1, 1 for closed won
+  is_closed?: boolean;
+}
+
+export interface HubSpotPipeline {
+  id: string;
+  label: string;
+  display_order: number;
+  stages: HubSpotDealStage[];
+}
+
+// Stage a deal moves to when the bot detects the intent in a conversation
+export interface HubSpotIntentMapping {
+  intent: string;
+  pipeline_id: string;
+  stage_id: string;
+}
+
+export interface HubSpotDealSettings {
+  default_pipeline_id?: string;
+  default_stage_id?: string;
+  intent_mappings: HubSpotIntentMapping[];
+}
+
+export interface HubSpotDealRecord {
+  id: string;
+  name: string;
+  url?: string; // deal page in the HubSpot app
+}
+
+export interface ConversationDealData extends HubSpotDeal {
+  attach_transcript: boolean; // add the conversation transcript to the deal as a note
 }
 
 export class HubSpotService {
   // Configuration Management
-  static async getConfig(businessId: number): Promise<ApiResponse<HubSpotIntegrationStatus>> {
-    return apiClient.get<HubSpotIntegrationStatus>(`/hubspot/config/${businessId}`);
+  // The status comes at the top level of the body ({ success, isIntegrated, email, ... }), not under data
+  static async getConfig(businessId: number): Promise<ApiResponse & HubSpotIntegrationStatus> {
+    return apiClient.get(`/hubspot/config/${businessId}`) as Promise<ApiResponse & HubSpotIntegrationStatus>;
   }
 
   static async deleteConfig(businessId: number): Promise<ApiResponse<void>> {
@@ -66,8 +127,11 @@ export class HubSpotService {
   }
 
   // CRM Operations
-  static async createContact(businessId: number, contactData: HubSpotContact): Promise<ApiResponse<any>> {
-    return apiClient.post<any>(`/hubspot/contacts/${businessId}`, contactData);
+  static async createContact(
+    businessId: number,
+    contactData: HubSpotContact
+  ): Promise<ApiResponse<HubSpotContactRecord>> {
+    return apiClient.post<HubSpotContactRecord>(`/hubspot/contacts/${businessId}`, contactData);
   }
 
   static async createCompany(businessId: number, companyData: HubSpotCompany): Promise<ApiResponse<any>> {
@@ -78,8 +142,60 @@ export class HubSpotService {
     return apiClient.post<any>(`/hubspot/deals/${businessId}`, dealData);
   }
 
-  static async searchContacts(businessId: number, searchTerm: string): Promise<ApiResponse<any>> {
-    return apiClient.post<any>(`/hubspot/contacts/search/${businessId}`, { searchTerm });
+  // Matches the term against name, email and phone number
+  static async searchContacts(businessId: number, searchTerm: string): Promise<ApiResponse<HubSpotContactRecord[]>> {
+    return apiClient.post<HubSpotContactRecord[]>(`/hubspot/contacts/search/${businessId}`, { searchTerm });
+  }
+
+  // Deal Pipelines
+  static async getPipelines(businessId: number): Promise<ApiResponse<HubSpotPipeline[]>> {
+    return apiClient.get<HubSpotPipeline[]>(`/hubspot/pipelines/${businessId}`);
+  }
+
+  static async getDealSettings(businessId: number): Promise<ApiResponse<HubSpotDealSettings>> {
+    return apiClient.get<HubSpotDealSettings>(`/hubspot/deal-settings/${businessId}`);
+  }
+
+  static async updateDealSettings(
+    businessId: number,
+    settings: HubSpotDealSettings
+  ): Promise<ApiResponse<HubSpotDealSettings>> {
+    return apiClient.put<HubSpotDealSettings>(`/hubspot/deal-settings/${businessId}`, settings);
+  }
+
+  // Conversation Sync
+  // The deal is associated with the contact linked to the conversation, if any
+  static async createConversationDeal(
+    businessId: number,
+    conversationId: number,
+    dealData: ConversationDealData
+  ): Promise<ApiResponse<HubSpotDealRecord>> {
+    return apiClient.post<HubSpotDealRecord>(`/hubspot/conversations/${businessId}/${conversationId}/deals`, dealData);
+  }
+
+  static async linkConversationContact(
+    businessId: number,
+    conversationId: number,
+    contactId: string
+  ): Promise<ApiResponse<HubSpotContactLink>> {
+    return apiClient.put<HubSpotContactLink>(`/hubspot/conversations/${businessId}/${conversationId}/contact`, {
+      contact_id: contactId,
+    });
+  }
+
+  static async unlinkConversationContact(businessId: number, conversationId: number): Promise<ApiResponse<void>> {
+    return apiClient.delete<void>(`/hubspot/conversations/${businessId}/${conversationId}/contact`);
+  }
+
+  static async getSyncSettings(businessId: number): Promise<ApiResponse<HubSpotSyncSettings>> {
+    return apiClient.get<HubSpotSyncSettings>(`/hubspot/sync-settings/${businessId}`);
+  }
+
+  static async updateSyncSettings(
+    businessId: number,
+    settings: HubSpotSyncSettings
+  ): Promise<ApiResponse<HubSpotSyncSettings>> {
+    return apiClient.put<HubSpotSyncSettings>(`/hubspot/sync-settings/${businessId}`, settings);
   }
 }
 
@@ -0,0 +1,39 @@
+import { apiClient, type ApiResponse } from "@/lib/api-client";
+import { API_ENDPOINTS } from "@/config";
+import type { User } from "@/lib/services/auth-service";
+import type { UserRole } from "@/lib/permissions";
+
+export interface InviteUserData {
+  username: string;
+  email: string;
+  role: UserRole;
+  business_ids?: number[];
+}
+
+export interface UpdateUserData {
+  role?: UserRole;
+  status?: "active" | "disabled";
+}
+
+// User management (admin only)
+export class UserService {
+  async getUsers(): Promise<ApiResponse<User[]>> {
+    return apiClient.get<User[]>(API_ENDPOINTS.USERS.LIST);
+  }
+
+  // Creates the account and emails the invitee a link to set their password
+  async inviteUser(data: InviteUserData): Promise<ApiResponse<User>> {
+    return apiClient.post<User>(API_ENDPOINTS.USERS.INVITE, data);
+  }
+
+  async updateUser(id: number, data: UpdateUserData): Promise<ApiResponse<User>> {
+    return apiClient.patch<User>(API_ENDPOINTS.USERS.UPDATE(id), data);
+  }
+
+  async setUserBusinesses(id: number, businessIds: number[]): Promise<ApiResponse<User>> {
+    return apiClient.put<User>(API_ENDPOINTS.USERS.BUSINESSES(id), { business_ids: businessIds });
+  }
+}
+
+// Export singleton instance
+export const userService = new UserService();
@@ -0,0 +1,110 @@
+import type { User } from "@/lib/services/auth-service";
+
+// JWT helpers
+
+interface JwtPayload {
+  exp?: number; // seconds since epoch
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export function decodeJwt(token: string): JwtPayload | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(payload.length / 4) * 4, "=");
+    const json = decodeURIComponent(
+      atob(base64)
+        .split("")
+        .map((char) => `%${char.charCodeAt(0).toString(16).padStart(2, "0")}`)
+        .join("")
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+// Expiry in ms since epoch, or null when the token carries no exp claim
+export function getTokenExpiry(token: string | null): number | null {
+  if (!token) return null;
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : null;
+}
+
+export function isTokenExpired(token: string | null, skewMs = 0): boolean {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - skewMs <= Date.now();
+}
+
+// Cross-tab session sync
+
+const REFRESH_LOCK_NAME = "wbot-admin-token-refresh";
+
+// Runs the task while holding a lock shared by every tab, so only one tab refreshes the token at a time.
+// Browsers without the Web Locks API run it directly.
+export function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+  if (typeof navigator === "undefined" || !navigator.locks) return task();
+  return navigator.locks.request(REFRESH_LOCK_NAME, task);
+}
+
+export type SessionSyncMessage =
+  | { type: "login"; user: User }
+  | { type: "logout" }
+  | { type: "token-refresh"; token: string };
+
+const CHANNEL_NAME = "wbot-admin-session";
+const STORAGE_KEY = "session_sync";
+
+// Broadcasts session changes to the other tabs. Uses BroadcastChannel where
+// available and falls back to storage events otherwise.
+export class SessionSync {
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<(message: SessionSyncMessage) => void>();
+
+  constructor() {
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => this.notify(event.data);
+    } else {
+      window.addEventListener("storage", this.handleStorage);
+    }
+  }
+
+  post(message: SessionSyncMessage): void {
+    if (this.channel) {
+      this.channel.postMessage(message);
+      return;
+    }
+
+    // The nonce makes repeated identical messages still fire a storage event
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ message, nonce: Math.random() }));
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  subscribe(listener: (message: SessionSyncMessage) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    window.removeEventListener("storage", this.handleStorage);
+    this.listeners.clear();
+  }
+
+  private handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY || !event.newValue) return;
+    try {
+      this.notify(JSON.parse(event.newValue).message);
+    } catch {
+      // Ignore malformed values written by other code
+    }
+  };
+
+  private notify(message: SessionSyncMessage) {
+    this.listeners.forEach((listener) => listener(message));
+  }
+}
@@ -0,0 +1,81 @@
+import type {
+  SheetsColumnMapping,
+  SheetsColumnSource,
+  SheetsLoggingConfig,
+  SheetsLogTrigger,
+} from "@/lib/services/google-service";
+
+export const SHEETS_LOG_TRIGGERS: { value: SheetsLogTrigger; label: string; description: string }[] = [
+  {
+    value: "new_conversation",
+    label: "New conversation",
+    description: "A customer writes to the business for the first time",
+  },
+  {
+    value: "lead_captured",
+    label: "Lead captured",
+    description: "The bot collected the details it asks for, e.g. name and email",
+  },
+  {
+    value: "conversation_archived",
+    label: "Conversation archived",
+    description: "A conversation is archived, with everything captured so far",
+  },
+];
+
+export const SHEETS_COLUMN_SOURCES: { value: SheetsColumnSource; label: string }[] = [
+  { value: "phone_number", label: "Phone number" },
+  { value: "contact_name", label: "Contact name" },
+  { value: "first_message", label: "First message" },
+  { value: "last_message_at", label: "Last message time" },
+  { value: "captured_field", label: "Captured field" },
+];
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Header patterns for the built-in sources, checked in order
+const SOURCE_PATTERNS: [SheetsColumnSource, RegExp][] = [
+  ["phone_number", /\b(phone|mobile|whatsapp|number)\b/],
+  ["contact_name", /\bname\b/],
+  ["last_message_at", /\b(last message|date|time|updated)\b/],
+  ["first_message", /\b(first message|message|inquiry|enquiry|question)\b/],
+];
+
+// Headers that match no built-in source are assumed to hold a captured field of the same name
+export function guessColumnMapping(header: string): SheetsColumnMapping {
+  const normalized = normalize(header);
+  const source = SOURCE_PATTERNS.find(([, pattern]) => pattern.test(normalized))?.[0];
+  return source
+    ? { column: header, source }
+    : { column: header, source: "captured_field", field: normalized.replace(/ /g, "_") };
+}
+
+// One mapping per worksheet header, keeping the saved mapping of headers that still exist
+export function buildColumnMappings(headers: string[], saved: SheetsColumnMapping[] = []): SheetsColumnMapping[] {
+  return headers
+    .filter((header) => header.trim())
+    .map((header) => saved.find((mapping) => mapping.column === header) || guessColumnMapping(header));
+}
+
+export function describeColumnSource(mapping: SheetsColumnMapping): string {
+  if (mapping.source === "captured_field") {
+    return mapping.field ? `Captured: ${mapping.field}` : "Captured field";
+  }
+  return SHEETS_COLUMN_SOURCES.find((item) => item.value === mapping.source)?.label || mapping.source;
+}
+
+// Why the settings cannot be saved yet, or null when they are complete
+export function getSheetsConfigProblem(config: Partial<SheetsLoggingConfig>): string | null {
+  if (!config.spreadsheet_id) return "Choose a spreadsheet";
+  if (config.worksheet_id === undefined || config.worksheet_id === null) return "Choose a worksheet";
+  if (!config.columns?.length) return "The worksheet needs a header row to map columns to";
+  if (config.columns.some((mapping) => mapping.source === "captured_field" && !mapping.field?.trim())) {
+    return "Enter the captured field of every column that uses one";
+  }
+  if (!config.triggers?.length) return "Choose when a row is added";
+  return null;
+}
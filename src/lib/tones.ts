@@ -0,0 +1,44 @@
+import {
+  BusinessService,
+  type BusinessTone,
+  type TonePreviewRequest,
+  type TonePreviewResult,
+  type ToneScheduleRule,
+} from "@/lib/services/business-service";
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// yyyy-mm-dd of a date in local time
+const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+export function isScheduleRuleActive(rule: ToneScheduleRule, date = new Date()): boolean {
+  const day = toDateKey(date);
+  if (day < rule.start_date || day > rule.end_date) return false;
+  return !rule.days_of_week?.length || rule.days_of_week.includes(date.getDay());
+}
+
+// The tone the bot uses at `date`: a tone with a matching schedule rule, otherwise the active one
+export function getEffectiveTone(tones: BusinessTone[], date = new Date()): BusinessTone | undefined {
+  return (
+    tones.find((tone) => tone.schedule_rules?.some((rule) => isScheduleRuleActive(rule, date))) ||
+    tones.find((tone) => tone.is_active)
+  );
+}
+
+export function describeScheduleRule(rule: ToneScheduleRule): string {
+  const range = rule.start_date === rule.end_date ? rule.start_date : `${rule.start_date} – ${rule.end_date}`;
+  if (!rule.days_of_week?.length) return range;
+  return `${range} (${rule.days_of_week.map((day) => WEEKDAYS[day]).join(", ")})`;
+}
+
+// Produces a bot reply for the tone playground; the backend preview endpoint by default
+export type TonePreviewer = (businessId: number, request: TonePreviewRequest) => Promise<TonePreviewResult>;
+
+export const defaultTonePreviewer: TonePreviewer = async (businessId, request) => {
+  const response = await BusinessService.previewBusinessTone(businessId, request);
+  if (!response.success || !response.data) {
+    throw new Error(response.error || "Failed to preview reply");
+  }
+  return response.data;
+};
@@ -0,0 +1,50 @@
+import { API_ENDPOINTS, getEndpoint } from "@/config";
+
+// Public URL Meta calls for webhook verification and events.
+// API_BASE is relative in development, so resolve it against the current origin.
+export function getWhatsAppCallbackUrl(): string {
+  return new URL(getEndpoint(API_ENDPOINTS.WHATSAPP.WEBHOOK), window.location.origin).toString();
+}
+
+// Random URL-safe token for the webhook verify_token handshake
+export function generateVerifyToken(bytes = 32): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return btoa(String.fromCharCode(...values))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+// Message templates
+
+const PLACEHOLDER_PATTERN = /\{\{(\d+)\}\}/g;
+
+// Number of {{n}} placeholders in a template text; Meta requires them to run 1..n
+export function countTemplateVariables(text?: string): number {
+  if (!text) return 0;
+  const indexes = Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => Number(match[1]));
+  return indexes.length ? Math.max(...indexes) : 0;
+}
+
+// Returns an error message when the placeholders are not numbered 1, 2, 3, ... without gaps
+export function validateTemplateVariables(text?: string): string | null {
+  if (!text) return null;
+  const indexes = new Set(Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => Number(match[1])));
+  for (let index = 1; index <= indexes.size; index++) {
+    if (!indexes.has(index)) return `Placeholders must be numbered {{1}} to {{${indexes.size}}} without gaps`;
+  }
+  return null;
+}
+
+// Fill placeholders with values; missing values keep the placeholder visible
+export function renderTemplateText(text: string, values: string[] = []): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, index) => values[Number(index) - 1] || placeholder);
+}
+
+// Template names may only contain lowercase letters, digits and underscores
+export function toTemplateName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
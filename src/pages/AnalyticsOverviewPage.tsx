@@ -0,0 +1,8 @@
+import React from "react";
+import { AnalyticsOverview } from "@/components/analytics/AnalyticsOverview";
+
+const AnalyticsOverviewPage = () => {
+  return <AnalyticsOverview />;
+};
+
+export default AnalyticsOverviewPage;
@@ -11,13 +11,13 @@ export const AuthPage: React.FC = () => {
   const { login, updateUser } = useAuth(); // Add updateUser
   const navigate = useNavigate();
 
-  const handleLoginSuccess = (user: any, token: string) => {
-    login(user, token);
+  const handleLoginSuccess = (user: any, token: string, refreshToken?: string) => {
+    login(user, token, refreshToken);
     navigate("/businesses");
   };
 
-  const handleSignupSuccess = (user: any, token: string) => {
-    login(user, token);
+  const handleSignupSuccess = (user: any, token: string, refreshToken?: string) => {
+    login(user, token, refreshToken);
     navigate("/businesses");
   };
 
@@ -0,0 +1,8 @@
+import React from "react";
+import { UserManagement } from "@/components/users/UserManagement";
+
+const UsersPage = () => {
+  return <UserManagement />;
+};
+
+export default UsersPage;
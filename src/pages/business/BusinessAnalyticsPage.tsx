@@ -0,0 +1,11 @@
+import React from "react";
+import { BusinessAnalytics } from "@/components/analytics/BusinessAnalytics";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessAnalyticsPage = () => {
+  const { businessId } = useBusinessRoute();
+
+  return <BusinessAnalytics businessId={businessId} />;
+};
+
+export default BusinessAnalyticsPage;
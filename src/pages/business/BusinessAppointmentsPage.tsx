@@ -0,0 +1,51 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AppointmentList } from "@/components/bookings/AppointmentList";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+import { useBookingSettings, useGoogleCalendars } from "@/hooks/use-bookings";
+
+const BusinessAppointmentsPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const { hasPermission } = useAuth();
+  const { data: settings } = useBookingSettings(businessId);
+  const { data: calendars = [] } = useGoogleCalendars(businessId);
+  const timeZone = calendars.find((calendar) => calendar.id === settings?.calendar_id)?.time_zone;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-lg flex items-center gap-2">
+            Appointments
+            {settings?.enabled ? (
+              <Badge variant="outline" className="bg-green-500/10 text-green-700 border-green-500/20">
+                Booking on
+              </Badge>
+            ) : (
+              <Badge variant="secondary">Booking off</Badge>
+            )}
+          </CardTitle>
+          <CardDescription>Meetings the bot booked in Google Calendar</CardDescription>
+        </div>
+        {hasPermission("integrations:edit") && (
+          <Button variant="outline" asChild>
+            <Link to={`${basePath}/appointments/settings`}>
+              <Settings className="h-4 w-4 mr-2" />
+              Booking Settings
+            </Link>
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        <AppointmentList businessId={businessId} basePath={basePath} timeZone={timeZone} />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessAppointmentsPage;
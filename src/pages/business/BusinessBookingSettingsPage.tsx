@@ -0,0 +1,40 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BookingSettingsForm } from "@/components/bookings/BookingSettingsForm";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+import { useBookingSettings } from "@/hooks/use-bookings";
+
+const BusinessBookingSettingsPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const navigate = useNavigate();
+  const { data: settings, isLoading, error } = useBookingSettings(businessId);
+  const listPath = `${basePath}/appointments`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Booking Settings</CardTitle>
+        <CardDescription>When and how the bot books appointments in Google Calendar</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-muted-foreground py-8 text-center">Loading booking settings...</div>
+        ) : error ? (
+          <div className="text-destructive py-8 text-center">Error loading booking settings: {error.message}</div>
+        ) : (
+          <BookingSettingsForm
+            key={businessId}
+            businessId={businessId}
+            settings={settings}
+            googleIntegrationPath={`${basePath}/integrations/google`}
+            onSuccess={() => navigate(listPath)}
+            onCancel={() => navigate(listPath)}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessBookingSettingsPage;
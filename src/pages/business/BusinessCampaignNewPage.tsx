@@ -0,0 +1,29 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CampaignForm } from "@/components/campaigns/CampaignForm";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessCampaignNewPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">New Campaign</CardTitle>
+        <CardDescription>Choose a template, the audience and when to send</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <CampaignForm
+          key={businessId}
+          businessId={businessId}
+          onSuccess={(campaign) => navigate(`${basePath}/campaigns/${campaign.id}`)}
+          onCancel={() => navigate(`${basePath}/campaigns`)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessCampaignNewPage;
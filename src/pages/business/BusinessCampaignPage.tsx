@@ -0,0 +1,13 @@
+import React from "react";
+import { useParams } from "react-router-dom";
+import { CampaignResults } from "@/components/campaigns/CampaignResults";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessCampaignPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const { campaignId } = useParams<{ campaignId: string }>();
+
+  return <CampaignResults businessId={businessId} campaignId={Number(campaignId)} basePath={basePath} />;
+};
+
+export default BusinessCampaignPage;
@@ -0,0 +1,28 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CampaignList } from "@/components/campaigns/CampaignList";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessCampaignsPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Campaigns</CardTitle>
+        <CardDescription>Broadcast an approved template to a segment of your customers</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <CampaignList
+          businessId={businessId}
+          basePath={basePath}
+          onCreate={() => navigate(`${basePath}/campaigns/new`)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessCampaignsPage;
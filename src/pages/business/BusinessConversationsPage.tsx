@@ -0,0 +1,23 @@
+import React from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ChatHistory } from "@/components/chat/ChatHistory";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessConversationsPage = () => {
+  const { businessId, business, basePath } = useBusinessRoute();
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const navigate = useNavigate();
+
+  return (
+    <ChatHistory
+      key={businessId}
+      businessId={businessId}
+      businessName={business?.name || ""}
+      basePath={basePath}
+      selectedConversationId={conversationId ? Number(conversationId) : null}
+      onSelectConversation={(id) => navigate(id ? `${basePath}/conversations/${id}` : `${basePath}/conversations`)}
+    />
+  );
+};
+
+export default BusinessConversationsPage;
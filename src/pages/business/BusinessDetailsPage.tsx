@@ -0,0 +1,37 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BusinessForm } from "@/components/basic/BusinessForm";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessDetailsPage = () => {
+  const { business, handleFormSuccess } = useBusinessRoute();
+  const { hasPermission } = useAuth();
+  const navigate = useNavigate();
+
+  if (!business) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Business Details</CardTitle>
+        <CardDescription>Created {new Date(business.created_at).toLocaleDateString()}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {hasPermission("businesses:edit") ? (
+          <BusinessForm
+            key={business.id}
+            business={business}
+            onSuccess={() => handleFormSuccess("/businesses")}
+            onCancel={() => navigate("/businesses")}
+          />
+        ) : (
+          <p className="text-sm text-start">{business.description || "No description"}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessDetailsPage;
@@ -0,0 +1,46 @@
+import React from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { EscalationRuleForm } from "@/components/escalations/EscalationRuleForm";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+import { useEscalationRules } from "@/hooks/use-escalations";
+
+// Form for a new escalation rule (/escalations/new) or an existing one (/escalations/:ruleId)
+const BusinessEscalationRulePage = () => {
+  const { businessId, basePath, handleFormSuccess } = useBusinessRoute();
+  const { ruleId } = useParams<{ ruleId: string }>();
+  const navigate = useNavigate();
+  const { data: rules = [], isLoading } = useEscalationRules(businessId);
+
+  const isNew = ruleId === "new";
+  const rule = isNew ? null : rules.find((item) => item.id === Number(ruleId));
+  const listPath = `${basePath}/escalations?tab=rules`;
+
+  if (!isNew && isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading escalation rule...</div>;
+  }
+
+  if (!isNew && !rule) {
+    return <div className="text-destructive py-8 text-center">Escalation rule not found</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{isNew ? "New Escalation Rule" : `Edit ${rule.name}`}</CardTitle>
+        <CardDescription>Choose when a conversation is handed off and who gets the email</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <EscalationRuleForm
+          key={`${businessId}-${ruleId}`}
+          businessId={businessId}
+          rule={rule}
+          onSuccess={() => handleFormSuccess(listPath)}
+          onCancel={() => navigate(listPath)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessEscalationRulePage;
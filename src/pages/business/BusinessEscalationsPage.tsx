@@ -0,0 +1,63 @@
+import React from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { EscalationLog } from "@/components/escalations/EscalationLog";
+import { EscalationRuleList } from "@/components/escalations/EscalationRuleList";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+// Escalation log, optionally filtered to one conversation (?conversation=:id), and the rules behind it (?tab=rules)
+const BusinessEscalationsPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const { hasPermission } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const conversationId = Number(searchParams.get("conversation")) || undefined;
+  const canEditRules = hasPermission("integrations:edit");
+  const tab = canEditRules && searchParams.get("tab") === "rules" ? "rules" : "log";
+
+  const log = (
+    <EscalationLog
+      key={conversationId}
+      businessId={businessId}
+      basePath={basePath}
+      conversationId={conversationId}
+      onClearConversation={() => setSearchParams({})}
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Escalations</CardTitle>
+        <CardDescription>
+          Conversations handed off to your team by email, sent through the connected Gmail account
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {canEditRules ? (
+          <Tabs value={tab} onValueChange={(value) => setSearchParams(value === "rules" ? { tab: value } : {})}>
+            <TabsList>
+              <TabsTrigger value="log">Log</TabsTrigger>
+              <TabsTrigger value="rules">Rules</TabsTrigger>
+            </TabsList>
+            <TabsContent value="log">{log}</TabsContent>
+            <TabsContent value="rules">
+              <EscalationRuleList
+                businessId={businessId}
+                onCreate={() => navigate(`${basePath}/escalations/new`)}
+                onEdit={(rule) => navigate(`${basePath}/escalations/${rule.id}`)}
+              />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          log
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessEscalationsPage;
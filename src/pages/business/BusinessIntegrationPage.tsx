@@ -0,0 +1,37 @@
+import React from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getIntegrationProvider } from "@/components/integration/providers";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessIntegrationPage = () => {
+  const { businessId, basePath, handleFormSuccess } = useBusinessRoute();
+  const { provider: providerId } = useParams<{ provider: string }>();
+  const navigate = useNavigate();
+  const provider = getIntegrationProvider(providerId);
+
+  if (!provider) {
+    return <Navigate to={`${basePath}/integrations`} replace />;
+  }
+
+  const IntegrationForm = provider.component;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{provider.title}</CardTitle>
+        <CardDescription>{provider.description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <IntegrationForm
+          key={`${provider.id}-${businessId}`}
+          businessId={businessId}
+          onSuccess={() => handleFormSuccess(`${basePath}/integrations`)}
+          onCancel={() => navigate(`${basePath}/integrations`)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessIntegrationPage;
@@ -0,0 +1,31 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { INTEGRATION_PROVIDERS } from "@/components/integration/providers";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessIntegrationsPage = () => {
+  const { basePath } = useBusinessRoute();
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {INTEGRATION_PROVIDERS.map((provider) => (
+        <Link key={provider.id} to={`${basePath}/integrations/${provider.id}`}>
+          <Card className="h-full transition-colors hover:bg-accent">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <div className="w-6 h-6 bg-primary rounded-sm flex items-center justify-center">
+                  <span className="text-white font-bold text-xs">{provider.initial}</span>
+                </div>
+                {provider.name}
+              </CardTitle>
+              <CardDescription>{provider.description}</CardDescription>
+            </CardHeader>
+          </Card>
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+export default BusinessIntegrationsPage;
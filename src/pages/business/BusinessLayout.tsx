@@ -0,0 +1,187 @@
+import React from "react";
+import { Link, Navigate, Outlet, useLocation, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { getIntegrationProvider } from "@/components/integration/providers";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+import type { Permission } from "@/lib/permissions";
+
+// Tabs of the business detail page; `path` is the route segment below /businesses/:businessId
+const BUSINESS_TABS: Array<{ value: string; path: string; label: string; permission?: Permission }> = [
+  { value: "details", path: "", label: "Details" },
+  { value: "whatsapp", path: "whatsapp", label: "WhatsApp", permission: "whatsapp:edit" },
+  { value: "templates", path: "templates", label: "Templates", permission: "whatsapp:edit" },
+  { value: "tone", path: "tone", label: "Tone", permission: "tone:edit" },
+  { value: "conversations", path: "conversations", label: "Conversations", permission: "conversations:view" },
+  { value: "campaigns", path: "campaigns", label: "Campaigns", permission: "campaigns:manage" },
+  { value: "appointments", path: "appointments", label: "Appointments", permission: "conversations:view" },
+  { value: "escalations", path: "escalations", label: "Escalations", permission: "conversations:view" },
+  { value: "integrations", path: "integrations", label: "Integrations", permission: "integrations:edit" },
+  { value: "analytics", path: "analytics", label: "Analytics", permission: "analytics:view" },
+];
+
+// Breadcrumb for the "new" route below a tab
+const NEW_ITEM_LABELS: Record<string, string> = {
+  whatsapp: "New number",
+  templates: "New template",
+  campaigns: "New campaign",
+  tone: "New tone",
+  escalations: "New rule",
+};
+
+const BusinessLayout = () => {
+  const { businessId, business, isLoading, error, basePath } = useBusinessRoute();
+  const { provider, conversationId, numberId, campaignId, toneId, ruleId } = useParams<{
+    provider: string;
+    conversationId: string;
+    numberId: string;
+    campaignId: string;
+    toneId: string;
+    ruleId: string;
+  }>();
+  const { hasPermission, canAccessBusiness } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  if (!canAccessBusiness(businessId)) {
+    return <Navigate to="/businesses" replace />;
+  }
+
+  const [, section = "", subsection] = location.pathname.slice(basePath.length).split("/");
+  const tabs = BUSINESS_TABS.filter((tab) => !tab.permission || hasPermission(tab.permission));
+  const activeTab = BUSINESS_TABS.find((tab) => tab.path === section);
+
+  // Deepest breadcrumb below the tab, e.g. the integration provider or the open conversation
+  const detailLabel = provider
+    ? getIntegrationProvider(provider)?.name || provider
+    : conversationId
+    ? `Conversation #${conversationId}`
+    : subsection === "new"
+    ? NEW_ITEM_LABELS[section] || "New"
+    : section === "appointments" && subsection === "settings"
+    ? "Booking settings"
+    : numberId
+    ? `Number #${numberId}`
+    : campaignId
+    ? `Campaign #${campaignId}`
+    : toneId
+    ? `Tone #${toneId}${location.pathname.endsWith("/history") ? " history" : ""}`
+    : ruleId
+    ? `Rule #${ruleId}`
+    : null;
+
+  const handleBack = () => {
+    // Use the browser history when we navigated here inside the app, otherwise go to the list
+    if (location.key !== "default") {
+      navigate(-1);
+    } else {
+      navigate("/businesses");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-muted-foreground">Loading business...</div>
+      </div>
+    );
+  }
+
+  if (error || !business) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-destructive">Error loading business: {error?.message || "Business not found"}</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link to="/businesses">Businesses</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          <BreadcrumbItem>
+            {activeTab?.path ? (
+              <BreadcrumbLink asChild>
+                <Link to={basePath}>{business.name}</Link>
+              </BreadcrumbLink>
+            ) : (
+              <BreadcrumbPage>{business.name}</BreadcrumbPage>
+            )}
+          </BreadcrumbItem>
+          {activeTab?.path && (
+            <>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                {detailLabel ? (
+                  <BreadcrumbLink asChild>
+                    <Link to={`${basePath}/${activeTab.path}`}>{activeTab.label}</Link>
+                  </BreadcrumbLink>
+                ) : (
+                  <BreadcrumbPage>{activeTab.label}</BreadcrumbPage>
+                )}
+              </BreadcrumbItem>
+            </>
+          )}
+          {detailLabel && (
+            <>
+              <BreadcrumbSeparator />
+              <BreadcrumbItem>
+                <BreadcrumbPage>{detailLabel}</BreadcrumbPage>
+              </BreadcrumbItem>
+            </>
+          )}
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="flex items-center gap-4">
+        <Button variant="outline" size="sm" onClick={handleBack}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back
+        </Button>
+        <div className="flex items-center space-x-2">
+          <h1 className="text-3xl font-bold tracking-tight">{business.name}</h1>
+          <Badge variant={business.status === "active" ? "default" : "secondary"}>
+            {business.status === "active" ? "Active" : "Inactive"}
+          </Badge>
+        </div>
+      </div>
+
+      <Tabs
+        value={activeTab?.value}
+        onValueChange={(value) => {
+          const tab = BUSINESS_TABS.find((t) => t.value === value);
+          navigate(tab?.path ? `${basePath}/${tab.path}` : basePath);
+        }}
+      >
+        <TabsList>
+          {tabs.map((tab) => (
+            <TabsTrigger key={tab.value} value={tab.value}>
+              {tab.label}
+            </TabsTrigger>
+          ))}
+        </TabsList>
+      </Tabs>
+
+      <Outlet />
+    </div>
+  );
+};
+
+export default BusinessLayout;
@@ -0,0 +1,30 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TemplateForm } from "@/components/templates/TemplateForm";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessTemplateNewPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const navigate = useNavigate();
+  const listPath = `${basePath}/templates`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">New Template</CardTitle>
+        <CardDescription>Templates are reviewed by WhatsApp before they can be sent, usually within minutes</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <TemplateForm
+          key={businessId}
+          businessId={businessId}
+          onSuccess={() => navigate(listPath)}
+          onCancel={() => navigate(listPath)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessTemplateNewPage;
@@ -0,0 +1,24 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { TemplateList } from "@/components/templates/TemplateList";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessTemplatesPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Message Templates</CardTitle>
+        <CardDescription>WhatsApp-approved templates for messaging customers outside the 24-hour window</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <TemplateList businessId={businessId} onCreate={() => navigate(`${basePath}/templates/new`)} />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessTemplatesPage;
@@ -0,0 +1,46 @@
+import React from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BusinessToneForm } from "@/components/basic/BusinessToneForm";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+import { useBusinessTones } from "@/hooks/use-businesses";
+
+// Form for a new tone (/tone/new) or an existing one (/tone/:toneId)
+const BusinessToneEditPage = () => {
+  const { businessId, basePath, handleFormSuccess } = useBusinessRoute();
+  const { toneId } = useParams<{ toneId: string }>();
+  const navigate = useNavigate();
+  const { data: tones = [], isLoading } = useBusinessTones(businessId);
+
+  const isNew = toneId === "new";
+  const tone = isNew ? null : tones.find((item) => item.id === Number(toneId));
+  const listPath = `${basePath}/tone`;
+
+  if (!isNew && isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading tone...</div>;
+  }
+
+  if (!isNew && !tone) {
+    return <div className="text-destructive py-8 text-center">Tone not found</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{isNew ? "New Tone" : `Edit ${tone.name}`}</CardTitle>
+        <CardDescription>Configure the tone and personality the assistant uses for this business</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <BusinessToneForm
+          key={`${businessId}-${toneId}`}
+          businessId={businessId}
+          tone={tone}
+          onSuccess={() => handleFormSuccess(listPath)}
+          onCancel={() => navigate(listPath)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessToneEditPage;
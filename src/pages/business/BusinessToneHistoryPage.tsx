@@ -0,0 +1,36 @@
+import React from "react";
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BusinessToneHistory } from "@/components/basic/BusinessToneHistory";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+import { useBusinessTones } from "@/hooks/use-businesses";
+
+const BusinessToneHistoryPage = () => {
+  const { businessId } = useBusinessRoute();
+  const { toneId } = useParams<{ toneId: string }>();
+  const { data: tones = [], isLoading } = useBusinessTones(businessId);
+
+  const tone = tones.find((item) => item.id === Number(toneId));
+
+  if (isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading tone...</div>;
+  }
+
+  if (!tone) {
+    return <div className="text-destructive py-8 text-center">Tone not found</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{tone.name} History</CardTitle>
+        <CardDescription>Every save creates a new version. Restore an earlier one to roll back.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <BusinessToneHistory businessId={businessId} tone={tone} />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessToneHistoryPage;
@@ -0,0 +1,31 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { BusinessToneList } from "@/components/basic/BusinessToneList";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessTonePage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Business Tones</CardTitle>
+        <CardDescription>
+          Keep several tones for this business, pick the active one and schedule tones for holidays or promotions
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <BusinessToneList
+          businessId={businessId}
+          onCreate={() => navigate(`${basePath}/tone/new`)}
+          onEdit={(tone) => navigate(`${basePath}/tone/${tone.id}`)}
+          onHistory={(tone) => navigate(`${basePath}/tone/${tone.id}/history`)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessTonePage;
@@ -0,0 +1,46 @@
+import React from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { WhatsAppForm } from "@/components/basic/WhatsAppForm";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+import { useWhatsAppNumbers } from "@/hooks/use-businesses";
+
+// Setup wizard for a new number (/whatsapp/new) or an existing one (/whatsapp/:numberId)
+const BusinessWhatsAppNumberPage = () => {
+  const { businessId, basePath, handleFormSuccess } = useBusinessRoute();
+  const { numberId } = useParams<{ numberId: string }>();
+  const navigate = useNavigate();
+  const { data: numbers = [], isLoading } = useWhatsAppNumbers(businessId);
+
+  const isNew = numberId === "new";
+  const number = isNew ? null : numbers.find((item) => item.id === Number(numberId));
+  const listPath = `${basePath}/whatsapp`;
+
+  if (!isNew && isLoading) {
+    return <div className="text-muted-foreground py-8 text-center">Loading WhatsApp number...</div>;
+  }
+
+  if (!isNew && !number) {
+    return <div className="text-destructive py-8 text-center">WhatsApp number not found</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{isNew ? "Add WhatsApp Number" : `Edit ${number.label}`}</CardTitle>
+        <CardDescription>Connect the number to Meta and confirm messages are delivered</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <WhatsAppForm
+          key={`${businessId}-${numberId}`}
+          businessId={businessId}
+          number={number}
+          onSuccess={() => handleFormSuccess(listPath)}
+          onCancel={() => navigate(listPath)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessWhatsAppNumberPage;
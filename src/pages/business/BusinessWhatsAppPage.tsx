@@ -0,0 +1,28 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { WhatsAppNumberList } from "@/components/basic/WhatsAppNumberList";
+import { useBusinessRoute } from "@/hooks/use-business-route";
+
+const BusinessWhatsAppPage = () => {
+  const { businessId, basePath } = useBusinessRoute();
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">WhatsApp Numbers</CardTitle>
+        <CardDescription>Connect one or more WhatsApp numbers to this business</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <WhatsAppNumberList
+          businessId={businessId}
+          onAdd={() => navigate(`${basePath}/whatsapp/new`)}
+          onEdit={(number) => navigate(`${basePath}/whatsapp/${number.id}`)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessWhatsAppPage;